@@ -4,7 +4,7 @@ import MessageBubble from './components/MessageBubble';
 import TaskInput from './components/TaskInput';
 import LoadingIndicator from './components/LoadingIndicator';
 import Sidebar from './components/Sidebar';
-import { taskAPI, healthAPI } from './services/api';
+import { taskAPI, healthAPI, conversationAPI } from './services/api';
 
 function App() {
   const [messages, setMessages] = useState([]);
@@ -16,6 +16,7 @@ function App() {
   const [logs, setLogs] = useState([]);
   const [showClearModal, setShowClearModal] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const [conversationId, setConversationId] = useState(null);
   const messagesEndRef = useRef(null);
 
   // Scroll to bottom when new messages arrive
@@ -87,7 +88,15 @@ function App() {
     setIsLoading(true);
 
     try {
-      const response = await taskAPI.processTask(taskData);
+      // Keep the chat in one conversation so the assistant remembers earlier turns
+      let activeConversationId = conversationId;
+      if (!activeConversationId) {
+        const conversationResponse = await conversationAPI.createConversation();
+        activeConversationId = conversationResponse.data.id;
+        setConversationId(activeConversationId);
+      }
+
+      const response = await taskAPI.processTask({ ...taskData, conversationId: activeConversationId });
       
       // Add AI response
       const aiMessage = {
@@ -157,6 +166,7 @@ function App() {
     try {
       await taskAPI.deleteAllLogs();
       setMessages([]);
+      setConversationId(null);
       setLogs([]);
       setShowClearModal(false);
       setShowSidebar(false);
@@ -1,12 +1,14 @@
 import axios from 'axios';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3000/api';
+const API_KEY = process.env.REACT_APP_API_KEY;
 
 const api = axios.create({
   baseURL: API_BASE_URL,
   timeout: 30000,
   headers: {
     'Content-Type': 'application/json',
+    ...(API_KEY && { Authorization: `Bearer ${API_KEY}` }),
   },
 });
 
@@ -74,6 +76,20 @@ export const taskAPI = {
   }
 };
 
+export const conversationAPI = {
+  // Start a new conversation
+  createConversation: async (title) => {
+    const response = await api.post('/conversations', { title });
+    return response.data;
+  },
+
+  // Get a conversation with its messages
+  getConversation: async (id) => {
+    const response = await api.get(`/conversations/${id}`);
+    return response.data;
+  }
+};
+
 export const healthAPI = {
   // Health check
   checkHealth: async () => {
@@ -1,9 +1,28 @@
 #!/usr/bin/env node
 
 import readline from 'readline';
-import { AIService } from '../services/aiService';
+import fs from 'fs';
+import path from 'path';
+import { once } from 'events';
+import { TaskProcessor, RegenerateError } from '../services/taskProcessor';
 import { DatabaseService } from '../database/schema';
-import { TaskRequest } from '../types';
+import { ApiKeyService } from '../services/apiKeyService';
+import { parseLogQuery } from '../services/logQuery';
+import { LogArchiveService, ArchiveFormat, ARCHIVE_FORMATS } from '../services/logArchiveService';
+import { PromptTemplateService, PromptTemplateError } from '../services/promptTemplateService';
+import { WebhookService, WebhookError, WEBHOOK_EVENTS } from '../services/webhookService';
+import { PiiRedactor, hashSubject } from '../services/piiRedactor';
+import { RetentionService } from '../services/retentionService';
+import { AuditService, AUDIT_ACTIONS, cliActor } from '../services/auditService';
+import { FeedbackService, FeedbackError } from '../services/feedbackService';
+import { ProviderConfigurationError } from '../services/providers';
+import { BatchService, BatchError, BATCH_FORMATS } from '../services/batchService';
+import { AttachmentService, AttachmentError, attachmentFormatOf } from '../services/attachmentService';
+import { config, isProviderName, PROVIDER_NAMES } from '../config';
+import {
+  AttachmentUse, AuditAction, BatchFormat, FeedbackGroup, FeedbackInput, FineTuningOptions, PromptTemplate, PromptTemplateInput,
+  RegenerateOptions, TaskBatch, TaskRequest, UsageLimits, WebhookDeliveryStatus, WebhookEvent
+} from '../types';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -11,8 +30,17 @@ dotenv.config();
 
 class AICLInterface {
   private rl: readline.Interface;
-  private aiService: AIService;
+  private taskProcessor: TaskProcessor;
   private dbService: DatabaseService;
+  private apiKeyService: ApiKeyService;
+  private logArchiveService: LogArchiveService;
+  private templateService: PromptTemplateService;
+  private webhookService: WebhookService;
+  private retentionService: RetentionService;
+  private auditService: AuditService;
+  private feedbackService: FeedbackService;
+  private batchService: BatchService;
+  private attachmentService: AttachmentService;
 
   constructor() {
     this.rl = readline.createInterface({
@@ -20,19 +48,42 @@ class AICLInterface {
       output: process.stdout
     });
 
-    this.aiService = new AIService(process.env.OPENAI_API_KEY || '');
     this.dbService = DatabaseService.getInstance();
+    this.webhookService = new WebhookService(this.dbService);
+    this.taskProcessor = new TaskProcessor(undefined, this.dbService, undefined, undefined, this.webhookService);
+    this.apiKeyService = new ApiKeyService(this.dbService);
+    this.logArchiveService = new LogArchiveService(this.dbService);
+    this.templateService = new PromptTemplateService(this.dbService);
+    this.auditService = new AuditService(this.dbService);
+    this.feedbackService = new FeedbackService(this.dbService);
+    this.batchService = new BatchService(this.taskProcessor, this.dbService);
+    this.attachmentService = new AttachmentService(this.dbService);
+    this.retentionService = new RetentionService(this.dbService, undefined, this.auditService);
   }
 
   public async start(): Promise<void> {
+    this.webhookService.start();
+
     console.log('\n🤖 AI Assistant Module - CLI Interface');
     console.log('=====================================');
     console.log('Type your tasks or use commands:');
     console.log('- help: Show available commands');
     console.log('- logs: View interaction logs');
     console.log('- stats: Show statistics');
-    console.log('- delete <id>: Delete specific log by ID');
-    console.log('- clear-all: Delete all logs');
+    console.log('- regenerate <id>: Answer a logged task again as a new version');
+    console.log('- batch <file>: Run every task in a JSON, JSONL or CSV file');
+    console.log('- attach <file>: Upload a document, then ask <id> <task> about it');
+    console.log('- feedback: Rate a response or export a fine-tuning dataset');
+    console.log('- export/import <file>: Archive or restore logs');
+    console.log('- delete <id>: Move a log to the trash');
+    console.log('- clear-all: Move all logs to the trash');
+    console.log('- trash: List, restore or purge deleted logs');
+    console.log('- keys: Manage API keys');
+    console.log('- templates: Manage prompt templates');
+    console.log('- webhooks: Manage webhook subscriptions');
+    console.log('- privacy: Show the privacy policy, erase a subject or apply retention');
+    console.log('- audit: Show the audit trail');
+    console.log('- migrate: Show or change the database schema version');
     console.log('- clear: Clear screen');
     console.log('- exit: Quit the application');
     console.log('\nExample tasks:');
@@ -60,9 +111,6 @@ class AICLInterface {
           this.showHelp();
           break;
 
-        case 'logs':
-          await this.showLogs();
-          break;
 
         case 'stats':
           await this.showStats();
@@ -84,6 +132,44 @@ class AICLInterface {
           if (command.startsWith('delete ')) {
             const id = input.substring(7).trim();
             await this.deleteLog(id);
+          } else if (command === 'logs' || command.startsWith('logs ')) {
+            await this.showLogs(input.trim().split(/\s+/).slice(1));
+          } else if (command.startsWith('export ')) {
+            await this.exportLogs(input.trim().split(/\s+/).slice(1));
+          } else if (command.startsWith('import ')) {
+            await this.importLogs(input.trim().split(/\s+/).slice(1));
+          } else if (command === 'keys' || command.startsWith('keys ')) {
+            this.manageKeys(input.trim().split(/\s+/).slice(1));
+          } else if (command === 'templates' || command.startsWith('templates ')) {
+            this.manageTemplates(input.trim().split(/\s+/).slice(1));
+          } else if (command === 'webhooks' || command.startsWith('webhooks ')) {
+            this.manageWebhooks(input.trim().split(/\s+/).slice(1));
+          } else if (command.startsWith('batch ')) {
+            await this.runBatch(input.trim().split(/\s+/).slice(1));
+          } else if (command.startsWith('attach ')) {
+            await this.attachFile(input.substring(7).trim());
+          } else if (command === 'attachments' || command.startsWith('attachments ')) {
+            this.manageAttachments(input.trim().split(/\s+/).slice(1));
+          } else if (command.startsWith('ask ')) {
+            const [ids, ...words] = input.trim().split(/\s+/).slice(1);
+            await this.processTask(words.join(' '), ids.split(',').filter(id => id.length > 0));
+          } else if (command.startsWith('regenerate ')) {
+            await this.regenerateLog(input.trim().split(/\s+/).slice(1));
+          } else if (command.startsWith('versions ')) {
+            this.showVersions(input.substring(9).trim());
+          } else if (command.startsWith('prefer ')) {
+            this.preferVersion(input.substring(7).trim());
+          } else if (command === 'feedback' || command.startsWith('feedback ')) {
+            await this.manageFeedback(input.trim().split(/\s+/).slice(1));
+          } else if (command === 'trash' || command.startsWith('trash ')) {
+            this.manageTrash(input.trim().split(/\s+/).slice(1));
+          } else if (command === 'audit' || command.startsWith('audit ')) {
+            this.showAuditEvents(input.trim().split(/\s+/).slice(1));
+          } else if (command === 'privacy' || command.startsWith('privacy ')) {
+            this.managePrivacy(input.trim().split(/\s+/).slice(1));
+          } else if (command === 'migrate' || command.startsWith('migrate ')) {
+            runMigrateCommand(this.dbService, input.trim().split(/\s+/).slice(1));
+            console.log('\n');
           } else {
             await this.processTask(input);
           }
@@ -99,9 +185,55 @@ class AICLInterface {
     console.log('====================');
     console.log('help        - Show this help message');
     console.log('logs        - View recent interaction logs');
+    console.log('logs [name=value ...] [search words] - Search logs, e.g. logs status=error since=2024-06-01 lead analysis');
+    console.log('             Filters: status, priority, model, requestId, batchId, since, until, minProcessingTime,');
+    console.log('             maxProcessingTime, metadata.<key>, sort, order, limit, cursor');
     console.log('stats       - Show task processing statistics');
-    console.log('delete <id> - Delete specific log by ID');
-    console.log('clear-all   - Delete all interaction logs');
+    console.log('regenerate <id> [provider=...] [model=...] [temperature=0-2] - Answer a logged task again as its next version');
+    console.log('versions <id> - List every version of a logged interaction');
+    console.log('batch <file.json|file.jsonl|file.csv> [out=<file>] [concurrency=n] - Run every task in the file and');
+    console.log('             write the results in the same format (to <file>.results.<ext> by default)');
+    console.log('prefer <id> - Mark a version as the preferred answer');
+    console.log('attach <file> - Upload a text, Markdown, CSV, JSON or HTML file to use as task context');
+    console.log('attachments - List attachments');
+    console.log('attachments show <id> - Show the chunks an attachment was split into');
+    console.log('attachments delete <id> - Delete an attachment');
+    console.log('ask <attachment-id[,id ...]> <task> - Run a task with attachments as context, e.g. ask <id> summarize the risks');
+    console.log('feedback <id> - Show the feedback on a log');
+    console.log('feedback <id> [up|down] [1-5] [comment words] - Rate a response, e.g. feedback <id> up 5 spot on');
+    console.log('feedback <id> correct <text> - Record the answer the log should have given');
+    console.log('feedback export <file.jsonl> [minRating=4] [corrections=true] [since=...] [until=...] - Export a fine-tuning dataset');
+    console.log('export <file.jsonl|file.csv> [filters] [search words] - Export matching logs');
+    console.log('import <file.jsonl|file.csv> [tenant=<id>] - Restore an export; existing ids are skipped');
+    console.log('delete <id> - Move a log to the trash');
+    console.log('clear-all   - Move all interaction logs to the trash');
+    console.log('trash       - List deleted logs, most recently deleted first');
+    console.log('trash restore [id ...] - Restore the given logs, or the whole trash');
+    console.log('trash purge [id ...] - Delete the given trashed logs for good, or empty the trash');
+    console.log('keys        - List API keys');
+    console.log('keys create <tenant> <name> [admin] - Issue an API key');
+    console.log('keys revoke <id> - Revoke an API key');
+    console.log('keys limits <id> [name=value ...] - Override rate limit and quotas (no values restores defaults)');
+    console.log('templates   - List active prompt templates');
+    console.log('templates show <name> [version] - Show a prompt template');
+    console.log('templates versions <name> - List every version of a template');
+    console.log('templates create <file.json> - Create a template from a JSON definition');
+    console.log('templates update <name> <file.json> - Save changes as a new active version');
+    console.log('templates activate <name> <version> - Make an earlier version active again');
+    console.log('templates delete <name> - Delete a template and all its versions');
+    console.log('webhooks    - List webhook subscriptions');
+    console.log('webhooks create <tenant> <url> [event,...] - Subscribe a URL to events (all of them by default)');
+    console.log('webhooks enable|disable <id> - Resume or pause deliveries to a subscription');
+    console.log('webhooks delete <id> - Delete a subscription and its delivery log');
+    console.log('webhooks deliveries <id> [status] - Show recent deliveries with their attempts');
+    console.log('webhooks redeliver <delivery-id> - Send a delivery again');
+    console.log('privacy     - Show the redaction and retention policy');
+    console.log('privacy forget <subject> [tenant] - Delete everything stored for a usage subject (key:<id> or ip:<address>)');
+    console.log('privacy sweep - Apply the retention policy now');
+    console.log('audit [name=value ...] - Show recent audit events. Filters: action, actor, target, tenant, limit');
+    console.log('migrate [status] - Show applied and pending database migrations');
+    console.log('migrate up [version] - Apply pending migrations (up to a version)');
+    console.log('migrate down [steps] - Roll back the latest migration(s)');
     console.log('clear       - Clear the screen');
     console.log('exit        - Quit the application');
     console.log('\n💡 Task Examples:');
@@ -114,21 +246,26 @@ class AICLInterface {
     console.log('\n');
   }
 
-  private async processTask(taskInput: string): Promise<void> {
+  private async processTask(taskInput: string, attachments?: string[]): Promise<void> {
+    if (attachments && (attachments.length === 0 || !taskInput.trim())) {
+      console.log('❌ Usage: ask <attachment-id[,id ...]> <task>');
+      console.log('\n');
+      return;
+    }
+
     console.log('\n🔄 Processing task...\n');
 
     try {
       const taskRequest: TaskRequest = {
         task: taskInput,
-        priority: 'medium'
+        priority: 'medium',
+        ...(attachments && { attachments })
       };
 
       const startTime = Date.now();
       
-      // Use simulation mode if no OpenAI API key is provided
-      const response = process.env.OPENAI_API_KEY 
-        ? await this.aiService.processTask(taskRequest)
-        : await this.aiService.simulateTaskProcessing(taskRequest);
+      // Process the task and save the interaction log
+      const response = await this.taskProcessor.process(taskRequest);
 
       const totalTime = Date.now() - startTime;
 
@@ -138,34 +275,112 @@ class AICLInterface {
       console.log(`⏱️  Processing Time: ${response.processingTime}ms`);
       console.log(`📅 Timestamp: ${new Date(response.timestamp).toLocaleString()}`);
       console.log(`🎯 Status: ${response.status.toUpperCase()}`);
+      if (response.metadata?.cached) {
+        console.log('💾 Answered from the response cache');
+      }
+      (response.metadata?.attachments as AttachmentUse[] | undefined)?.forEach(used => {
+        console.log(`📎 ${used.filename}: ${used.chunks.length} of ${used.totalChunks} chunks`);
+      });
       console.log('\n📝 Response:');
       console.log('============');
       console.log(response.response);
       console.log('\n');
 
-      // Save to database
-      this.dbService.saveInteractionLog({
-        id: response.id,
-        task: response.task,
-        response: response.response,
-        status: response.status,
-        timestamp: response.timestamp,
-        processingTime: response.processingTime,
-        metadata: response.metadata
-      });
-
     } catch (error) {
-      console.error('❌ Error processing task:', error);
+      if (error instanceof AttachmentError) {
+        console.log(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Error processing task:', error);
+      }
       console.log('\n');
     }
   }
 
-  private async showLogs(): Promise<void> {
+  private async attachFile(file: string): Promise<void> {
+    try {
+      const attachment = await this.attachmentService.upload(
+        fs.createReadStream(file),
+        path.basename(file),
+        attachmentFormatOf(undefined, file)
+      );
+
+      console.log(`\n📎 Stored ${attachment.filename}: ${attachment.tokens} tokens in ${attachment.chunkCount} chunks`);
+      console.log(`🆔 ID: ${attachment.id}`);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        console.log(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Error storing attachment:', error);
+      }
+    }
+    console.log('\n');
+  }
+
+  private manageAttachments(args: string[]): void {
+    const [action, id] = args;
+
+    try {
+      if (!action || action === 'list') {
+        this.listAttachments();
+      } else if (action === 'show' && id) {
+        const attachment = this.dbService.getAttachmentById(id);
+        if (!attachment) {
+          console.log(`❌ Attachment with ID "${id}" not found`);
+        } else {
+          console.log(`\n📎 ${attachment.filename} (${attachment.format}, ${attachment.size} bytes, ${attachment.tokens} tokens)`);
+          this.dbService.getAttachmentChunks(id).forEach(chunk => {
+            console.log(`\nPart ${chunk.index + 1} of ${attachment.chunkCount} (${chunk.tokens} tokens)`);
+            console.log(indent(chunk.content));
+          });
+        }
+      } else if (action === 'delete' && id) {
+        const deleted = this.dbService.deleteAttachment(id);
+        if (deleted) {
+          this.auditService.record(cliActor(), 'attachment.delete', id);
+        }
+        console.log(deleted ? '✅ Attachment deleted' : `❌ Attachment with ID "${id}" not found`);
+      } else {
+        console.log('❌ Usage: attachments [list] | attachments show <id> | attachments delete <id>');
+      }
+    } catch (error) {
+      console.error('❌ Error managing attachments:', error);
+    }
+    console.log('\n');
+  }
+
+  private listAttachments(): void {
+    console.log('\n📎 Attachments');
+    console.log('==============');
+
+    const attachments = this.dbService.getAttachments(20);
+
+    if (attachments.length === 0) {
+      console.log('No attachments found.');
+      return;
+    }
+
+    attachments.forEach((attachment, index) => {
+      console.log(`\n${index + 1}. ${attachment.filename}`);
+      console.log(`   Format: ${attachment.format}, ${attachment.tokens} tokens in ${attachment.chunkCount} chunks`);
+      console.log(`   Uploaded: ${new Date(attachment.createdAt).toLocaleString()}`);
+      console.log(`   ID: ${attachment.id}`);
+    });
+  }
+
+  private async showLogs(args: string[] = []): Promise<void> {
     console.log('\n📊 Recent Interaction Logs');
     console.log('==========================');
 
     try {
-      const logs = this.dbService.getInteractionLogs(10, 0);
+      const { query, error } = parseLogQuery({ limit: '10', ...filterParams(args) });
+
+      if (!query) {
+        console.log(`❌ ${error}`);
+        console.log('\n');
+        return;
+      }
+
+      const { logs, nextCursor } = this.dbService.queryInteractionLogs(query);
 
       if (logs.length === 0) {
         console.log('No interaction logs found.');
@@ -178,9 +393,19 @@ class AICLInterface {
         console.log(`   Status: ${log.status.toUpperCase()}`);
         console.log(`   Time: ${new Date(log.timestamp).toLocaleString()}`);
         console.log(`   Duration: ${log.processingTime}ms`);
+        if (log.model) {
+          console.log(`   Model: ${log.model}${log.usage ? ` (${log.usage.totalTokens} tokens)` : ''}`);
+        }
+        if (log.versionOf) {
+          console.log(`   Version: ${log.version} of ${log.versionOf}${log.preferred ? ' (preferred)' : ''}`);
+        }
         console.log(`   ID: ${log.id}`);
       });
 
+      if (nextCursor) {
+        const filters = args.filter(arg => !arg.startsWith('cursor='));
+        console.log(`\n➡️  More logs: logs ${[...filters, `cursor=${nextCursor}`].join(' ')}`);
+      }
       console.log('\n');
     } catch (error) {
       console.error('❌ Error retrieving logs:', error);
@@ -198,6 +423,30 @@ class AICLInterface {
       console.log(`📊 Total Interactions: ${stats.totalInteractions}`);
       console.log(`✅ Success Rate: ${stats.successRate.toFixed(1)}%`);
       console.log(`⏱️  Average Processing Time: ${stats.averageProcessingTime.toFixed(0)}ms`);
+      console.log(`📉 Latency p50 / p95 / p99: ${stats.latency.p50}ms / ${stats.latency.p95}ms / ${stats.latency.p99}ms`);
+      console.log(`🔢 Tokens: ${stats.totalTokens} (${stats.promptTokens} prompt, ${stats.completionTokens} completion)`);
+      console.log(`💰 Estimated Cost: $${stats.totalCost.toFixed(4)}`);
+      console.log(`💾 Cache Hits: ${stats.cacheHits} (${stats.cacheHitRate.toFixed(1)}%)`);
+
+      if (stats.byModel.length > 0) {
+        console.log('\nBy model:');
+        stats.byModel.forEach(group => {
+          console.log(`   ${group.key}: ${group.count} tasks, ${group.totalTokens} tokens, $${group.cost.toFixed(4)}, avg ${group.averageProcessingTime.toFixed(0)}ms`);
+        });
+      }
+
+      const { feedback } = stats;
+      if (feedback.count > 0) {
+        const describe = (group: Omit<FeedbackGroup, 'key'>) =>
+          `${group.satisfactionRate.toFixed(1)}% satisfied, ${group.thumbsUp} 👍 ${group.thumbsDown} 👎` +
+          `${group.ratings > 0 ? `, avg rating ${group.averageRating.toFixed(1)}` : ''}, ${group.corrections} corrections`;
+
+        console.log(`\n⭐ Feedback: ${feedback.count} entries, ${describe(feedback)}`);
+        for (const [title, groups] of [['template', feedback.byTemplate], ['model', feedback.byModel], ['category', feedback.byCategory]] as const) {
+          console.log(`\nSatisfaction by ${title}:`);
+          groups.forEach(group => console.log(`   ${group.key}: ${group.count} entries, ${describe(group)}`));
+        }
+      }
       console.log('\n');
     } catch (error) {
       console.error('❌ Error retrieving statistics:', error);
@@ -205,6 +454,187 @@ class AICLInterface {
     }
   }
 
+  private async regenerateLog(args: string[]): Promise<void> {
+    const [id, ...rest] = args;
+    const params = filterParams(rest);
+    const temperature = params.temperature === undefined ? undefined : Number(params.temperature);
+
+    if (!id || params.q || (params.provider !== undefined && !isProviderName(params.provider)) ||
+        (temperature !== undefined && !(temperature >= 0 && temperature <= 2))) {
+      console.log(`❌ Usage: regenerate <id> [provider=${PROVIDER_NAMES.join('|')}] [model=<name>] [temperature=0-2]`);
+      console.log('\n');
+      return;
+    }
+
+    const log = this.dbService.getInteractionLogById(id);
+    if (!log) {
+      console.log(`❌ Log with ID "${id}" not found`);
+      console.log('\n');
+      return;
+    }
+
+    console.log('\n🔄 Regenerating task...\n');
+    try {
+      const options: RegenerateOptions = { provider: params.provider as RegenerateOptions['provider'], model: params.model, temperature };
+      const response = await this.taskProcessor.regenerate(log, options);
+
+      console.log(`✅ Version ${response.metadata?.version} of ${response.metadata?.versionOf}`);
+      console.log(`🎯 Status: ${response.status.toUpperCase()}`);
+      console.log(`🧠 Model: ${response.metadata?.model}`);
+      console.log(`🆔 ID: ${response.id}`);
+      console.log('\n📝 Response:');
+      console.log('============');
+      console.log(response.response);
+    } catch (error) {
+      if (error instanceof ProviderConfigurationError || error instanceof RegenerateError) {
+        console.log(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Error regenerating task:', error);
+      }
+    }
+    console.log('\n');
+  }
+
+  private showVersions(id: string): void {
+    const log = id ? this.dbService.getInteractionLogById(id) : null;
+    if (!log) {
+      console.log(id ? `❌ Log with ID "${id}" not found` : '❌ Usage: versions <id>');
+      console.log('\n');
+      return;
+    }
+
+    console.log(`\n🗂️  Versions of "${log.task}"`);
+    console.log('='.repeat(16 + log.task.length));
+    this.dbService.getInteractionLogVersions(log).forEach(version => {
+      const marks = [version.id === log.id && 'this log', version.preferred && '⭐ preferred'].filter(Boolean);
+      console.log(`\nv${version.version} ${version.status.toUpperCase()} ${version.model || ''} (${new Date(version.timestamp).toLocaleString()})${marks.length > 0 ? `  ${marks.join(', ')}` : ''}`);
+      console.log(`   ID: ${version.id}`);
+      console.log(indent(version.response));
+    });
+    console.log('\n');
+  }
+
+  private preferVersion(id: string): void {
+    const log = id ? this.dbService.setPreferredLogVersion(id) : null;
+    console.log(log ? `⭐ Version ${log.version} is now the preferred answer` : id ? `❌ Log with ID "${id}" not found` : '❌ Usage: prefer <id>');
+    console.log('\n');
+  }
+
+  private async manageFeedback(args: string[]): Promise<void> {
+    const [id, ...rest] = args;
+
+    if (id === 'export') {
+      await this.exportFineTuningDataset(rest);
+      return;
+    }
+    if (!id) {
+      console.log('❌ Usage: feedback <id> [up|down] [1-5] [comment words] | feedback <id> correct <text> | feedback export <file.jsonl>');
+      console.log('\n');
+      return;
+    }
+
+    try {
+      const entries = this.feedbackService.list(id);
+      if (!entries) {
+        console.log(`❌ Log with ID "${id}" not found`);
+        console.log('\n');
+        return;
+      }
+
+      if (rest.length === 0) {
+        console.log(`\n⭐ Feedback on ${id}`);
+        console.log('='.repeat(13 + id.length));
+        if (entries.length === 0) {
+          console.log('No feedback yet.');
+        }
+        entries.forEach(entry => {
+          const verdict = [entry.thumbs && (entry.thumbs === 'up' ? '👍' : '👎'), entry.rating && `${entry.rating}/5`].filter(Boolean);
+          console.log(`\n${entry.subject || 'unknown'} (${new Date(entry.updatedAt).toLocaleString()})${verdict.length > 0 ? `  ${verdict.join(' ')}` : ''}`);
+          if (entry.comment) console.log(`   Comment: ${entry.comment}`);
+          if (entry.correction) console.log(`   Correction:\n${indent(entry.correction)}`);
+        });
+        console.log('\n');
+        return;
+      }
+
+      // Builds on the feedback this CLI user gave before, so a rating and a correction can be added separately
+      const { actor } = cliActor();
+      const { thumbs, rating, comment, correction } = entries.find(entry => entry.subject === actor) || {};
+      const input: FeedbackInput = { thumbs, rating, comment, correction };
+
+      if (rest[0] === 'correct') {
+        input.correction = rest.slice(1).join(' ');
+      } else {
+        const words = [...rest];
+        while (words[0] === 'up' || words[0] === 'down' || /^[1-5]$/.test(words[0] || '')) {
+          const word = words.shift() as string;
+          if (word === 'up' || word === 'down') {
+            input.thumbs = word;
+          } else {
+            input.rating = parseInt(word);
+          }
+        }
+        if (words.length > 0) {
+          input.comment = words.join(' ');
+        }
+      }
+
+      this.feedbackService.submit(id, input, actor);
+      console.log(`✅ Saved your feedback on ${id}`);
+    } catch (error) {
+      if (error instanceof FeedbackError) {
+        console.log(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Error saving feedback:', error);
+      }
+    }
+    console.log('\n');
+  }
+
+  private async exportFineTuningDataset(args: string[]): Promise<void> {
+    const [file, ...filters] = args;
+    const params = filterParams(filters);
+    const minRating = params.minRating === undefined ? undefined : parseInt(params.minRating);
+
+    if (!file?.endsWith('.jsonl') || params.q || (minRating !== undefined && !(minRating >= 1 && minRating <= 5))) {
+      console.log('❌ Usage: feedback export <file.jsonl> [minRating=1-5] [corrections=true] [since=<date>] [until=<date>]');
+      console.log('\n');
+      return;
+    }
+
+    const options: FineTuningOptions = { minRating, corrections: params.corrections === 'true' };
+    for (const name of ['since', 'until'] as const) {
+      if (params[name] === undefined) continue;
+
+      const time = Date.parse(params[name]);
+      if (Number.isNaN(time)) {
+        console.log(`❌ ${name} must be an ISO 8601 date`);
+        console.log('\n');
+        return;
+      }
+      options[name] = new Date(time).toISOString();
+    }
+
+    try {
+      const output = fs.createWriteStream(file);
+      let lines = 0;
+
+      for (const chunk of this.feedbackService.dataset(options)) {
+        lines += chunk.split('\n').length - 1;
+        if (!output.write(chunk)) {
+          await once(output, 'drain');
+        }
+      }
+      output.end();
+      await once(output, 'finish');
+
+      console.log(`✅ Exported ${lines} training examples to ${file}`);
+    } catch (error) {
+      console.error('❌ Error exporting the fine-tuning dataset:', error);
+    }
+    console.log('\n');
+  }
+
   private async deleteLog(id: string): Promise<void> {
     console.log('\n🗑️  Deleting Interaction Log');
     console.log('============================');
@@ -217,10 +647,14 @@ class AICLInterface {
     }
 
     try {
+      // The CLI sees every tenant, so look up whose log it is for the webhook
+      const log = this.dbService.getInteractionLogById(id.trim());
       const deleted = this.dbService.deleteInteractionLog(id.trim());
 
       if (deleted) {
-        console.log(`✅ Successfully deleted log with ID: ${id}`);
+        this.webhookService.emit('log.deleted', { id: id.trim() }, log?.tenantId);
+        this.auditService.record({ ...cliActor(), tenantId: log?.tenantId }, 'log.delete', id.trim());
+        console.log(`✅ Moved log ${id} to the trash (restore it with: trash restore ${id})`);
       } else {
         console.log(`❌ Log with ID "${id}" not found`);
       }
@@ -231,15 +665,580 @@ class AICLInterface {
     }
   }
 
+  private manageKeys(args: string[]): void {
+    const [action, ...rest] = args;
+
+    try {
+      if (!action || action === 'list') {
+        this.listKeys();
+      } else if (action === 'create') {
+        this.createKey(rest);
+      } else if (action === 'revoke') {
+        this.revokeKey(rest[0]);
+      } else if (action === 'limits') {
+        this.setKeyLimits(rest);
+      } else {
+        console.log(`❌ Unknown keys command "${action}"`);
+        console.log('Usage: keys [list] | keys create <tenant> <name> [admin] | keys revoke <id> | keys limits <id> [name=value ...]');
+      }
+    } catch (error) {
+      console.error('❌ Error managing API keys:', error);
+    }
+    console.log('\n');
+  }
+
+  private listKeys(): void {
+    console.log('\n🔑 API Keys');
+    console.log('===========');
+
+    const keys = this.apiKeyService.list();
+
+    if (keys.length === 0) {
+      console.log('No API keys found. Create one with: keys create <tenant> <name> [admin]');
+      return;
+    }
+
+    keys.forEach((key, index) => {
+      console.log(`\n${index + 1}. ${key.name} (${key.keyPrefix}…)`);
+      console.log(`   Tenant: ${key.tenantId}`);
+      console.log(`   Role: ${key.role}`);
+      console.log(`   Status: ${key.revokedAt ? `revoked ${new Date(key.revokedAt).toLocaleString()}` : 'active'}`);
+      console.log(`   Last used: ${key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'never'}`);
+      if (key.limits) {
+        console.log(`   Limits: ${Object.entries(key.limits).map(([name, value]) => `${name}=${value}`).join(', ')}`);
+      }
+      console.log(`   ID: ${key.id}`);
+    });
+  }
+
+  private createKey(args: string[]): void {
+    const [tenantId, name, role] = args;
+
+    if (!tenantId || !name || (role && role !== 'admin')) {
+      console.log('❌ Usage: keys create <tenant> <name> [admin]');
+      return;
+    }
+
+    const { apiKey, key } = this.apiKeyService.issue(tenantId, name, role === 'admin' ? 'admin' : 'user');
+    this.auditService.record({ ...cliActor(), tenantId }, 'api_key.create', apiKey.id, { name, role: apiKey.role });
+
+    console.log('\n✅ API key created');
+    console.log(`   ID: ${apiKey.id}`);
+    console.log(`   Tenant: ${apiKey.tenantId}`);
+    console.log(`   Role: ${apiKey.role}`);
+    console.log(`\n   Key: ${key}`);
+    console.log('   ⚠️  Store this key now. It cannot be shown again.');
+  }
+
+  private revokeKey(id: string | undefined): void {
+    if (!id) {
+      console.log('❌ Usage: keys revoke <id>');
+      return;
+    }
+
+    if (this.apiKeyService.revoke(id)) {
+      this.auditService.record(cliActor(), 'api_key.revoke', id);
+      console.log(`✅ Revoked API key ${id}`);
+    } else {
+      console.log(`❌ No active API key with ID "${id}"`);
+    }
+  }
+
+  private setKeyLimits(args: string[]): void {
+    const [id, ...pairs] = args;
+    const names: (keyof UsageLimits)[] = ['requestsPerMinute', 'dailyTokens', 'monthlyTokens', 'dailyCost', 'monthlyCost'];
+
+    if (!id) {
+      console.log('❌ Usage: keys limits <id> [name=value ...]');
+      console.log(`   Limit names: ${names.join(', ')}`);
+      return;
+    }
+
+    const limits: Partial<UsageLimits> = {};
+    for (const pair of pairs) {
+      const [name, raw] = pair.split('=');
+      const value = Number(raw);
+
+      if (!names.includes(name as keyof UsageLimits) || raw === undefined || !Number.isFinite(value) || value < 0) {
+        console.log(`❌ Invalid limit "${pair}". Use name=value with one of: ${names.join(', ')}`);
+        return;
+      }
+      limits[name as keyof UsageLimits] = value;
+    }
+
+    if (this.apiKeyService.setLimits(id, limits)) {
+      this.auditService.record(cliActor(), 'api_key.limits', id, { limits });
+      console.log(pairs.length > 0 ? `✅ Updated limits for API key ${id}` : `✅ API key ${id} now uses the default limits`);
+    } else {
+      console.log(`❌ No API key with ID "${id}"`);
+    }
+  }
+
+  private manageTemplates(args: string[]): void {
+    const [action, ...rest] = args;
+    const usage = 'Usage: templates [list] | templates show <name> [version] | templates versions <name> | ' +
+      'templates create <file.json> | templates update <name> <file.json> | templates activate <name> <version> | templates delete <name>';
+
+    try {
+      if (!action || action === 'list') {
+        this.listTemplates();
+      } else if (action === 'show' && rest[0]) {
+        const template = this.templateService.get(rest[0], rest[1] ? parseInt(rest[1]) : undefined);
+        if (template) {
+          this.printTemplate(template, true);
+        } else {
+          console.log(`❌ No template "${rest[0]}"${rest[1] ? ` with version ${rest[1]}` : ''}`);
+        }
+      } else if (action === 'versions' && rest[0]) {
+        const versions = this.templateService.versions(rest[0]);
+        if (versions.length === 0) {
+          console.log(`❌ No template "${rest[0]}"`);
+        }
+        versions.forEach(template => {
+          console.log(`v${template.version}${template.active ? ' (active)' : ''} - ${new Date(template.createdAt).toLocaleString()}`);
+        });
+      } else if (action === 'create' && rest[0]) {
+        const template = this.templateService.create(readTemplateFile(rest[0]));
+        this.auditService.record(cliActor(), 'template.create', template.name, { version: template.version });
+        console.log(`✅ Created template "${template.name}" (v${template.version})`);
+      } else if (action === 'update' && rest[0] && rest[1]) {
+        const template = this.templateService.update(rest[0], readTemplateFile(rest[1]));
+        if (template) {
+          this.auditService.record(cliActor(), 'template.update', template.name, { version: template.version });
+        }
+        console.log(template ? `✅ Template "${template.name}" is now at v${template.version}` : `❌ No template "${rest[0]}"`);
+      } else if (action === 'activate' && rest[0] && rest[1]) {
+        const template = this.templateService.activate(rest[0], parseInt(rest[1]));
+        if (template) {
+          this.auditService.record(cliActor(), 'template.activate', template.name, { version: template.version });
+        }
+        console.log(template ? `✅ Activated v${template.version} of "${template.name}"` : `❌ No template "${rest[0]}" with version ${rest[1]}`);
+      } else if (action === 'delete' && rest[0]) {
+        const deleted = this.templateService.delete(rest[0]);
+        if (deleted) {
+          this.auditService.record(cliActor(), 'template.delete', rest[0]);
+        }
+        console.log(deleted ? `✅ Deleted template "${rest[0]}"` : `❌ No template "${rest[0]}"`);
+      } else {
+        console.log(`❌ ${usage}`);
+      }
+    } catch (error) {
+      if (error instanceof PromptTemplateError) {
+        console.log(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Error managing templates:', error);
+      }
+    }
+    console.log('\n');
+  }
+
+  private listTemplates(): void {
+    console.log('\n🧩 Prompt Templates');
+    console.log('==================');
+
+    this.templateService.list().forEach((template, index) => {
+      console.log(`\n${index + 1}.`);
+      this.printTemplate(template, false);
+    });
+  }
+
+  private printTemplate(template: PromptTemplate, detailed: boolean): void {
+    const { keywords, pattern } = template.match;
+
+    console.log(`   ${template.name} v${template.version}${template.active ? '' : ' (inactive)'}`);
+    if (template.description) {
+      console.log(`   ${template.description}`);
+    }
+    console.log(`   Priority: ${template.priority}`);
+    if (keywords?.length || pattern) {
+      console.log(`   Matches: ${[...(keywords || []), ...(pattern ? [`/${pattern}/i`] : [])].join(', ')}`);
+    }
+    if (template.variables.length > 0) {
+      console.log(`   Variables: ${template.variables.map(v => `${v.name}${v.required ? '*' : ''}`).join(', ')}`);
+    }
+    if (detailed) {
+      console.log(`   ID: ${template.id}`);
+      console.log(`\n   System:\n${indent(template.systemTemplate)}`);
+      console.log(`\n   User:\n${indent(template.userTemplate)}`);
+    }
+  }
+
+  private managePrivacy(args: string[]): void {
+    const [action, ...rest] = args;
+
+    try {
+      if (!action || action === 'policy') {
+        const redactor = new PiiRedactor();
+        const days = (value: number, unit: string) => (value > 0 ? `after ${value} days` : `never (${unit} kept)`);
+
+        console.log('\n🔒 Privacy Policy');
+        console.log('================');
+        console.log(`Redaction rules: ${redactor.enabled ? redactor.ruleNames.join(', ') : 'none'}`);
+        console.log(`Provider input redacted: ${redactor.providerInputEnabled ? 'yes' : 'no'}`);
+        console.log(`Delete data: ${days(config.retention.deleteAfterDays, 'data')}`);
+        console.log(`Anonymize IP addresses: ${days(config.retention.anonymizeIpAfterDays, 'addresses')}`);
+        console.log(`Purge trashed logs: ${days(config.retention.trashDays, 'logs')}`);
+      } else if (action === 'forget' && rest[0]) {
+        const erasure = this.dbService.eraseSubject(rest[0], rest[1]);
+        const { subject, ...deleted } = erasure;
+        this.auditService.record({ ...cliActor(), tenantId: rest[1] }, 'subject.erase', hashSubject(subject), deleted);
+
+        console.log(`\n✅ Erased ${erasure.subject}`);
+        console.log(`   Interaction logs: ${erasure.interactionLogs}`);
+        console.log(`   Conversations: ${erasure.conversations}`);
+        console.log(`   Jobs: ${erasure.jobs}`);
+        console.log(`   Batches: ${erasure.batches}`);
+        console.log(`   Attachments: ${erasure.attachments}`);
+        console.log(`   Usage records: ${erasure.usageRecords}`);
+        console.log(`   Webhook deliveries: ${erasure.webhookDeliveries}`);
+        console.log(`   Feedback: ${erasure.feedback}`);
+      } else if (action === 'sweep') {
+        if (!this.retentionService.enabled) {
+          console.log('ℹ️  No retention rules are configured (RETENTION_DELETE_AFTER_DAYS, RETENTION_ANONYMIZE_IP_AFTER_DAYS, TRASH_RETENTION_DAYS)');
+        } else {
+          const { deleted, anonymized, purged } = this.retentionService.sweep();
+
+          console.log('\n✅ Retention policy applied');
+          console.log(`   Deleted: ${deleted.interactionLogs} logs, ${deleted.jobs} jobs, ${deleted.conversations} conversations, ` +
+            `${deleted.webhookDeliveries} webhook deliveries, ${deleted.batches} batches, ${deleted.attachments} attachments`);
+          console.log(`   Anonymized: ${anonymized.interactionLogs} logs, ${anonymized.jobs} jobs, ${anonymized.usageRecords} usage records, ` +
+            `${anonymized.feedback} feedback entries, ${anonymized.batches} batches, ${anonymized.attachments} attachments`);
+          console.log(`   Purged from the trash: ${purged.interactionLogs} logs`);
+        }
+      } else {
+        console.log('❌ Usage: privacy [policy] | privacy forget <subject> [tenant] | privacy sweep');
+      }
+    } catch (error) {
+      console.error('❌ Error managing privacy:', error);
+    }
+    console.log('\n');
+  }
+
+  private manageTrash(args: string[]): void {
+    const [action, ...ids] = args;
+    const selection = ids.length > 0 ? ids : undefined;
+
+    try {
+      if (!action || action === 'list') {
+        this.listTrash();
+      } else if (action === 'restore') {
+        const count = this.dbService.restoreInteractionLogs(selection);
+        if (count > 0) {
+          this.auditService.record(cliActor(), 'logs.restore', undefined, { ids: selection, count });
+        }
+        console.log(count > 0 ? `✅ Restored ${count} interaction logs` : 'ℹ️  No matching logs in the trash');
+      } else if (action === 'purge') {
+        const count = this.dbService.purgeInteractionLogs(selection);
+        if (count > 0) {
+          this.auditService.record(cliActor(), 'logs.purge', undefined, { ids: selection, count });
+        }
+        console.log(count > 0 ? `✅ Purged ${count} interaction logs` : 'ℹ️  No matching logs in the trash');
+      } else {
+        console.log('❌ Usage: trash [list] | trash restore [id ...] | trash purge [id ...]');
+      }
+    } catch (error) {
+      console.error('❌ Error managing the trash:', error);
+    }
+    console.log('\n');
+  }
+
+  private listTrash(): void {
+    console.log('\n🗑️  Trash');
+    console.log('========');
+
+    const logs = this.dbService.getTrashedInteractionLogs(20);
+
+    if (logs.length === 0) {
+      console.log('The trash is empty.');
+      return;
+    }
+
+    const days = config.retention.trashDays;
+    console.log(days > 0 ? `Logs are purged ${days} days after they were deleted.` : 'Logs stay here until they are purged.');
+
+    logs.forEach((log, index) => {
+      console.log(`\n${index + 1}. ${log.task.length > 60 ? `${log.task.slice(0, 60)}…` : log.task}`);
+      console.log(`   Deleted: ${new Date(log.deletedAt as string).toLocaleString()}`);
+      console.log(`   Tenant: ${log.tenantId}`);
+      console.log(`   ID: ${log.id}`);
+    });
+  }
+
+  private showAuditEvents(args: string[]): void {
+    console.log('\n📜 Audit Trail');
+    console.log('==============');
+
+    const params = filterParams(args);
+    const actions = params.action ? params.action.split(',') : undefined;
+    const unknown = (actions || []).filter(action => !AUDIT_ACTIONS.includes(action as AuditAction));
+
+    if (unknown.length > 0 || params.q) {
+      console.log('❌ Usage: audit [action=<action,...>] [actor=<actor>] [target=<id>] [tenant=<id>] [limit=<n>]');
+      console.log(`   Actions: ${AUDIT_ACTIONS.join(', ')}`);
+      console.log('\n');
+      return;
+    }
+
+    try {
+      const events = this.auditService.list({
+        action: actions as AuditAction[] | undefined,
+        actor: params.actor,
+        target: params.target,
+        limit: params.limit ? parseInt(params.limit) : 20
+      }, params.tenant);
+
+      if (events.length === 0) {
+        console.log('No audit events found.');
+      }
+
+      events.forEach(event => {
+        console.log(`\n${new Date(event.timestamp).toLocaleString()}  ${event.action}${event.target ? ` ${event.target}` : ''}`);
+        console.log(`   Actor: ${event.actor}${event.ipAddress ? ` (${event.ipAddress})` : ''}${event.tenantId ? `, tenant ${event.tenantId}` : ''}`);
+        if (event.details) {
+          console.log(`   Details: ${JSON.stringify(event.details)}`);
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error retrieving audit events:', error);
+    }
+    console.log('\n');
+  }
+
+  private manageWebhooks(args: string[]): void {
+    const [action, ...rest] = args;
+    const usage = 'Usage: webhooks [list] | webhooks create <tenant> <url> [event,...] | webhooks enable|disable <id> | ' +
+      'webhooks delete <id> | webhooks deliveries <id> [status] | webhooks redeliver <delivery-id>';
+
+    try {
+      if (!action || action === 'list') {
+        this.listWebhooks();
+      } else if (action === 'create' && rest[0] && rest[1]) {
+        const events = rest[2] ? rest[2].split(',') as WebhookEvent[] : undefined;
+        const { subscription, secret } = this.webhookService.create(rest[0], { url: rest[1], events });
+        this.auditService.record(
+          { ...cliActor(), tenantId: subscription.tenantId },
+          'webhook.create',
+          subscription.id,
+          { url: subscription.url, events: subscription.events }
+        );
+
+        console.log('\n✅ Webhook subscription created');
+        console.log(`   ID: ${subscription.id}`);
+        console.log(`   Events: ${subscription.events.join(', ')}`);
+        console.log(`\n   Secret: ${secret}`);
+        console.log('   ⚠️  Store this secret now. It cannot be shown again.');
+      } else if ((action === 'enable' || action === 'disable') && rest[0]) {
+        const subscription = this.webhookService.update(rest[0], { active: action === 'enable' });
+        if (subscription) {
+          this.auditService.record(
+            { ...cliActor(), tenantId: subscription.tenantId },
+            'webhook.update',
+            subscription.id,
+            { changes: { active: subscription.active } }
+          );
+        }
+        console.log(subscription ? `✅ Webhook ${subscription.id} ${action}d` : `❌ No webhook subscription "${rest[0]}"`);
+      } else if (action === 'delete' && rest[0]) {
+        const subscription = this.webhookService.get(rest[0]);
+        const deleted = this.webhookService.delete(rest[0]);
+        if (deleted) {
+          this.auditService.record({ ...cliActor(), tenantId: subscription?.tenantId }, 'webhook.delete', rest[0]);
+        }
+        console.log(deleted ? `✅ Deleted webhook ${rest[0]}` : `❌ No webhook subscription "${rest[0]}"`);
+      } else if (action === 'deliveries' && rest[0]) {
+        this.listWebhookDeliveries(rest[0], rest[1] as WebhookDeliveryStatus | undefined);
+      } else if (action === 'redeliver' && rest[0]) {
+        const delivery = this.webhookService.redeliver(rest[0]);
+        console.log(delivery ? `✅ Redelivery queued as ${delivery.id}` : `❌ No webhook delivery "${rest[0]}"`);
+      } else {
+        console.log(`❌ ${usage}`);
+        console.log(`   Events: ${WEBHOOK_EVENTS.join(', ')}`);
+      }
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        console.log(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Error managing webhooks:', error);
+      }
+    }
+    console.log('\n');
+  }
+
+  private listWebhooks(): void {
+    console.log('\n🪝 Webhook Subscriptions');
+    console.log('=======================');
+
+    const subscriptions = this.webhookService.list();
+
+    if (subscriptions.length === 0) {
+      console.log('No webhook subscriptions found. Create one with: webhooks create <tenant> <url> [event,...]');
+      return;
+    }
+
+    subscriptions.forEach((subscription, index) => {
+      console.log(`\n${index + 1}. ${subscription.url}${subscription.active ? '' : ' (disabled)'}`);
+      if (subscription.description) {
+        console.log(`   ${subscription.description}`);
+      }
+      console.log(`   Tenant: ${subscription.tenantId}`);
+      console.log(`   Events: ${subscription.events.join(', ')}`);
+      console.log(`   ID: ${subscription.id}`);
+    });
+  }
+
+  private listWebhookDeliveries(id: string, status?: WebhookDeliveryStatus): void {
+    if (!this.webhookService.get(id)) {
+      console.log(`❌ No webhook subscription "${id}"`);
+      return;
+    }
+
+    const deliveries = this.webhookService.deliveries(id, status, 20);
+    if (deliveries.length === 0) {
+      console.log('No deliveries found');
+      return;
+    }
+
+    deliveries.forEach(delivery => {
+      const icon = delivery.status === 'succeeded' ? '✅' : delivery.status === 'failed' ? '❌' : '⏳';
+      console.log(`\n${icon} ${delivery.event} - ${delivery.status} (${new Date(delivery.createdAt).toLocaleString()})`);
+      console.log(`   ID: ${delivery.id}${delivery.redeliveryOf ? ` (redelivery of ${delivery.redeliveryOf})` : ''}`);
+      delivery.attempts.forEach(attempt => {
+        const result = attempt.error ? attempt.error : `${attempt.statusCode}`;
+        console.log(`   #${attempt.attempt} ${new Date(attempt.attemptedAt).toLocaleString()}: ${result} (${attempt.durationMs}ms)`);
+      });
+      if (delivery.status === 'pending' && delivery.nextAttemptAt) {
+        console.log(`   Next attempt: ${new Date(delivery.nextAttemptAt).toLocaleString()}`);
+      }
+    });
+  }
+
+  private async exportLogs(args: string[]): Promise<void> {
+    const [file, ...filters] = args;
+    const format = archiveFormatOf(file);
+
+    if (!format) {
+      console.log('❌ Usage: export <file.jsonl|file.csv> [name=value ...] [search words]');
+      console.log('\n');
+      return;
+    }
+
+    try {
+      const { query, error } = parseLogQuery(filterParams(filters));
+
+      if (!query) {
+        console.log(`❌ ${error}`);
+        console.log('\n');
+        return;
+      }
+
+      const output = fs.createWriteStream(file);
+      let lines = 0;
+
+      for (const chunk of this.logArchiveService.export(query, format)) {
+        lines += chunk.split('\n').length - 1;
+        if (!output.write(chunk)) {
+          await once(output, 'drain');
+        }
+      }
+      output.end();
+      await once(output, 'finish');
+
+      console.log(`✅ Exported ${format === 'csv' ? lines - 1 : lines} interaction logs to ${file}`);
+      console.log('\n');
+    } catch (error) {
+      console.error('❌ Error exporting logs:', error);
+      console.log('\n');
+    }
+  }
+
+  private async runBatch(args: string[]): Promise<void> {
+    const [file, ...options] = args;
+    const format = batchFormatOf(file);
+    const params = filterParams(options);
+    const concurrency = params.concurrency === undefined ? undefined : parseInt(params.concurrency);
+
+    if (!format || params.q || (concurrency !== undefined && !(concurrency >= 1))) {
+      console.log('❌ Usage: batch <file.json|file.jsonl|file.csv> [out=<file>] [concurrency=n]');
+      console.log('\n');
+      return;
+    }
+
+    console.log('\n🔄 Processing batch...\n');
+    try {
+      let batch: TaskBatch;
+      if (format === 'json') {
+        const items = JSON.parse(fs.readFileSync(file, 'utf8'));
+        if (!Array.isArray(items) || items.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+          console.log('❌ A JSON batch file must hold an array of task requests');
+          console.log('\n');
+          return;
+        }
+        batch = await this.batchService.run(items, {}, { concurrency });
+      } else {
+        batch = await this.batchService.runFile(fs.createReadStream(file), format, {}, { concurrency });
+      }
+
+      const out = params.out || file.replace(/(\.[^.]+)$/, '.results$1');
+      fs.writeFileSync(out, Array.from(this.batchService.results(batch)).join(''));
+
+      console.log(`✅ Batch ${batch.id}: ${batch.succeeded} of ${batch.total} items succeeded`);
+      (batch.items || [])
+        .filter(item => item.status !== 'success')
+        .forEach(item => console.log(`   ⚠️  Item ${item.index + 1} ${item.status}${item.error ? `: ${item.error}` : ''}`));
+      console.log(`📄 Results written to ${out}`);
+    } catch (error) {
+      if (error instanceof BatchError || error instanceof SyntaxError) {
+        console.log(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Error processing batch:', error);
+      }
+    }
+    console.log('\n');
+  }
+
+  private async importLogs(args: string[]): Promise<void> {
+    const [file, ...options] = args;
+    const format = archiveFormatOf(file);
+    const tenantOption = options.find(option => option.startsWith('tenant='));
+
+    if (!format || options.some(option => option !== tenantOption)) {
+      console.log('❌ Usage: import <file.jsonl|file.csv> [tenant=<id>]');
+      console.log('\n');
+      return;
+    }
+
+    try {
+      const tenantId = tenantOption?.slice('tenant='.length) || undefined;
+      const result = await this.logArchiveService.import(fs.createReadStream(file), format, { tenantId });
+
+      console.log(`✅ Imported ${result.imported} interaction logs`);
+      console.log(`   Skipped (already present): ${result.skipped}`);
+      console.log(`   Failed: ${result.failed}`);
+      result.errors.forEach(error => console.log(`   ⚠️  ${error}`));
+      console.log('\n');
+    } catch (error) {
+      console.error('❌ Error importing logs:', error);
+      console.log('\n');
+    }
+  }
+
   private async clearAllLogs(): Promise<void> {
     console.log('\n🗑️  Clear All Interaction Logs');
     console.log('==============================');
 
     try {
-      const deletedCount = this.dbService.deleteAllInteractionLogs();
+      const deletedCounts = this.dbService.deleteAllInteractionLogsByTenant();
+      let deletedCount = 0;
+
+      // Each tenant's subscribers and audit trail hear only about that tenant's logs
+      for (const [tenantId, count] of Object.entries(deletedCounts)) {
+        this.webhookService.emit('logs.cleared', { deletedCount: count }, tenantId);
+        this.auditService.record({ ...cliActor(), tenantId }, 'logs.clear', undefined, { count });
+        deletedCount += count;
+      }
 
       if (deletedCount > 0) {
-        console.log(`✅ Successfully deleted ${deletedCount} interaction logs`);
+        console.log(`✅ Moved ${deletedCount} interaction logs to the trash (restore them with: trash restore)`);
       } else {
         console.log('ℹ️  No logs found to delete');
       }
@@ -251,10 +1250,102 @@ class AICLInterface {
   }
 }
 
+// Words of the form name=value are log filters; everything else is full-text search
+function filterParams(args: string[]): Record<string, string> {
+  const params: Record<string, string> = {};
+  const words: string[] = [];
+
+  for (const arg of args) {
+    const separator = arg.indexOf('=');
+    if (separator > 0) {
+      params[arg.slice(0, separator)] = arg.slice(separator + 1);
+    } else {
+      words.push(arg);
+    }
+  }
+  if (words.length > 0) {
+    params.q = words.join(' ');
+  }
+  return params;
+}
+
+function readTemplateFile(file: string): PromptTemplateInput {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as PromptTemplateInput;
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => `     ${line}`).join('\n');
+}
+
+function archiveFormatOf(file: string | undefined): ArchiveFormat | undefined {
+  const extension = file ? path.extname(file).slice(1).toLowerCase() : '';
+  return ARCHIVE_FORMATS.find(format => format === extension);
+}
+
+function batchFormatOf(file: string | undefined): BatchFormat | undefined {
+  const extension = file ? path.extname(file).slice(1).toLowerCase() : '';
+  return BATCH_FORMATS.find(format => format === extension);
+}
+
+// Shared by the interactive `migrate` command and `cli migrate ...` from the shell
+function runMigrateCommand(dbService: DatabaseService, args: string[]): boolean {
+  const [action = 'status', value] = args;
+  const migrator = dbService.migrator;
+
+  try {
+    if (action === 'status') {
+      console.log('\n🗄️  Database Migrations');
+      console.log('======================');
+      migrator.status().forEach(migration => {
+        const icon = migration.state === 'applied' ? '✅' : migration.state === 'pending' ? '⏳' : '❓';
+        const applied = migration.appliedAt ? ` (applied ${new Date(migration.appliedAt).toLocaleString()})` : '';
+        console.log(`${icon} ${String(migration.version).padStart(3, '0')} ${migration.name} - ${migration.state}${applied}`);
+      });
+      console.log(`\nCurrent version: ${migrator.currentVersion()}`);
+    } else if (action === 'up') {
+      const target = value === undefined ? undefined : parseInt(value);
+      if (target !== undefined && Number.isNaN(target)) {
+        console.log('❌ Usage: migrate up [version]');
+        return false;
+      }
+
+      const applied = migrator.up(target);
+      applied.forEach(migration => console.log(`⬆️  Applied ${migration.version} ${migration.name}`));
+      console.log(applied.length > 0 ? `✅ Schema now at version ${migrator.currentVersion()}` : 'ℹ️  No pending migrations');
+    } else if (action === 'down') {
+      const steps = value === undefined ? 1 : parseInt(value);
+      if (Number.isNaN(steps) || steps < 1) {
+        console.log('❌ Usage: migrate down [steps]');
+        return false;
+      }
+
+      const rolledBack = migrator.down(steps);
+      rolledBack.forEach(migration => console.log(`⬇️  Rolled back ${migration.version} ${migration.name}`));
+      console.log(rolledBack.length > 0 ? `✅ Schema now at version ${migrator.currentVersion()}` : 'ℹ️  No migrations to roll back');
+    } else {
+      console.log(`❌ Unknown migrate command "${action}"`);
+      console.log('Usage: migrate [status] | migrate up [version] | migrate down [steps]');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('❌ Migration failed, no changes were made:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
 // Start the CLI if this file is run directly
 if (require.main === module) {
-  const cli = new AICLInterface();
-  cli.start().catch(console.error);
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'migrate') {
+    // Open without auto-migrating so status shows what is really pending
+    const ok = runMigrateCommand(DatabaseService.getInstance(undefined, { autoMigrate: false }), args);
+    process.exit(ok ? 0 : 1);
+  } else {
+    const cli = new AICLInterface();
+    cli.start().catch(console.error);
+  }
 }
 
 export default AICLInterface;
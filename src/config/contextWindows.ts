@@ -0,0 +1,26 @@
+import { config } from './index';
+
+// Tokens a model accepts, prompt and answer together. Keyed by model name prefix like MODEL_PRICES, so
+// dated snapshots resolve to their family.
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4o-mini': 128000,
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4.1-mini': 1047576,
+  'gpt-4.1': 1047576,
+  'gpt-4': 8192,
+  'claude-3-5-haiku': 200000,
+  'claude-3-5-sonnet': 200000,
+  'claude-3-haiku': 200000,
+  'claude-3-opus': 200000
+};
+
+// The window of the longest listed prefix of the model name. Unlisted models (local servers, the
+// simulator) get LLM_CONTEXT_WINDOW.
+export const getContextWindow = (model: string): number => {
+  const family = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_CONTEXT_WINDOWS[family] : config.llm.contextWindow;
+};
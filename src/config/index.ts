@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { CustomPiiPattern, LogLevel, PiiRule, ProviderName, UsageLimits } from '../types';
+
+// Load environment variables before anything reads them
+dotenv.config();
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : fallback;
+};
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'openai-compatible', 'anthropic', 'simulator'];
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+
+// Least to most severe
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && (LOG_LEVELS as string[]).includes(value);
+
+// The OTLP/HTTP traces URL: the signal-specific variable is used as is, the general one gets /v1/traces appended
+const otlpTracesEndpoint = (): string | undefined => {
+  if (process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) return process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+  const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  return base ? `${base.replace(/\/+$/, '')}/v1/traces` : undefined;
+};
+
+const listFromEnv = (name: string, fallback: string[]): string[] => {
+  const value = process.env[name];
+  return value === undefined ? fallback : value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+};
+
+// PII_CUSTOM_PATTERNS is a JSON array; a value that does not parse fails startup rather than storing unmasked data
+const customPiiPatterns = (): CustomPiiPattern[] => {
+  const value = process.env.PII_CUSTOM_PATTERNS;
+  if (!value) return [];
+
+  const patterns = JSON.parse(value);
+  if (!Array.isArray(patterns)) {
+    throw new Error('PII_CUSTOM_PATTERNS must be a JSON array of { "name", "pattern", "flags" } objects');
+  }
+  return patterns;
+};
+
+export interface ProviderSettings {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+}
+
+export const config = {
+  llm: {
+    // Without an explicit provider, use OpenAI when a key is present and the simulator otherwise
+    defaultProvider: isProviderName(process.env.LLM_PROVIDER)
+      ? process.env.LLM_PROVIDER
+      : (process.env.OPENAI_API_KEY ? 'openai' : 'simulator') as ProviderName,
+    // Overrides the default provider's model when set
+    defaultModel: process.env.LLM_MODEL || undefined,
+    maxTokens: numberFromEnv('LLM_MAX_TOKENS', 500),
+    // Context window of models not listed in src/config/contextWindows.ts, such as local models
+    contextWindow: Math.max(1, Math.floor(numberFromEnv('LLM_CONTEXT_WINDOW', 8192))),
+    temperature: numberFromEnv('LLM_TEMPERATURE', 0.7),
+    providers: {
+      openai: {
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'gpt-3.5-turbo'
+      },
+      'openai-compatible': {
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        model: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3'
+      },
+      anthropic: {
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        model: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest'
+      },
+      simulator: {
+        model: 'simulator'
+      }
+    } as Record<ProviderName, ProviderSettings>
+  },
+  resilience: {
+    // Each provider call is abandoned after this long; for streams, after this long without output
+    timeoutMs: Math.max(1, numberFromEnv('LLM_TIMEOUT_MS', 30000)),
+    // Extra attempts for rate limits, server errors, timeouts and network failures
+    maxRetries: Math.max(0, Math.floor(numberFromEnv('LLM_MAX_RETRIES', 2))),
+    // Exponential backoff with full jitter; a Retry-After longer than the maximum is not waited for
+    retryBaseDelayMs: numberFromEnv('LLM_RETRY_BASE_DELAY_MS', 500),
+    retryMaxDelayMs: numberFromEnv('LLM_RETRY_MAX_DELAY_MS', 10000),
+    // Consecutive failed attempts after which a model is skipped until the circuit resets
+    circuitFailureThreshold: Math.max(1, Math.floor(numberFromEnv('CIRCUIT_FAILURE_THRESHOLD', 5))),
+    circuitResetMs: numberFromEnv('CIRCUIT_RESET_MS', 30000),
+    // Used when the requested model fails; a model alone means the same provider. Unset disables fallback.
+    fallbackProvider: isProviderName(process.env.LLM_FALLBACK_PROVIDER) ? process.env.LLM_FALLBACK_PROVIDER : undefined,
+    fallbackModel: process.env.LLM_FALLBACK_MODEL || undefined
+  },
+  cache: {
+    // Identical tasks within this window are answered from the cache; 0 disables caching
+    ttlMs: Math.max(0, numberFromEnv('CACHE_TTL_MS', 5 * 60 * 1000)),
+    // Least recently used answers are evicted beyond this many entries
+    maxEntries: Math.max(0, Math.floor(numberFromEnv('CACHE_MAX_ENTRIES', 500)))
+  },
+  tools: {
+    // Model round trips allowed in one task before the tool-call loop gives up
+    maxIterations: Math.max(1, Math.floor(numberFromEnv('TOOL_MAX_ITERATIONS', 5)))
+  },
+  output: {
+    // Extra attempts, with the validation errors fed back, when structured output does not match its schema
+    maxRetries: Math.max(0, Math.floor(numberFromEnv('OUTPUT_MAX_RETRIES', 2)))
+  },
+  conversation: {
+    // Approximate token budget for replayed history; older turns beyond it are dropped
+    historyTokenBudget: numberFromEnv('CONVERSATION_HISTORY_TOKENS', 2000)
+  },
+  attachments: {
+    // Larger uploads are rejected
+    maxBytes: Math.max(1, Math.floor(numberFromEnv('ATTACHMENT_MAX_BYTES', 1024 * 1024))),
+    // Approximate size of the chunks a document is split into when it is uploaded
+    chunkTokens: Math.max(50, Math.floor(numberFromEnv('ATTACHMENT_CHUNK_TOKENS', 500))),
+    // Approximate token budget for attachment text in one task, lowered to what the model's context window
+    // has room for besides the prompt and the answer; the chunks that match the task best are kept
+    contextTokens: Math.max(0, Math.floor(numberFromEnv('ATTACHMENT_CONTEXT_TOKENS', 3000)))
+  },
+  database: {
+    // Set to false to apply migrations only through the CLI (`migrate up`)
+    autoMigrate: process.env.DB_AUTO_MIGRATE !== 'false'
+  },
+  auth: {
+    // When disabled every request acts as an admin of the default tenant (local development only)
+    enabled: process.env.AUTH_ENABLED !== 'false'
+  },
+  // Defaults for every API key (or client IP when auth is disabled); 0 disables a limit
+  limits: {
+    requestsPerMinute: numberFromEnv('RATE_LIMIT_PER_MINUTE', 60),
+    dailyTokens: numberFromEnv('QUOTA_DAILY_TOKENS', 0),
+    monthlyTokens: numberFromEnv('QUOTA_MONTHLY_TOKENS', 0),
+    dailyCost: numberFromEnv('QUOTA_DAILY_COST_USD', 0),
+    monthlyCost: numberFromEnv('QUOTA_MONTHLY_COST_USD', 0)
+  } as UsageLimits,
+  queue: {
+    // Maximum number of async jobs processed at the same time
+    concurrency: Math.max(1, Math.floor(numberFromEnv('QUEUE_CONCURRENCY', 2))),
+    pollIntervalMs: numberFromEnv('QUEUE_POLL_INTERVAL_MS', 1000),
+    // A running job is renewed well within this; one whose worker stopped renewing it is run again after it
+    leaseMs: Math.max(1000, numberFromEnv('QUEUE_LEASE_MS', 60000))
+  },
+  batch: {
+    // Items of one batch processed at the same time; a batch may ask for fewer
+    concurrency: Math.max(1, Math.floor(numberFromEnv('BATCH_CONCURRENCY', 4))),
+    // Larger batches are rejected; queue the tasks as async jobs instead
+    maxItems: Math.max(1, Math.floor(numberFromEnv('BATCH_MAX_ITEMS', 100)))
+  },
+  privacy: {
+    // Built-in rules masking PII before anything is stored: email, phone, card, apiKey; "none" disables them
+    rules: listFromEnv('PII_REDACT', ['email', 'phone', 'card', 'apiKey'])
+      .filter(rule => rule !== 'none') as PiiRule[],
+    // Extra rules, e.g. [{"name": "employeeId", "pattern": "EMP-\\d{6}"}]
+    customPatterns: customPiiPatterns(),
+    // Also mask the task, context and variables before they are sent to the provider
+    redactProviderInput: process.env.PII_REDACT_PROVIDER_INPUT === 'true',
+    // Key of the hash that stands for an erased or acting subject in the audit trail. Without one, a random
+    // key is used per process and the hashes cannot be recomputed to look a subject up.
+    subjectSalt: process.env.PRIVACY_SUBJECT_SALT || crypto.randomBytes(32).toString('hex')
+  },
+  retention: {
+    // Interaction logs, finished jobs, conversations, batches, attachments and webhook deliveries older than this are deleted; 0 keeps them
+    deleteAfterDays: Math.max(0, numberFromEnv('RETENTION_DELETE_AFTER_DAYS', 0)),
+    // IP addresses older than this are truncated to their network (IPv4 /24, IPv6 /48); 0 keeps them whole
+    anonymizeIpAfterDays: Math.max(0, numberFromEnv('RETENTION_ANONYMIZE_IP_AFTER_DAYS', 0)),
+    // Deleted logs stay in the trash, restorable, for this long before they are purged; 0 keeps them until purged by hand
+    trashDays: Math.max(0, numberFromEnv('TRASH_RETENTION_DAYS', 30)),
+    // How often the sweeper applies the rules
+    sweepIntervalMs: Math.max(1000, numberFromEnv('RETENTION_SWEEP_INTERVAL_MS', 60 * 60 * 1000))
+  },
+  logging: {
+    // Lines below this level are not written
+    level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info' as LogLevel
+  },
+  tracing: {
+    // Spans are exported to this OTLP/HTTP collector; unset keeps tracing to trace context propagation only
+    endpoint: otlpTracesEndpoint(),
+    serviceName: process.env.OTEL_SERVICE_NAME || 'ai-assistant-module',
+    // Finished spans are batched and sent this often, or sooner once a batch fills up
+    exportIntervalMs: Math.max(100, numberFromEnv('OTEL_EXPORT_INTERVAL_MS', 5000)),
+    maxBatchSize: Math.max(1, Math.floor(numberFromEnv('OTEL_MAX_EXPORT_BATCH_SIZE', 512))),
+    // Spans beyond this many waiting for export are dropped, e.g. while the collector is down
+    maxQueueSize: Math.max(1, Math.floor(numberFromEnv('OTEL_MAX_QUEUE_SIZE', 2048)))
+  },
+  metrics: {
+    // When set, /metrics requires it as a bearer token
+    token: process.env.METRICS_TOKEN || undefined
+  },
+  webhooks: {
+    // A delivery attempt that has not been answered after this long counts as failed
+    timeoutMs: Math.max(1, numberFromEnv('WEBHOOK_TIMEOUT_MS', 10000)),
+    // Attempts per delivery, the first included, before it is marked failed
+    maxAttempts: Math.max(1, Math.floor(numberFromEnv('WEBHOOK_MAX_ATTEMPTS', 6))),
+    // Wait before the first retry, doubling after each failed attempt up to the maximum
+    retryBaseDelayMs: numberFromEnv('WEBHOOK_RETRY_BASE_DELAY_MS', 5000),
+    retryMaxDelayMs: numberFromEnv('WEBHOOK_RETRY_MAX_DELAY_MS', 60 * 60 * 1000),
+    // Maximum number of deliveries in flight at once
+    concurrency: Math.max(1, Math.floor(numberFromEnv('WEBHOOK_CONCURRENCY', 4))),
+    pollIntervalMs: numberFromEnv('WEBHOOK_POLL_INTERVAL_MS', 1000)
+  }
+};
@@ -0,0 +1,41 @@
+import { TokenUsage } from '../types';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Keyed by model name prefix so dated snapshots (e.g. gpt-4o-mini-2024-07-18) resolve to their family.
+// Unlisted models (local servers, the simulator) are treated as free.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4': { input: 30, output: 60 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-opus': { input: 15, output: 75 }
+};
+
+// The longest listed prefix of the model name
+export const getModelFamily = (model: string): string | undefined =>
+  Object.keys(MODEL_PRICES)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+export const getModelPrice = (model: string): ModelPrice | undefined => {
+  const family = getModelFamily(model);
+  return family ? MODEL_PRICES[family] : undefined;
+};
+
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
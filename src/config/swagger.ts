@@ -1,59 +1,221 @@
-import swaggerJsdoc from 'swagger-jsdoc';
 import { Express } from 'express';
 import swaggerUi from 'swagger-ui-express';
+import { ApiRouter, ApiOperation } from '../routes/apiRouter';
+import { componentSchemas } from '../schemas';
+import { ApiError } from '../schemas/commonSchemas';
+import { JsonSchema, RouteResponse } from '../types';
 
-const options: swaggerJsdoc.Options = {
-  definition: {
-    openapi: '3.0.0',
-    info: {
-      title: 'AI Assistant Module API',
-      version: '1.0.0',
-      description: 'A minimal AI assistant module with task processing and interaction logging',
-      contact: {
-        name: 'Assessment Project',
-        email: 'assessment@example.com'
-      },
-      license: {
-        name: 'MIT',
-        url: 'https://opensource.org/licenses/MIT'
-      }
-    },
-    servers: [
-      {
-        url: `http://localhost:${process.env.PORT || 3000}`,
-        description: 'Development server'
-      },
-      {
-        url: 'https://your-vercel-app.vercel.app',
-        description: 'Production server'
-      }
-    ],
-    tags: [
-      {
-        name: 'Tasks',
-        description: 'Task processing and interaction logging'
-      },
-      {
-        name: 'Health',
-        description: 'Health check and monitoring'
-      }
-    ],
+const info = {
+  title: 'AI Assistant Module API',
+  version: '1.0.0',
+  description: 'A minimal AI assistant module with task processing and interaction logging',
+  contact: {
+    name: 'Assessment Project',
+    email: 'assessment@example.com'
+  },
+  license: {
+    name: 'MIT',
+    url: 'https://opensource.org/licenses/MIT'
+  }
+};
+
+const servers = [
+  {
+    url: `http://localhost:${process.env.PORT || 3000}`,
+    description: 'Development server'
+  },
+  {
+    url: 'https://your-vercel-app.vercel.app',
+    description: 'Production server'
+  }
+];
+
+const tags = [
+  {
+    name: 'Tasks',
+    description: 'Task processing and interaction logging'
+  },
+  {
+    name: 'Jobs',
+    description: 'Async task queue and job status polling'
+  },
+  {
+    name: 'Batches',
+    description: 'Many tasks submitted together, with per-item results'
+  },
+  {
+    name: 'Conversations',
+    description: 'Multi-turn conversations with persisted message history'
+  },
+  {
+    name: 'Attachments',
+    description: 'Uploaded documents used as task context, stored as chunks of extracted text'
+  },
+  {
+    name: 'Templates',
+    description: 'Versioned prompt templates used to build system and user prompts'
+  },
+  {
+    name: 'Webhooks',
+    description: 'Signed event deliveries to other services, with a delivery log'
+  },
+  {
+    name: 'Usage',
+    description: 'Token and cost usage against rate limits and quotas'
+  },
+  {
+    name: 'Privacy',
+    description: 'PII redaction, data retention and per-subject erasure'
+  },
+  {
+    name: 'Audit',
+    description: 'Append-only record of deletes, restores, purges and configuration changes'
+  },
+  {
+    name: 'Health',
+    description: 'Health check and monitoring'
+  }
+];
+
+// Responses every route can give without listing them in its spec
+const STANDARD_RESPONSES: Record<number, string> = {
+  400: 'Invalid request; details lists every problem',
+  401: 'Missing or invalid API key',
+  403: 'The API key does not have the required role',
+  429: 'Rate limit exceeded; see the Retry-After header',
+  500: 'Internal server error'
+};
+
+// Builds the OpenAPI document from the routers' route specs, so the docs cannot drift from what is validated
+export const buildOpenApiDocument = (routers: ApiRouter[]): Record<string, any> => {
+  const references = new Map<JsonSchema, string>(
+    Object.entries(componentSchemas).map(([name, schema]) => [schema, `#/components/schemas/${name}`])
+  );
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const api of routers) {
+    for (const operation of api.operations) {
+      // Express :params become OpenAPI {params}
+      const path = (api.basePath + operation.path.replace(/\/$/, '')).replace(/:(\w+)/g, '{$1}');
+      paths[path] = { ...paths[path], [operation.method]: toOperation(api, operation, references) };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    servers,
+    tags,
+    paths,
     components: {
+      schemas: Object.fromEntries(
+        Object.entries(componentSchemas).map(([name, schema]) => [name, withReferences(schema, references, schema)])
+      ),
       securitySchemes: {
         bearerAuth: {
           type: 'http',
           scheme: 'bearer',
-          bearerFormat: 'JWT'
+          bearerFormat: 'API key'
         }
       }
-    }
-  },
-  apis: ['./src/routes/*.ts'], // Path to the API files
+    },
+    security: [
+      { bearerAuth: [] }
+    ]
+  };
+};
+
+const toOperation = (api: ApiRouter, { spec }: ApiOperation, references: Map<JsonSchema, string>): Record<string, any> => {
+  const standard = [
+    // Path parameters are plain strings, so only queries and bodies can fail validation
+    ...(spec.query || spec.body ? [400] : []),
+    ...(api.options.secured ? [401, 429] : []),
+    ...(spec.role ? [403] : []),
+    500
+  ];
+  const responses: Record<number, RouteResponse> = {
+    ...Object.fromEntries(standard.map(status => [status, { description: STANDARD_RESPONSES[status], schema: ApiError }])),
+    ...spec.responses
+  };
+
+  const description = [spec.description, spec.role && `Requires an API key with the ${spec.role} role.`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    summary: spec.summary,
+    ...(description && { description }),
+    tags: spec.tags || [api.options.tag],
+    ...(!api.options.secured && { security: [] }),
+    parameters: [
+      ...toParameters('path', spec.params, references),
+      ...toParameters('query', spec.query, references)
+    ],
+    ...(spec.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: withReferences(spec.body, references) } }
+      }
+    }),
+    ...(spec.rawBody && {
+      requestBody: {
+        required: true,
+        ...(spec.rawBody.description && { description: spec.rawBody.description }),
+        content: Object.fromEntries(spec.rawBody.contentTypes.map(type => [type, { schema: { type: 'string' } }]))
+      }
+    }),
+    responses: Object.fromEntries(
+      Object.entries(responses).map(([status, response]) => [status, toResponse(Number(status), response, references)])
+    )
+  };
+};
+
+// Path and query schemas are objects whose properties become individual parameters; pattern
+// properties such as metadata.<key> filters are only described in the operation
+const toParameters = (location: 'path' | 'query', schema: JsonSchema | undefined, references: Map<JsonSchema, string>) =>
+  Object.entries<JsonSchema>(schema?.properties || {}).map(([name, property]) => {
+    const { description, deprecated, ...rest } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || (schema?.required || []).includes(name),
+      ...(description && { description }),
+      ...(deprecated && { deprecated }),
+      schema: withReferences(rest, references)
+    };
+  });
+
+// Error responses without a schema of their own use the ApiError payload
+const toResponse = (status: number, response: RouteResponse, references: Map<JsonSchema, string>) => {
+  const schema = response.schema || (status >= 400 ? ApiError : undefined);
+
+  return {
+    description: response.description,
+    ...(schema && {
+      content: Object.fromEntries(
+        (response.contentTypes || ['application/json']).map(type => [type, { schema: withReferences(schema, references) }])
+      )
+    })
+  };
+};
+
+// Replaces every component schema nested in a schema with a $ref to it
+const withReferences = (schema: any, references: Map<JsonSchema, string>, root?: JsonSchema): any => {
+  if (schema !== root && references.has(schema)) {
+    return { $ref: references.get(schema) };
+  }
+  if (Array.isArray(schema)) {
+    return schema.map(item => withReferences(item, references));
+  }
+  if (typeof schema === 'object' && schema !== null) {
+    return Object.fromEntries(Object.entries(schema).map(([key, value]) => [key, withReferences(value, references)]));
+  }
+  return schema;
 };
 
-const specs = swaggerJsdoc(options);
+export const setupSwagger = (app: Express, routers: ApiRouter[]): void => {
+  const specs = buildOpenApiDocument(routers);
 
-export const setupSwagger = (app: Express): void => {
   // Swagger UI
   app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs, {
     explorer: true,
@@ -0,0 +1,89 @@
+import { DatabaseService, decodeLogCursor, encodeLogCursor } from '../schema';
+import { parseLogQuery } from '../../services/logQuery';
+import { InteractionLog, LogQuery } from '../../types';
+
+const log = (id: string, timestamp: string, changes: Partial<InteractionLog> = {}): InteractionLog => ({
+  id,
+  task: `task ${id}`,
+  response: 'done',
+  status: 'success',
+  timestamp,
+  processingTime: 100,
+  ...changes
+});
+
+// Follows nextCursor until the last page and returns the ids of every page
+const allPages = (db: DatabaseService, query: LogQuery): string[][] => {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = db.queryInteractionLogs({ ...query, cursor });
+    pages.push(page.logs.map(entry => entry.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return pages;
+};
+
+describe('log cursor pagination', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService(':memory:', { autoMigrate: true });
+    // Logs c, d and e share a timestamp, so their order falls back to the id
+    [
+      log('a', '2024-06-01T10:00:00.000Z', { processingTime: 50 }),
+      log('b', '2024-06-01T11:00:00.000Z', { processingTime: 300, status: 'error' }),
+      log('c', '2024-06-01T12:00:00.000Z', { processingTime: 300 }),
+      log('d', '2024-06-01T12:00:00.000Z', { processingTime: 300, status: 'error' }),
+      log('e', '2024-06-01T12:00:00.000Z', { processingTime: 10 })
+    ].forEach(entry => db.saveInteractionLog(entry));
+  });
+
+  it('walks every log exactly once, newest first', () => {
+    expect(allPages(db, { limit: 2 })).toEqual([['e', 'd'], ['c', 'b'], ['a']]);
+  });
+
+  it('pages by another sort field in ascending order, breaking ties by id', () => {
+    expect(allPages(db, { limit: 2, sort: 'processingTime', order: 'asc' })).toEqual([['e', 'a'], ['b', 'c'], ['d']]);
+  });
+
+  it('keeps filters across pages', () => {
+    expect(allPages(db, { limit: 1, status: ['error'] })).toEqual([['d'], ['b']]);
+  });
+
+  it('is not shifted by logs stored after the first page was read', () => {
+    const first = db.queryInteractionLogs({ limit: 2 });
+    db.saveInteractionLog(log('f', '2024-06-01T13:00:00.000Z'));
+
+    const second = db.queryInteractionLogs({ limit: 2, cursor: first.nextCursor });
+    expect(second.logs.map(entry => entry.id)).toEqual(['c', 'b']);
+  });
+
+  it('gives no cursor on the last page', () => {
+    const page = db.queryInteractionLogs({ limit: 5 });
+
+    expect(page.logs).toHaveLength(5);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('skips trashed logs', () => {
+    db.deleteInteractionLog('d');
+
+    expect(allPages(db, { limit: 2 })).toEqual([['e', 'c'], ['b', 'a']]);
+  });
+});
+
+describe('log cursors', () => {
+  it('round-trip the sort value and id', () => {
+    expect(decodeLogCursor(encodeLogCursor('2024-06-01T12:00:00.000Z', 'c'))).toEqual({ value: '2024-06-01T12:00:00.000Z', id: 'c' });
+    expect(decodeLogCursor(encodeLogCursor(300, 'd'))).toEqual({ value: 300, id: 'd' });
+  });
+
+  it('are rejected when they were not issued by the service', () => {
+    expect(decodeLogCursor('not a cursor')).toBeNull();
+    expect(decodeLogCursor(Buffer.from(JSON.stringify({ value: 1 })).toString('base64url'))).toBeNull();
+    expect(parseLogQuery({ cursor: 'bogus' })).toEqual({ error: 'Invalid cursor' });
+  });
+});
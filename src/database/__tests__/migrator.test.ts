@@ -0,0 +1,149 @@
+import Database from 'better-sqlite3';
+import { Migrator, MigrationError } from '../migrator';
+import { Migration, migrations } from '../migrations';
+
+const latestVersion = migrations[migrations.length - 1].version;
+
+// The schema the service created before versioned migrations existed
+const createBaselineSchema = (db: Database.Database): void => {
+  db.exec(`
+    CREATE TABLE interaction_logs (
+      id TEXT PRIMARY KEY,
+      task TEXT NOT NULL,
+      response TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+      timestamp TEXT NOT NULL,
+      processing_time INTEGER NOT NULL,
+      user_agent TEXT,
+      ip_address TEXT,
+      metadata TEXT
+    );
+    CREATE INDEX idx_timestamp ON interaction_logs(timestamp);
+    CREATE INDEX idx_status ON interaction_logs(status);
+  `);
+};
+
+// Every table, index and trigger, with whitespace normalised since rewritten tables keep their indentation
+const schemaOf = (db: Database.Database): string[] =>
+  (db.prepare(`SELECT type, name, sql FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name`).all() as any[])
+    .map(row => `${row.type} ${row.name}: ${String(row.sql).replace(/\s+/g, ' ')}`);
+
+const openDatabase = (): Database.Database => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  return db;
+};
+
+describe('Migrator', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = openDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('upgrades a baseline database and keeps its logs', () => {
+    createBaselineSchema(db);
+    db.prepare(`
+      INSERT INTO interaction_logs (id, task, response, status, timestamp, processing_time, metadata)
+      VALUES ('log-1', 'analyze leads', 'done', 'success', '2024-06-01T00:00:00.000Z', 12, '{"model":"gpt"}')
+    `).run();
+
+    const migrator = new Migrator(db);
+    expect(migrator.up()).toHaveLength(migrations.length);
+    expect(migrator.currentVersion()).toBe(latestVersion);
+
+    const log = db.prepare('SELECT * FROM interaction_logs WHERE id = ?').get('log-1') as any;
+    expect(log).toMatchObject({ task: 'analyze leads', response: 'done', tenant_id: 'default', version: 1 });
+
+    // Constraints rewritten by later migrations apply to the upgraded table
+    expect(() => db.prepare(`
+      INSERT INTO interaction_logs (id, task, response, status, timestamp, processing_time)
+      VALUES ('log-2', 'task', '', 'aborted', '2024-06-01T00:00:00.000Z', 1)
+    `).run()).not.toThrow();
+  });
+
+  it('builds the same schema on an empty database as on a baseline one', () => {
+    const baseline = openDatabase();
+    createBaselineSchema(baseline);
+    new Migrator(baseline).up();
+    new Migrator(db).up();
+
+    expect(schemaOf(db)).toEqual(schemaOf(baseline));
+    baseline.close();
+  });
+
+  it('does nothing when run again', () => {
+    new Migrator(db).up();
+    const schema = schemaOf(db);
+
+    const migrator = new Migrator(db);
+    expect(migrator.up()).toEqual([]);
+    expect(migrator.status().every(status => status.state === 'applied')).toBe(true);
+    expect(schemaOf(db)).toEqual(schema);
+  });
+
+  it('rolls every migration back and applies them again', () => {
+    const migrator = new Migrator(db);
+    migrator.up();
+    const schema = schemaOf(db);
+
+    expect(migrator.down(migrations.length)).toHaveLength(migrations.length);
+    expect(migrator.currentVersion()).toBe(0);
+    expect(schemaOf(db).filter(entry => !entry.includes('schema_migrations'))).toEqual([]);
+
+    migrator.up();
+    expect(schemaOf(db)).toEqual(schema);
+  });
+
+  it('applies migrations up to a target version', () => {
+    const migrator = new Migrator(db);
+
+    expect(migrator.up(3).map(migration => migration.version)).toEqual([1, 2, 3]);
+    expect(migrator.status().filter(status => status.state === 'pending')).toHaveLength(migrations.length - 3);
+  });
+
+  it('leaves the schema unchanged when a migration fails', () => {
+    const failing: Migration = {
+      version: 2,
+      name: 'failing',
+      up(database) {
+        database.exec('CREATE TABLE half_done (id TEXT)');
+        throw new Error('boom');
+      },
+      down() {}
+    };
+    const migrator = new Migrator(db, [migrations[0], failing]);
+
+    expect(() => migrator.up()).toThrow('boom');
+    expect(migrator.currentVersion()).toBe(0);
+    expect(schemaOf(db).filter(entry => !entry.includes('schema_migrations'))).toEqual([]);
+  });
+
+  it('rejects migrations listed out of order', () => {
+    expect(() => new Migrator(db, [migrations[1], migrations[0]])).toThrow(MigrationError);
+  });
+
+  it('reports applied versions this build does not know and refuses to roll them back', () => {
+    const migrator = new Migrator(db, migrations.slice(0, 1));
+    migrator.up();
+    db.prepare(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (999, 'from_the_future', ?)`)
+      .run(new Date().toISOString());
+
+    expect(migrator.status()).toContainEqual(expect.objectContaining({ version: 999, state: 'unknown' }));
+    expect(() => migrator.down()).toThrow(MigrationError);
+  });
+
+  it('keeps the audit trail append-only', () => {
+    new Migrator(db).up();
+    db.prepare(`
+      INSERT INTO audit_events (id, timestamp, actor, action) VALUES ('event-1', '2024-06-01T00:00:00.000Z', 'system', 'logs.purge')
+    `).run();
+
+    expect(() => db.prepare(`UPDATE audit_events SET actor = 'someone'`).run()).toThrow('append-only');
+    expect(() => db.prepare('DELETE FROM audit_events').run()).toThrow('append-only');
+  });
+});
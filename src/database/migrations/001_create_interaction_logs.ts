@@ -0,0 +1,31 @@
+import { Migration } from './migration';
+
+const migration: Migration = {
+  version: 1,
+  name: 'create_interaction_logs',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS interaction_logs (
+        id TEXT PRIMARY KEY,
+        task TEXT NOT NULL,
+        response TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+        timestamp TEXT NOT NULL,
+        processing_time INTEGER NOT NULL,
+        user_agent TEXT,
+        ip_address TEXT,
+        metadata TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_timestamp ON interaction_logs(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_status ON interaction_logs(status);
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS interaction_logs');
+  }
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+import { Migration, rewriteTable, setCheckValues } from './migration';
+
+// Streams cut short by the client are logged with an 'aborted' status
+const migration: Migration = {
+  version: 2,
+  name: 'allow_aborted_status',
+
+  up(db) {
+    rewriteTable(db, 'interaction_logs', sql => setCheckValues(sql, 'status', ['success', 'error', 'aborted']));
+  },
+
+  down(db) {
+    db.exec(`UPDATE interaction_logs SET status = 'error' WHERE status = 'aborted'`);
+    rewriteTable(db, 'interaction_logs', sql => setCheckValues(sql, 'status', ['success', 'error']));
+  }
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { Migration } from './migration';
+
+const migration: Migration = {
+  version: 3,
+  name: 'create_conversations',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        interaction_id TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations(updated_at);
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation ON conversation_messages(conversation_id, timestamp);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS conversation_messages;
+      DROP TABLE IF EXISTS conversations;
+    `);
+  }
+};
+
+export default migration;
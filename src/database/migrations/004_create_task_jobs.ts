@@ -0,0 +1,33 @@
+import { Migration } from './migration';
+
+const migration: Migration = {
+  version: 4,
+  name: 'create_task_jobs',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS task_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+        priority TEXT NOT NULL CHECK (priority IN ('low', 'medium', 'high')),
+        priority_rank INTEGER NOT NULL,
+        request TEXT NOT NULL,
+        result TEXT,
+        error TEXT,
+        user_agent TEXT,
+        ip_address TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_jobs_queue ON task_jobs(status, priority_rank DESC, created_at);
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS task_jobs');
+  }
+};
+
+export default migration;
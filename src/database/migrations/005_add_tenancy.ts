@@ -0,0 +1,48 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+const TENANT_TABLES = ['interaction_logs', 'conversations', 'task_jobs'];
+
+// API keys, and an owning tenant on every tenant-scoped table. Existing rows belong to 'default'.
+const migration: Migration = {
+  version: 5,
+  name: 'add_tenancy',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL CHECK (role IN ('admin', 'user')),
+        created_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT
+      );
+    `);
+
+    for (const table of TENANT_TABLES) {
+      addColumn(db, table, 'tenant_id', `TEXT NOT NULL DEFAULT 'default'`);
+    }
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_logs_tenant ON interaction_logs(tenant_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_conversations_tenant ON conversations(tenant_id, updated_at);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_logs_tenant;
+      DROP INDEX IF EXISTS idx_conversations_tenant;
+      DROP TABLE IF EXISTS api_keys;
+    `);
+
+    for (const table of TENANT_TABLES) {
+      dropColumn(db, table, 'tenant_id');
+    }
+  }
+};
+
+export default migration;
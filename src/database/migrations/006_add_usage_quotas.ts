@@ -0,0 +1,37 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// Usage ledger behind token and cost quotas, per-key limit overrides, and the subject billed for a job
+const migration: Migration = {
+  version: 6,
+  name: 'add_usage_quotas',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS usage_records (
+        id TEXT PRIMARY KEY,
+        subject TEXT NOT NULL,
+        tenant_id TEXT,
+        interaction_id TEXT,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        cost REAL NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_subject ON usage_records(subject, timestamp);
+    `);
+
+    addColumn(db, 'api_keys', 'limits', 'TEXT');
+    addColumn(db, 'task_jobs', 'subject', 'TEXT');
+  },
+
+  down(db) {
+    dropColumn(db, 'task_jobs', 'subject');
+    dropColumn(db, 'api_keys', 'limits');
+    db.exec('DROP TABLE IF EXISTS usage_records');
+  }
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// Columns with the metadata path their values were recorded under before they became columns
+const USAGE_COLUMNS: { column: string; definition: string; metadataPath: string }[] = [
+  { column: 'priority', definition: 'TEXT', metadataPath: '$.priority' },
+  { column: 'model', definition: 'TEXT', metadataPath: '$.model' },
+  { column: 'prompt_tokens', definition: 'INTEGER', metadataPath: '$.usage.promptTokens' },
+  { column: 'completion_tokens', definition: 'INTEGER', metadataPath: '$.usage.completionTokens' },
+  { column: 'total_tokens', definition: 'INTEGER', metadataPath: '$.usage.totalTokens' },
+  { column: 'cost', definition: 'REAL', metadataPath: '$.estimatedCost' }
+];
+
+const migration: Migration = {
+  version: 7,
+  name: 'add_interaction_usage',
+
+  up(db) {
+    for (const { column, definition, metadataPath } of USAGE_COLUMNS) {
+      if (addColumn(db, 'interaction_logs', column, definition)) {
+        db.prepare(`UPDATE interaction_logs SET ${column} = json_extract(metadata, ?) WHERE json_valid(metadata)`)
+          .run(metadataPath);
+      }
+    }
+  },
+
+  down(db) {
+    // The values are still in each row's metadata, so nothing is lost
+    for (const { column } of USAGE_COLUMNS) {
+      dropColumn(db, 'interaction_logs', column);
+    }
+  }
+};
+
+export default migration;
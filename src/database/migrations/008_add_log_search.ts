@@ -0,0 +1,51 @@
+import { Migration } from './migration';
+
+// Full-text index over task and response. It reads its content from interaction_logs by rowid
+// and is kept in sync by triggers, so callers only ever write to interaction_logs.
+const migration: Migration = {
+  version: 8,
+  name: 'add_log_search',
+
+  up(db) {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS interaction_logs_fts USING fts5(
+        task,
+        response,
+        content = 'interaction_logs',
+        content_rowid = 'rowid',
+        tokenize = 'porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS interaction_logs_fts_insert AFTER INSERT ON interaction_logs BEGIN
+        INSERT INTO interaction_logs_fts (rowid, task, response) VALUES (new.rowid, new.task, new.response);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS interaction_logs_fts_delete AFTER DELETE ON interaction_logs BEGIN
+        INSERT INTO interaction_logs_fts (interaction_logs_fts, rowid, task, response)
+        VALUES ('delete', old.rowid, old.task, old.response);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS interaction_logs_fts_update AFTER UPDATE OF task, response ON interaction_logs BEGIN
+        INSERT INTO interaction_logs_fts (interaction_logs_fts, rowid, task, response)
+        VALUES ('delete', old.rowid, old.task, old.response);
+        INSERT INTO interaction_logs_fts (rowid, task, response) VALUES (new.rowid, new.task, new.response);
+      END;
+
+      INSERT INTO interaction_logs_fts (interaction_logs_fts) VALUES ('rebuild');
+
+      CREATE INDEX IF NOT EXISTS idx_logs_processing_time ON interaction_logs(processing_time);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_logs_processing_time;
+      DROP TRIGGER IF EXISTS interaction_logs_fts_insert;
+      DROP TRIGGER IF EXISTS interaction_logs_fts_delete;
+      DROP TRIGGER IF EXISTS interaction_logs_fts_update;
+      DROP TABLE IF EXISTS interaction_logs_fts;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,101 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Migration } from './migration';
+
+const DEFAULT_USER_TEMPLATE = 'Task: {{task}}{{#context}}\n\nContext: {{context}}{{/context}}{{#priority}}\n\nPriority: {{priority}}{{/priority}}';
+
+// The prompts AIService used to pick by keyword. Word-boundary patterns and priorities replace
+// the old first-substring-wins order, so "update the lead list" no longer gets the report writer.
+const SEED_TEMPLATES = [
+  {
+    name: 'analysis',
+    description: 'Structured analysis with actionable insights',
+    pattern: '\\banaly(sis|ses|ze|zes|zing|tics?)\\b',
+    priority: 40,
+    system: `You are a data analysis assistant. Provide clear, structured analysis with actionable insights.
+Format your response with bullet points and include key metrics when relevant.`
+  },
+  {
+    name: 'summary',
+    description: 'Concise summaries with headings',
+    pattern: '\\bsummar(y|ies|ize|izes|ise|ises)\\b',
+    priority: 30,
+    system: `You are a summarization expert. Create concise, well-structured summaries that capture the key points.
+Use clear headings and bullet points for better readability.`
+  },
+  {
+    name: 'report',
+    description: 'Formal, sectioned reports',
+    pattern: '\\breports?\\b',
+    priority: 25,
+    system: `You are a professional report writer. Create structured, professional reports with clear sections.
+Include relevant details and maintain a formal tone.`
+  },
+  {
+    name: 'business-development',
+    description: 'Lead management and client relations',
+    pattern: '\\b(leads?|clients?)\\b',
+    priority: 20,
+    system: `You are a business development assistant. Focus on actionable insights for lead management and client relations.
+Provide specific recommendations and next steps.`
+  },
+  {
+    name: 'default',
+    description: 'Fallback when no other template matches',
+    pattern: undefined,
+    priority: 0,
+    system: `You are a helpful AI assistant. Provide clear, accurate, and actionable responses.
+Structure your answers logically and include relevant details.`
+  }
+];
+
+const migration: Migration = {
+  version: 9,
+  name: 'create_prompt_templates',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        description TEXT,
+        system_template TEXT NOT NULL,
+        user_template TEXT NOT NULL,
+        variables TEXT NOT NULL DEFAULT '[]',
+        match_rules TEXT NOT NULL DEFAULT '{}',
+        priority INTEGER NOT NULL DEFAULT 0,
+        active INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        UNIQUE (name, version)
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_templates_active ON prompt_templates(name) WHERE active = 1;
+    `);
+
+    const insert = db.prepare(`
+      INSERT INTO prompt_templates
+      (id, name, version, description, system_template, user_template, match_rules, priority, active, created_at)
+      VALUES (?, ?, 1, ?, ?, ?, ?, ?, 1, ?)
+    `);
+    const now = new Date().toISOString();
+
+    for (const template of SEED_TEMPLATES) {
+      insert.run(
+        uuidv4(),
+        template.name,
+        template.description,
+        template.system,
+        DEFAULT_USER_TEMPLATE,
+        JSON.stringify(template.pattern ? { pattern: template.pattern } : {}),
+        template.priority,
+        now
+      );
+    }
+  },
+
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS prompt_templates');
+  }
+};
+
+export default migration;
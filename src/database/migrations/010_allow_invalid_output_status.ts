@@ -0,0 +1,18 @@
+import { Migration, rewriteTable, setCheckValues } from './migration';
+
+// Structured-output tasks whose answer never matched the requested schema are logged as 'invalid_output'
+const migration: Migration = {
+  version: 10,
+  name: 'allow_invalid_output_status',
+
+  up(db) {
+    rewriteTable(db, 'interaction_logs', sql => setCheckValues(sql, 'status', ['success', 'error', 'aborted', 'invalid_output']));
+  },
+
+  down(db) {
+    db.exec(`UPDATE interaction_logs SET status = 'error' WHERE status = 'invalid_output'`);
+    rewriteTable(db, 'interaction_logs', sql => setCheckValues(sql, 'status', ['success', 'error', 'aborted']));
+  }
+};
+
+export default migration;
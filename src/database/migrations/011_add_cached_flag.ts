@@ -0,0 +1,17 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+const migration: Migration = {
+  version: 11,
+  name: 'add_cached_flag',
+
+  up(db) {
+    // Set for interactions answered from the response cache instead of the provider
+    addColumn(db, 'interaction_logs', 'cached', 'INTEGER NOT NULL DEFAULT 0');
+  },
+
+  down(db) {
+    dropColumn(db, 'interaction_logs', 'cached');
+  }
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// The X-Request-Id of the request behind each interaction and job, and the trace context a queued job
+// continues when it runs
+const migration: Migration = {
+  version: 13,
+  name: 'add_request_ids',
+
+  up(db) {
+    addColumn(db, 'interaction_logs', 'request_id', 'TEXT');
+    addColumn(db, 'task_jobs', 'request_id', 'TEXT');
+    addColumn(db, 'task_jobs', 'traceparent', 'TEXT');
+
+    db.exec('CREATE INDEX IF NOT EXISTS idx_logs_request_id ON interaction_logs(request_id)');
+  },
+
+  down(db) {
+    db.exec('DROP INDEX IF EXISTS idx_logs_request_id');
+
+    dropColumn(db, 'task_jobs', 'traceparent');
+    dropColumn(db, 'task_jobs', 'request_id');
+    dropColumn(db, 'interaction_logs', 'request_id');
+  }
+};
+
+export default migration;
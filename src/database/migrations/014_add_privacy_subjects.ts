@@ -0,0 +1,38 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// The usage subject (key:<api key id> or ip:<address>) behind each interaction and conversation, so
+// everything stored for a subject can be found and deleted on request. Existing interactions take it
+// from the usage ledger where they were billed.
+const migration: Migration = {
+  version: 14,
+  name: 'add_privacy_subjects',
+
+  up(db) {
+    if (addColumn(db, 'interaction_logs', 'subject', 'TEXT')) {
+      db.exec(`
+        UPDATE interaction_logs
+        SET subject = (SELECT subject FROM usage_records WHERE usage_records.interaction_id = interaction_logs.id LIMIT 1)
+      `);
+    }
+    addColumn(db, 'conversations', 'subject', 'TEXT');
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_logs_subject ON interaction_logs(subject);
+      CREATE INDEX IF NOT EXISTS idx_conversations_subject ON conversations(subject);
+      CREATE INDEX IF NOT EXISTS idx_jobs_subject ON task_jobs(subject);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_logs_subject;
+      DROP INDEX IF EXISTS idx_conversations_subject;
+      DROP INDEX IF EXISTS idx_jobs_subject;
+    `);
+
+    dropColumn(db, 'conversations', 'subject');
+    dropColumn(db, 'interaction_logs', 'subject');
+  }
+};
+
+export default migration;
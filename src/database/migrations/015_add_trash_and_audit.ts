@@ -0,0 +1,52 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// Deleted interaction logs move to a trash (deleted_at set) until they are restored or purged, and every
+// destructive or configuration-changing operation is recorded in an append-only audit trail
+const migration: Migration = {
+  version: 15,
+  name: 'add_trash_and_audit',
+
+  up(db) {
+    addColumn(db, 'interaction_logs', 'deleted_at', 'TEXT');
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_logs_deleted_at ON interaction_logs(deleted_at);
+
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        tenant_id TEXT,
+        actor TEXT NOT NULL,
+        ip_address TEXT,
+        request_id TEXT,
+        action TEXT NOT NULL,
+        target TEXT,
+        details TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_audit_events_tenant ON audit_events(tenant_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events(action, timestamp);
+
+      CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_events is append-only');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS audit_events_no_delete BEFORE DELETE ON audit_events
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_events is append-only');
+      END;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS audit_events;
+      DROP INDEX IF EXISTS idx_logs_deleted_at;
+    `);
+
+    dropColumn(db, 'interaction_logs', 'deleted_at');
+  }
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { Migration } from './migration';
+
+// Feedback on interactions: thumbs, a 1-5 rating, a comment and a corrected answer. Each subject keeps
+// one entry per interaction, which is enforced by the service rather than a unique index so that
+// anonymising subjects can never collide.
+const migration: Migration = {
+  version: 16,
+  name: 'create_feedback',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS interaction_feedback (
+        id TEXT PRIMARY KEY,
+        log_id TEXT NOT NULL REFERENCES interaction_logs(id) ON DELETE CASCADE,
+        subject TEXT,
+        thumbs TEXT CHECK (thumbs IN ('up', 'down')),
+        rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+        comment TEXT,
+        correction TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_feedback_log ON interaction_feedback(log_id, subject);
+      CREATE INDEX IF NOT EXISTS idx_feedback_subject ON interaction_feedback(subject);
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS interaction_feedback;');
+  }
+};
+
+export default migration;
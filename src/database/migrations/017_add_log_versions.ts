@@ -0,0 +1,26 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// Regenerated responses are stored as further versions of the interaction they regenerate. Every
+// version points at the original (version 1), and at most one version per chain is preferred.
+const migration: Migration = {
+  version: 17,
+  name: 'add_log_versions',
+
+  up(db) {
+    addColumn(db, 'interaction_logs', 'version_of', 'TEXT');
+    addColumn(db, 'interaction_logs', 'version', 'INTEGER NOT NULL DEFAULT 1');
+    addColumn(db, 'interaction_logs', 'preferred', 'INTEGER NOT NULL DEFAULT 0');
+
+    db.exec('CREATE INDEX IF NOT EXISTS idx_logs_version_of ON interaction_logs(version_of, version)');
+  },
+
+  down(db) {
+    db.exec('DROP INDEX IF EXISTS idx_logs_version_of');
+
+    dropColumn(db, 'interaction_logs', 'preferred');
+    dropColumn(db, 'interaction_logs', 'version');
+    dropColumn(db, 'interaction_logs', 'version_of');
+  }
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// Batches of tasks submitted together. Each item keeps its (redacted) input so results can be written
+// back in the shape they came in; answered items point at their interaction log, which carries the
+// batch id in turn.
+const migration: Migration = {
+  version: 18,
+  name: 'create_task_batches',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS task_batches (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL DEFAULT 'default',
+        format TEXT NOT NULL CHECK (format IN ('json', 'jsonl', 'csv')),
+        total INTEGER NOT NULL,
+        succeeded INTEGER NOT NULL,
+        failed INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        completed_at TEXT NOT NULL,
+        subject TEXT,
+        request_id TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS task_batch_items (
+        batch_id TEXT NOT NULL REFERENCES task_batches(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        log_id TEXT,
+        error TEXT,
+        input TEXT NOT NULL,
+        PRIMARY KEY (batch_id, position)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_batches_tenant ON task_batches(tenant_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_batches_subject ON task_batches(subject);
+    `);
+
+    addColumn(db, 'interaction_logs', 'batch_id', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_logs_batch ON interaction_logs(batch_id)');
+  },
+
+  down(db) {
+    db.exec('DROP INDEX IF EXISTS idx_logs_batch');
+    dropColumn(db, 'interaction_logs', 'batch_id');
+
+    db.exec(`
+      DROP TABLE IF EXISTS task_batch_items;
+      DROP TABLE IF EXISTS task_batches;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,45 @@
+import { Migration } from './migration';
+
+// Documents uploaded for use as task context. Only the extracted (and redacted) text is kept, split into
+// chunks when it is uploaded so tasks can include the parts that fit their budget.
+const migration: Migration = {
+  version: 19,
+  name: 'create_attachments',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL DEFAULT 'default',
+        filename TEXT NOT NULL,
+        format TEXT NOT NULL CHECK (format IN ('text', 'markdown', 'csv', 'json', 'html')),
+        size INTEGER NOT NULL,
+        tokens INTEGER NOT NULL,
+        chunk_count INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        subject TEXT,
+        request_id TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS attachment_chunks (
+        attachment_id TEXT NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        tokens INTEGER NOT NULL,
+        PRIMARY KEY (attachment_id, position)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_attachments_tenant ON attachments(tenant_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_attachments_subject ON attachments(subject);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS attachment_chunks;
+      DROP TABLE IF EXISTS attachments;
+    `);
+  }
+};
+
+export default migration;
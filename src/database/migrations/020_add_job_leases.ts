@@ -0,0 +1,18 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// A running job is leased by the worker that claimed it, which keeps renewing the lease while the job
+// runs. Only jobs whose lease has expired, because their worker died, are put back in the queue.
+const migration: Migration = {
+  version: 20,
+  name: 'add_job_leases',
+
+  up(db) {
+    addColumn(db, 'task_jobs', 'lease_expires_at', 'TEXT');
+  },
+
+  down(db) {
+    dropColumn(db, 'task_jobs', 'lease_expires_at');
+  }
+};
+
+export default migration;
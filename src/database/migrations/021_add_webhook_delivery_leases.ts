@@ -0,0 +1,18 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// A delivery being sent is leased by the process that claimed it for as long as one attempt can take.
+// Only deliveries whose lease has expired, because that process died, are put back in line.
+const migration: Migration = {
+  version: 21,
+  name: 'add_webhook_delivery_leases',
+
+  up(db) {
+    addColumn(db, 'webhook_deliveries', 'lease_expires_at', 'TEXT');
+  },
+
+  down(db) {
+    dropColumn(db, 'webhook_deliveries', 'lease_expires_at');
+  }
+};
+
+export default migration;
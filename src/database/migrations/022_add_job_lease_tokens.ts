@@ -0,0 +1,18 @@
+import { Migration, addColumn, dropColumn } from './migration';
+
+// Each claim of a job gets its own token. Only the worker holding the current token can renew the lease
+// or record the outcome, so a worker that stalled past its lease cannot overwrite the run that replaced it.
+const migration: Migration = {
+  version: 22,
+  name: 'add_job_lease_tokens',
+
+  up(db) {
+    addColumn(db, 'task_jobs', 'lease_token', 'TEXT');
+  },
+
+  down(db) {
+    dropColumn(db, 'task_jobs', 'lease_token');
+  }
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { Migration } from './migration';
+import { anonymizeIp, hashSubject } from '../../services/piiRedactor';
+
+// The audit trail kept the address and usage subject of each actor, which outlived the retention sweep's
+// anonymisation and the erasure of the subject. Events now keep the address truncated to its network and
+// the subject as its hash, and the events recorded so far are rewritten the same way.
+const migration: Migration = {
+  version: 23,
+  name: 'anonymize_audit_actors',
+
+  up(db) {
+    const rows = db.prepare(`
+      SELECT id, actor, ip_address FROM audit_events WHERE actor LIKE 'key:%' OR actor LIKE 'ip:%' OR ip_address IS NOT NULL
+    `).all() as { id: string; actor: string; ip_address: string | null }[];
+    const update = db.prepare('UPDATE audit_events SET actor = ?, ip_address = ? WHERE id = ?');
+
+    db.exec('DROP TRIGGER IF EXISTS audit_events_no_update');
+    for (const row of rows) {
+      const actor = /^(key|ip):/.test(row.actor) ? hashSubject(row.actor) : row.actor;
+      update.run(actor, row.ip_address && anonymizeIp(row.ip_address), row.id);
+    }
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_events is append-only');
+      END;
+    `);
+  },
+
+  // Hashes cannot be reversed, and the truncated addresses were never meant to come back
+  down() {}
+};
+
+export default migration;
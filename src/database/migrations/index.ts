@@ -0,0 +1,53 @@
+import { Migration } from './migration';
+import createInteractionLogs from './001_create_interaction_logs';
+import allowAbortedStatus from './002_allow_aborted_status';
+import createConversations from './003_create_conversations';
+import createTaskJobs from './004_create_task_jobs';
+import addTenancy from './005_add_tenancy';
+import addUsageQuotas from './006_add_usage_quotas';
+import addInteractionUsage from './007_add_interaction_usage';
+import addLogSearch from './008_add_log_search';
+import createPromptTemplates from './009_create_prompt_templates';
+import allowInvalidOutputStatus from './010_allow_invalid_output_status';
+import addCachedFlag from './011_add_cached_flag';
+import createWebhooks from './012_create_webhooks';
+import addRequestIds from './013_add_request_ids';
+import addPrivacySubjects from './014_add_privacy_subjects';
+import addTrashAndAudit from './015_add_trash_and_audit';
+import createFeedback from './016_create_feedback';
+import addLogVersions from './017_add_log_versions';
+import createTaskBatches from './018_create_task_batches';
+import createAttachments from './019_create_attachments';
+import addJobLeases from './020_add_job_leases';
+import addWebhookDeliveryLeases from './021_add_webhook_delivery_leases';
+import addJobLeaseTokens from './022_add_job_lease_tokens';
+import anonymizeAuditActors from './023_anonymize_audit_actors';
+
+export { Migration } from './migration';
+
+// Every schema change, oldest first. Append new migrations here; never edit one that has shipped.
+export const migrations: Migration[] = [
+  createInteractionLogs,
+  allowAbortedStatus,
+  createConversations,
+  createTaskJobs,
+  addTenancy,
+  addUsageQuotas,
+  addInteractionUsage,
+  addLogSearch,
+  createPromptTemplates,
+  allowInvalidOutputStatus,
+  addCachedFlag,
+  createWebhooks,
+  addRequestIds,
+  addPrivacySubjects,
+  addTrashAndAudit,
+  createFeedback,
+  addLogVersions,
+  createTaskBatches,
+  createAttachments,
+  addJobLeases,
+  addWebhookDeliveryLeases,
+  addJobLeaseTokens,
+  anonymizeAuditActors
+];
@@ -0,0 +1,65 @@
+import Database from 'better-sqlite3';
+
+// A versioned schema change. Versions are applied in ascending order and recorded in
+// schema_migrations; `down` must undo exactly what `up` did.
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+  down(db: Database.Database): void;
+}
+
+export const hasColumn = (db: Database.Database, table: string, column: string): boolean =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).some(existing => existing.name === column);
+
+// Databases created before versioned migrations may already have the column; returns true when it was added
+export const addColumn = (db: Database.Database, table: string, column: string, definition: string): boolean => {
+  if (hasColumn(db, table, column)) return false;
+
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+};
+
+export const dropColumn = (db: Database.Database, table: string, column: string): void => {
+  if (hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+};
+
+// SQLite cannot alter constraints in place, so the table is recreated from its rewritten
+// definition and every row copied across, keeping rowids so external-content indexes stay valid.
+// Indexes and triggers are recreated afterwards.
+export const rewriteTable = (db: Database.Database, table: string, rewrite: (sql: string) => string): void => {
+  const definition = db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`)
+    .get(table) as { sql: string } | undefined;
+
+  if (!definition) {
+    throw new Error(`Table ${table} does not exist`);
+  }
+
+  const rewritten = rewrite(definition.sql);
+  if (rewritten === definition.sql) return;
+
+  const dependents = db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type IN ('index', 'trigger') AND tbl_name = ? AND sql IS NOT NULL`)
+    .all(table) as { sql: string }[];
+  const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[])
+    .map(column => column.name)
+    .join(', ');
+
+  db.exec(`ALTER TABLE ${table} RENAME TO ${table}_old`);
+  db.exec(rewritten);
+  db.exec(`
+    INSERT INTO ${table} (rowid, ${columns}) SELECT rowid, ${columns} FROM ${table}_old;
+    DROP TABLE ${table}_old;
+  `);
+  dependents.forEach(dependent => db.exec(dependent.sql));
+};
+
+// Replaces the allowed values of a `CHECK (column IN (...))` constraint
+export const setCheckValues = (sql: string, column: string, values: string[]): string =>
+  sql.replace(
+    new RegExp(`CHECK \\(${column} IN \\([^)]*\\)\\)`),
+    `CHECK (${column} IN (${values.map(value => `'${value}'`).join(', ')}))`
+  );
@@ -0,0 +1,115 @@
+import Database from 'better-sqlite3';
+import { Migration, migrations as allMigrations } from './migrations';
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // 'unknown' marks versions recorded in the database that this build does not ship (a newer deploy ran them)
+  state: 'applied' | 'pending' | 'unknown';
+  appliedAt?: string;
+}
+
+// Applies and rolls back versioned migrations. Each `up` or `down` call runs in a single
+// transaction, so a failing migration leaves the schema exactly as it was.
+export class Migrator {
+  constructor(private db: Database.Database, private migrations: Migration[] = allMigrations) {
+    migrations.forEach((migration, index) => {
+      if (index > 0 && migration.version <= migrations[index - 1].version) {
+        throw new MigrationError(`Migration ${migration.version} (${migration.name}) is out of order`);
+      }
+    });
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  public status(): MigrationStatus[] {
+    const applied = this.getApplied();
+    const known = new Set(this.migrations.map(migration => migration.version));
+
+    const statuses: MigrationStatus[] = this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      state: applied.has(migration.version) ? 'applied' : 'pending',
+      appliedAt: applied.get(migration.version)?.appliedAt
+    }));
+
+    for (const [version, row] of applied) {
+      if (!known.has(version)) {
+        statuses.push({ version, name: row.name, state: 'unknown', appliedAt: row.appliedAt });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  public currentVersion(): number {
+    return Math.max(0, ...this.getApplied().keys());
+  }
+
+  // Applies pending migrations up to and including `target` (default: all of them)
+  public up(target?: number): Migration[] {
+    const applied = this.getApplied();
+    const pending = this.migrations.filter(migration =>
+      !applied.has(migration.version) && (target === undefined || migration.version <= target)
+    );
+
+    if (pending.length === 0) return [];
+
+    const record = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+    this.db.transaction(() => {
+      for (const migration of pending) {
+        migration.up(this.db);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      }
+    })();
+
+    return pending;
+  }
+
+  // Rolls back the most recently applied migrations, newest first
+  public down(steps: number = 1): Migration[] {
+    const versions = [...this.getApplied().keys()].sort((a, b) => b - a).slice(0, steps);
+    const rollback = versions.map(version => {
+      const migration = this.migrations.find(candidate => candidate.version === version);
+      if (!migration) {
+        throw new MigrationError(`Migration ${version} is applied but not known to this build, so it cannot be rolled back`);
+      }
+      return migration;
+    });
+
+    if (rollback.length === 0) return [];
+
+    const remove = this.db.prepare('DELETE FROM schema_migrations WHERE version = ?');
+
+    this.db.transaction(() => {
+      for (const migration of rollback) {
+        migration.down(this.db);
+        remove.run(migration.version);
+      }
+    })();
+
+    return rollback;
+  }
+
+  private getApplied(): Map<number, { name: string; appliedAt: string }> {
+    const rows = this.db
+      .prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+      .all() as { version: number; name: string; applied_at: string }[];
+
+    return new Map(rows.map(row => [row.version, { name: row.name, appliedAt: row.applied_at }]));
+  }
+}
@@ -1,59 +1,168 @@
 import Database from 'better-sqlite3';
-import { InteractionLog } from '../types';
+import { Migrator } from './migrator';
+import { config } from '../config';
+import { dbQueryDuration, queryLabels } from '../services/metrics';
+import { logger } from '../services/logger';
+import { anonymizeIp, anonymizeSubject } from '../services/piiRedactor';
+import {
+  InteractionLog, InteractionLogVersion, Conversation, ConversationMessage, TaskJob, JobStatus, ApiKey, UsageLimits, UsageRecord,
+  StatsGroup, StatsOptions, TaskStats, LogQuery, LogPage, LogSortField, PromptTemplate, WebhookSubscription,
+  WebhookSubscriptionInput, WebhookEvent, WebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryStatus, RetentionSweep,
+  SubjectErasure, TaskRequest, AuditEvent, AuditQuery, InteractionFeedback, FeedbackGroup, FeedbackStats,
+  FineTuningOptions, FineTuningPage, TaskBatch, TaskBatchResult, Attachment, AttachmentChunk
+} from '../types';
+
+// Time bucket start as an ISO string prefix of the stored UTC timestamps
+const BUCKET_EXPRESSIONS: Record<NonNullable<StatsOptions['bucket']>, string> = {
+  hour: `substr(timestamp, 1, 13) || ':00:00.000Z'`,
+  day: `substr(timestamp, 1, 10) || 'T00:00:00.000Z'`
+};
+
+// Without an explicit range, time buckets cover the last day (hourly) or month (daily)
+const DEFAULT_BUCKET_WINDOW_MS: Record<NonNullable<StatsOptions['bucket']>, number> = {
+  hour: 24 * 60 * 60 * 1000,
+  day: 30 * 24 * 60 * 60 * 1000
+};
+
+// 1 for positive feedback, 0 for negative, NULL for feedback with neither thumbs nor a rating
+const SATISFIED_EXPRESSION = `
+  CASE WHEN f.thumbs IS NOT NULL THEN f.thumbs = 'up' WHEN f.rating IS NOT NULL THEN f.rating >= 4 END
+`;
+
+const INTERACTION_LOG_INSERT = `
+  (id, task, response, status, timestamp, processing_time, user_agent, ip_address, metadata, tenant_id,
+   priority, model, prompt_tokens, completion_tokens, total_tokens, cost, cached, request_id, subject,
+   version_of, version, preferred, batch_id)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+// Sortable log columns; missing token counts and costs sort as zero so cursors never compare NULLs
+const LOG_SORT_EXPRESSIONS: Record<LogSortField, string> = {
+  timestamp: 'timestamp',
+  processingTime: 'processing_time',
+  totalTokens: 'COALESCE(total_tokens, 0)',
+  cost: 'COALESCE(cost, 0)'
+};
+
+// Log cursors carry the last row's sort value and id, so pages stay stable while new logs arrive
+export const encodeLogCursor = (value: string | number, id: string): string =>
+  Buffer.from(JSON.stringify([value, id])).toString('base64url');
+
+export const decodeLogCursor = (cursor: string): { value: string | number; id: string } | null => {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const valid = (typeof value === 'string' || typeof value === 'number') && typeof id === 'string';
+    return valid ? { value, id } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Quotes every search word as an FTS5 prefix term, so user input cannot inject query syntax
+const toFtsQuery = (search: string): string =>
+  search
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .map(word => `"${word.replace(/"/g, '""')}"*`)
+    .join(' ');
+
+// Rows that existed before tenancy belong to the default tenant
+export const DEFAULT_TENANT_ID = 'default';
+
+// Higher ranks are claimed first by the job queue
+const JOB_PRIORITY_RANK: Record<TaskJob['priority'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1
+};
+
+export interface DatabaseOptions {
+  // Apply pending migrations on open (see config.database.autoMigrate)
+  autoMigrate?: boolean;
+}
 
 export class DatabaseService {
   private db: Database.Database;
   private static instance: DatabaseService;
+  public readonly migrator: Migrator;
 
-  constructor(databasePath: string = './data/assistant.db') {
+  constructor(databasePath: string = './data/assistant.db', options: DatabaseOptions = {}) {
     this.db = new Database(databasePath);
-    this.initializeTables();
+    this.db.pragma('foreign_keys = ON');
+    this.instrumentQueries();
+    this.registerFunctions();
+    this.migrator = new Migrator(this.db);
+
+    if (options.autoMigrate ?? config.database.autoMigrate) {
+      const applied = this.migrator.up();
+      if (applied.length > 0) {
+        logger.info('Applied database migrations', { applied: applied.length, version: this.migrator.currentVersion() });
+      }
+    }
   }
 
-  public static getInstance(databasePath?: string): DatabaseService {
+  public static getInstance(databasePath?: string, options?: DatabaseOptions): DatabaseService {
     if (!DatabaseService.instance) {
       const path = databasePath || process.env.DATABASE_PATH || './data/assistant.db';
-      DatabaseService.instance = new DatabaseService(path);
+      DatabaseService.instance = new DatabaseService(path, options);
     }
     return DatabaseService.instance;
   }
 
-  private initializeTables(): void {
-    // Create interaction_logs table
-    const createTableQuery = `
-      CREATE TABLE IF NOT EXISTS interaction_logs (
-        id TEXT PRIMARY KEY,
-        task TEXT NOT NULL,
-        response TEXT NOT NULL,
-        status TEXT NOT NULL CHECK (status IN ('success', 'error')),
-        timestamp TEXT NOT NULL,
-        processing_time INTEGER NOT NULL,
-        user_agent TEXT,
-        ip_address TEXT,
-        metadata TEXT
-      )
-    `;
+  // Times every statement prepared on the connection, labelled by operation and table
+  private instrumentQueries(): void {
+    const prepare = this.db.prepare.bind(this.db);
 
-    this.db.exec(createTableQuery);
+    this.db.prepare = ((sql: string) => {
+      const statement: any = prepare(sql);
+      const labels = queryLabels(sql);
 
-    // Create index for better query performance
-    const createIndexQuery = `
-      CREATE INDEX IF NOT EXISTS idx_timestamp ON interaction_logs(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_status ON interaction_logs(status);
-    `;
+      for (const method of ['run', 'get', 'all']) {
+        const execute = statement[method].bind(statement);
+        statement[method] = (...params: unknown[]) => {
+          const end = dbQueryDuration.startTimer(labels);
+          try {
+            return execute(...params);
+          } finally {
+            end();
+          }
+        };
+      }
+      return statement;
+    }) as Database.Database['prepare'];
+  }
 
-    this.db.exec(createIndexQuery);
+  // SQL functions used by the retention sweep; both leave NULL and already anonymised values unchanged
+  private registerFunctions(): void {
+    this.db.function('anonymize_ip', { deterministic: true }, (ip: unknown) =>
+      typeof ip === 'string' ? anonymizeIp(ip) : ip);
+    this.db.function('anonymize_subject', { deterministic: true }, (subject: unknown) =>
+      typeof subject === 'string' ? anonymizeSubject(subject) : subject);
+  }
+
+  // Builds an optional tenant filter; omitting the tenant (CLI, internal jobs) matches every row
+  private tenantFilter(tenantId: string | undefined, column: string = 'tenant_id'): { sql: string; params: string[] } {
+    return tenantId === undefined
+      ? { sql: '1 = 1', params: [] }
+      : { sql: `${column} = ?`, params: [tenantId] };
   }
 
   public saveInteractionLog(log: InteractionLog): void {
-    const insertQuery = `
-      INSERT INTO interaction_logs 
-      (id, task, response, status, timestamp, processing_time, user_agent, ip_address, metadata)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
+    this.db.prepare(`INSERT INTO interaction_logs ${INTERACTION_LOG_INSERT}`).run(...this.interactionLogParams(log));
+  }
 
-    const stmt = this.db.prepare(insertQuery);
-    stmt.run(
+  // Bulk insert for archive restores; logs whose id already exists are left untouched.
+  // Returns the number of logs actually inserted.
+  public importInteractionLogs(logs: InteractionLog[]): number {
+    const stmt = this.db.prepare(`INSERT OR IGNORE INTO interaction_logs ${INTERACTION_LOG_INSERT}`);
+
+    return this.db.transaction(() =>
+      logs.reduce((inserted, log) => inserted + stmt.run(...this.interactionLogParams(log)).changes, 0)
+    )();
+  }
+
+  private interactionLogParams(log: InteractionLog): (string | number | null)[] {
+    return [
       log.id,
       log.task,
       log.response,
@@ -62,110 +171,1535 @@ export class DatabaseService {
       log.processingTime,
       log.userAgent || null,
       log.ipAddress || null,
-      log.metadata ? JSON.stringify(log.metadata) : null
-    );
+      log.metadata ? JSON.stringify(log.metadata) : null,
+      log.tenantId || DEFAULT_TENANT_ID,
+      log.priority || null,
+      log.model || null,
+      log.usage?.promptTokens ?? null,
+      log.usage?.completionTokens ?? null,
+      log.usage?.totalTokens ?? null,
+      log.cost ?? null,
+      log.cached ? 1 : 0,
+      log.requestId || null,
+      log.subject || null,
+      log.versionOf || null,
+      log.version ?? 1,
+      log.preferred ? 1 : 0,
+      log.batchId || null
+    ];
   }
 
-  public getInteractionLogs(limit: number = 50, offset: number = 0): InteractionLog[] {
+  public queryInteractionLogs(query: LogQuery, tenantId?: string): LogPage {
+    const tenant = this.tenantFilter(tenantId);
+    const clauses = [tenant.sql, 'deleted_at IS NULL'];
+    const params: (string | number)[] = [...tenant.params];
+    const inList = (column: string, values: string[]) => {
+      clauses.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+      params.push(...values);
+    };
+
+    const search = query.search ? toFtsQuery(query.search) : '';
+    if (search) {
+      clauses.push('rowid IN (SELECT rowid FROM interaction_logs_fts WHERE interaction_logs_fts MATCH ?)');
+      params.push(search);
+    }
+    if (query.status?.length) inList('status', query.status);
+    if (query.priority?.length) inList('priority', query.priority);
+    if (query.model?.length) inList('model', query.model);
+    if (query.requestId) {
+      clauses.push('request_id = ?');
+      params.push(query.requestId);
+    }
+    if (query.batchId) {
+      clauses.push('batch_id = ?');
+      params.push(query.batchId);
+    }
+    if (query.since) {
+      clauses.push('timestamp >= ?');
+      params.push(query.since);
+    }
+    if (query.until) {
+      clauses.push('timestamp < ?');
+      params.push(query.until);
+    }
+    if (query.minProcessingTime !== undefined) {
+      clauses.push('processing_time >= ?');
+      params.push(query.minProcessingTime);
+    }
+    if (query.maxProcessingTime !== undefined) {
+      clauses.push('processing_time <= ?');
+      params.push(query.maxProcessingTime);
+    }
+    for (const [key, value] of Object.entries(query.metadata || {})) {
+      // Query strings are untyped, so match the stored JSON value as text or as a number/boolean
+      const typed = value === 'true' ? 1 : value === 'false' ? 0 : value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+      clauses.push('json_extract(metadata, ?) IN (?, ?)');
+      params.push(`$.${key}`, value, typed);
+    }
+
+    const sortExpression = LOG_SORT_EXPRESSIONS[query.sort || 'timestamp'];
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const cursor = query.cursor ? decodeLogCursor(query.cursor) : null;
+
+    if (cursor) {
+      const comparison = direction === 'ASC' ? '>' : '<';
+      clauses.push(`(${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND id ${comparison} ?))`);
+      params.push(cursor.value, cursor.value, cursor.id);
+    }
+
+    const limit = query.limit || 50;
     const selectQuery = `
-      SELECT * FROM interaction_logs 
-      ORDER BY timestamp DESC 
+      SELECT *, ${sortExpression} as sort_value FROM interaction_logs
+      WHERE ${clauses.join(' AND ')}
+      ORDER BY ${sortExpression} ${direction}, id ${direction}
       LIMIT ? OFFSET ?
     `;
 
-    const stmt = this.db.prepare(selectQuery);
-    const rows = stmt.all(limit, offset) as any[];
+    // One extra row tells whether another page exists
+    const rows = this.db.prepare(selectQuery).all(...params, limit + 1, cursor ? 0 : query.offset || 0) as any[];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
 
-    return rows.map(row => ({
-      id: row.id,
-      task: row.task,
-      response: row.response,
-      status: row.status,
-      timestamp: row.timestamp,
-      processingTime: row.processing_time,
-      userAgent: row.user_agent,
-      ipAddress: row.ip_address,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined
-    }));
+    return {
+      logs: page.map(row => this.mapInteractionLog(row)),
+      nextCursor: rows.length > limit ? encodeLogCursor(last.sort_value, last.id) : undefined
+    };
   }
 
-  public getInteractionLogById(id: string): InteractionLog | null {
+  public getInteractionLogById(id: string, tenantId?: string): InteractionLog | null {
+    const tenant = this.tenantFilter(tenantId);
     const selectQuery = `
-      SELECT * FROM interaction_logs WHERE id = ?
+      SELECT * FROM interaction_logs WHERE id = ? AND deleted_at IS NULL AND ${tenant.sql}
     `;
 
     const stmt = this.db.prepare(selectQuery);
-    const row = stmt.get(id) as any;
+    const row = stmt.get(id, ...tenant.params) as any;
 
     if (!row) return null;
 
-    return {
+    return this.mapInteractionLog(row);
+  }
+
+  // The number the next regeneration of the interaction gets. Trashed versions keep their numbers.
+  public getNextLogVersion(versionOf: string): number {
+    const row = this.db.prepare(`
+      SELECT COALESCE(MAX(version), 0) + 1 AS next FROM interaction_logs WHERE id = ? OR version_of = ?
+    `).get(versionOf, versionOf) as { next: number };
+    return row.next;
+  }
+
+  // Every version of the log's interaction that is not in the trash, oldest first
+  public getInteractionLogVersions(log: InteractionLog): InteractionLogVersion[] {
+    const root = log.versionOf || log.id;
+    const rows = this.db.prepare(`
+      SELECT id, version, response, status, timestamp, model, preferred FROM interaction_logs
+      WHERE (id = ? OR version_of = ?) AND deleted_at IS NULL AND tenant_id = ?
+      ORDER BY version
+    `).all(root, root, log.tenantId || DEFAULT_TENANT_ID) as any[];
+
+    return rows.map(row => ({
       id: row.id,
-      task: row.task,
+      version: row.version,
       response: row.response,
       status: row.status,
       timestamp: row.timestamp,
-      processingTime: row.processing_time,
-      userAgent: row.user_agent,
-      ipAddress: row.ip_address,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined
+      model: row.model || undefined,
+      preferred: row.preferred === 1
+    }));
+  }
+
+  // Marks the log as the preferred version of its interaction, unmarking the others.
+  // Returns the marked log, or null when it does not exist in the tenant.
+  public setPreferredLogVersion(id: string, tenantId?: string): InteractionLog | null {
+    return this.db.transaction(() => {
+      const log = this.getInteractionLogById(id, tenantId);
+      if (!log) return null;
+
+      const root = log.versionOf || log.id;
+      this.db.prepare(`
+        UPDATE interaction_logs SET preferred = (id = ?) WHERE (id = ? OR version_of = ?) AND tenant_id = ?
+      `).run(id, root, root, log.tenantId || DEFAULT_TENANT_ID);
+      return { ...log, preferred: true };
+    })();
+  }
+
+  public getStats(tenantId?: string, options: StatsOptions = {}): TaskStats {
+    const bucket = options.bucket || 'day';
+    const filter = this.statsFilter(tenantId, options.since, options.until);
+    const summary = this.getStatsGroups(`'all'`, filter)[0];
+
+    // Time buckets default to a recent window so the series stays bounded
+    const bucketSince = options.since || new Date(Date.now() - DEFAULT_BUCKET_WINDOW_MS[bucket]).toISOString();
+    const bucketFilter = this.statsFilter(tenantId, bucketSince, options.until);
+
+    const tokenTotals = this.db.prepare(`
+      SELECT COALESCE(SUM(prompt_tokens), 0) as prompt, COALESCE(SUM(completion_tokens), 0) as completion
+      FROM interaction_logs
+      WHERE ${filter.sql}
+    `).get(...filter.params) as { prompt: number; completion: number };
+
+    return {
+      totalInteractions: summary?.count || 0,
+      successRate: summary?.successRate || 0,
+      averageProcessingTime: summary?.averageProcessingTime || 0,
+      latency: this.getLatencyPercentiles(filter, summary?.count || 0),
+      promptTokens: tokenTotals.prompt,
+      completionTokens: tokenTotals.completion,
+      totalTokens: summary?.totalTokens || 0,
+      totalCost: summary?.cost || 0,
+      cacheHits: summary?.cacheHits || 0,
+      cacheHitRate: summary?.cacheHitRate || 0,
+      byModel: this.getStatsGroups(`COALESCE(model, 'unknown')`, filter),
+      byPriority: this.getStatsGroups(`COALESCE(priority, 'unknown')`, filter),
+      byStatus: this.getStatsGroups('status', filter),
+      bucket,
+      buckets: this.getStatsGroups(BUCKET_EXPRESSIONS[bucket], bucketFilter, 'key ASC'),
+      feedback: this.getFeedbackStats(filter, BUCKET_EXPRESSIONS[bucket], bucketFilter)
     };
   }
 
-  public getStats(): { totalInteractions: number; successRate: number; averageProcessingTime: number } {
-    try {
-      // Use a single query to get all stats
-      const statsQuery = `
-        SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as success,
-          AVG(processing_time) as avg_time
-        FROM interaction_logs
-      `;
+  // Feedback on the interactions matching the filter, grouped by the interaction's template, model,
+  // category and time bucket
+  private getFeedbackStats(
+    filter: { sql: string; params: string[] },
+    bucketExpression: string,
+    bucketFilter: { sql: string; params: string[] }
+  ): FeedbackStats {
+    const { key, ...summary } = this.getFeedbackGroups(`'all'`, filter)[0] || {
+      key: 'all', count: 0, thumbsUp: 0, thumbsDown: 0, ratings: 0, averageRating: 0, satisfactionRate: 0, corrections: 0
+    };
 
-      const result = this.db.prepare(statsQuery).get() as { total: number; success: number; avg_time: number };
+    return {
+      ...summary,
+      byTemplate: this.getFeedbackGroups(`COALESCE(json_extract(metadata, '$.templateName'), 'unknown')`, filter),
+      byModel: this.getFeedbackGroups(`COALESCE(model, 'unknown')`, filter),
+      byCategory: this.getFeedbackGroups(`COALESCE(json_extract(metadata, '$.category'), 'uncategorized')`, filter),
+      buckets: this.getFeedbackGroups(bucketExpression, bucketFilter, 'key ASC')
+    };
+  }
 
-      return {
-        totalInteractions: result.total || 0,
-        successRate: result.total > 0 ? (result.success / result.total) * 100 : 0,
-        averageProcessingTime: result.avg_time || 0
-      };
-    } catch (error) {
-      console.error('Error getting stats:', error);
-      return {
-        totalInteractions: 0,
-        successRate: 0,
-        averageProcessingTime: 0
-      };
+  private getFeedbackGroups(keyExpression: string, filter: { sql: string; params: string[] }, orderBy: string = 'count DESC'): FeedbackGroup[] {
+    const groupQuery = `
+      SELECT
+        ${keyExpression} as key,
+        COUNT(*) as count,
+        SUM(CASE WHEN f.thumbs = 'up' THEN 1 ELSE 0 END) as thumbs_up,
+        SUM(CASE WHEN f.thumbs = 'down' THEN 1 ELSE 0 END) as thumbs_down,
+        COUNT(f.rating) as ratings,
+        AVG(f.rating) as avg_rating,
+        COUNT(${SATISFIED_EXPRESSION}) as rated,
+        SUM(${SATISFIED_EXPRESSION}) as satisfied,
+        COUNT(f.correction) as corrections
+      FROM interaction_feedback f
+      JOIN interaction_logs ON interaction_logs.id = f.log_id
+      WHERE ${filter.sql}
+      GROUP BY key
+      ORDER BY ${orderBy}
+    `;
+
+    const rows = this.db.prepare(groupQuery).all(...filter.params) as any[];
+
+    return rows.map(row => ({
+      key: row.key,
+      count: row.count,
+      thumbsUp: row.thumbs_up,
+      thumbsDown: row.thumbs_down,
+      ratings: row.ratings,
+      averageRating: row.avg_rating || 0,
+      satisfactionRate: row.rated > 0 ? (row.satisfied / row.rated) * 100 : 0,
+      corrections: row.corrections
+    }));
+  }
+
+  private statsFilter(tenantId?: string, since?: string, until?: string): { sql: string; params: string[] } {
+    const tenant = this.tenantFilter(tenantId);
+    const clauses = [tenant.sql, 'deleted_at IS NULL'];
+    const params = [...tenant.params];
+
+    if (since) {
+      clauses.push('timestamp >= ?');
+      params.push(since);
     }
+    if (until) {
+      clauses.push('timestamp < ?');
+      params.push(until);
+    }
+    return { sql: clauses.join(' AND '), params };
+  }
+
+  private getStatsGroups(keyExpression: string, filter: { sql: string; params: string[] }, orderBy: string = 'count DESC'): StatsGroup[] {
+    const groupQuery = `
+      SELECT
+        ${keyExpression} as key,
+        COUNT(*) as count,
+        SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as success,
+        AVG(processing_time) as avg_time,
+        COALESCE(SUM(total_tokens), 0) as tokens,
+        COALESCE(SUM(cost), 0) as cost,
+        SUM(cached) as cached
+      FROM interaction_logs
+      WHERE ${filter.sql}
+      GROUP BY key
+      ORDER BY ${orderBy}
+    `;
+
+    const rows = this.db.prepare(groupQuery).all(...filter.params) as any[];
+
+    return rows
+      .filter(row => row.count > 0)
+      .map(row => ({
+        key: row.key,
+        count: row.count,
+        successRate: (row.success / row.count) * 100,
+        averageProcessingTime: row.avg_time || 0,
+        totalTokens: row.tokens,
+        cost: row.cost,
+        cacheHits: row.cached,
+        cacheHitRate: (row.cached / row.count) * 100
+      }));
+  }
+
+  // Nearest-rank percentiles, read straight from the sorted processing times
+  private getLatencyPercentiles(filter: { sql: string; params: string[] }, count: number): TaskStats['latency'] {
+    const percentile = (p: number): number => {
+      if (count === 0) return 0;
+
+      const row = this.db.prepare(`
+        SELECT processing_time FROM interaction_logs
+        WHERE ${filter.sql}
+        ORDER BY processing_time
+        LIMIT 1 OFFSET ?
+      `).get(...filter.params, Math.ceil((p / 100) * count) - 1) as { processing_time: number } | undefined;
+
+      return row?.processing_time || 0;
+    };
+
+    return { p50: percentile(50), p95: percentile(95), p99: percentile(99) };
   }
 
-  public deleteInteractionLog(id: string): boolean {
+  // Moves the log to the trash, from which it can be restored until it is purged
+  public deleteInteractionLog(id: string, tenantId?: string): boolean {
     try {
-      const deleteQuery = 'DELETE FROM interaction_logs WHERE id = ?';
+      const tenant = this.tenantFilter(tenantId);
+      const deleteQuery = `UPDATE interaction_logs SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL AND ${tenant.sql}`;
       const stmt = this.db.prepare(deleteQuery);
-      const result = stmt.run(id);
+      const result = stmt.run(new Date().toISOString(), id, ...tenant.params);
       
       return result.changes > 0;
     } catch (error) {
-      console.error('Error deleting interaction log:', error);
+      logger.error('Error deleting interaction log', { error });
       return false;
     }
   }
 
-  public deleteAllInteractionLogs(): number {
+  // Moves every log to the trash
+  public deleteAllInteractionLogs(tenantId?: string): number {
     try {
-      const deleteQuery = 'DELETE FROM interaction_logs';
+      const tenant = this.tenantFilter(tenantId);
+      const deleteQuery = `UPDATE interaction_logs SET deleted_at = ? WHERE deleted_at IS NULL AND ${tenant.sql}`;
       const stmt = this.db.prepare(deleteQuery);
-      const result = stmt.run();
+      const result = stmt.run(new Date().toISOString(), ...tenant.params);
       
       return result.changes;
     } catch (error) {
-      console.error('Error deleting all interaction logs:', error);
+      logger.error('Error deleting all interaction logs', { error });
       return 0;
     }
   }
 
+  // Moves every tenant's logs to the trash and returns how many each tenant had
+  public deleteAllInteractionLogsByTenant(): Record<string, number> {
+    try {
+      return this.db.transaction(() => {
+        const rows = this.db.prepare(`
+          SELECT tenant_id, COUNT(*) AS count FROM interaction_logs WHERE deleted_at IS NULL GROUP BY tenant_id
+        `).all() as { tenant_id: string; count: number }[];
+
+        this.db.prepare('UPDATE interaction_logs SET deleted_at = ? WHERE deleted_at IS NULL').run(new Date().toISOString());
+        return Object.fromEntries(rows.map(row => [row.tenant_id, row.count]));
+      })();
+    } catch (error) {
+      logger.error('Error deleting all interaction logs', { error });
+      return {};
+    }
+  }
+
+  // Trashed logs, most recently deleted first
+  public getTrashedInteractionLogs(limit: number = 50, offset: number = 0, tenantId?: string): InteractionLog[] {
+    const tenant = this.tenantFilter(tenantId);
+    const selectQuery = `
+      SELECT * FROM interaction_logs
+      WHERE deleted_at IS NOT NULL AND ${tenant.sql}
+      ORDER BY deleted_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `;
+
+    const rows = this.db.prepare(selectQuery).all(...tenant.params, limit, offset) as any[];
+    return rows.map(row => this.mapInteractionLog(row));
+  }
+
+  // Restores the given trashed logs, or the whole trash when no IDs are given
+  public restoreInteractionLogs(ids?: string[], tenantId?: string): number {
+    const filter = this.trashFilter(ids, tenantId);
+    const updateQuery = `UPDATE interaction_logs SET deleted_at = NULL WHERE ${filter.sql}`;
+    return this.db.prepare(updateQuery).run(...filter.params).changes;
+  }
+
+  // Deletes the given trashed logs for good, or the whole trash when no IDs are given. `deletedBefore`
+  // limits it to logs trashed before that time.
+  public purgeInteractionLogs(ids?: string[], tenantId?: string, deletedBefore?: string): number {
+    const filter = this.trashFilter(ids, tenantId);
+    const deletedBeforeSql = deletedBefore ? ' AND deleted_at < ?' : '';
+    const deleteQuery = `DELETE FROM interaction_logs WHERE ${filter.sql}${deletedBeforeSql}`;
+    return this.db.prepare(deleteQuery).run(...filter.params, ...(deletedBefore ? [deletedBefore] : [])).changes;
+  }
+
+  private trashFilter(ids: string[] | undefined, tenantId?: string): { sql: string; params: string[] } {
+    const tenant = this.tenantFilter(tenantId);
+    const idsSql = ids ? ` AND id IN (${ids.map(() => '?').join(', ') || 'NULL'})` : '';
+    return { sql: `deleted_at IS NOT NULL AND ${tenant.sql}${idsSql}`, params: [...tenant.params, ...(ids || [])] };
+  }
+
+  // Replaces the subject's feedback on the log, or adds it when the subject has given none
+  public saveFeedback(feedback: InteractionFeedback): InteractionFeedback {
+    return this.db.transaction(() => {
+      const existing = this.db.prepare(`
+        SELECT id, created_at FROM interaction_feedback WHERE log_id = ? AND subject IS ?
+      `).get(feedback.logId, feedback.subject || null) as { id: string; created_at: string } | undefined;
+      const saved = existing ? { ...feedback, id: existing.id, createdAt: existing.created_at } : feedback;
+
+      this.db.prepare(`
+        INSERT OR REPLACE INTO interaction_feedback
+          (id, log_id, subject, thumbs, rating, comment, correction, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        saved.id,
+        saved.logId,
+        saved.subject || null,
+        saved.thumbs || null,
+        saved.rating ?? null,
+        saved.comment || null,
+        saved.correction || null,
+        saved.createdAt,
+        saved.updatedAt
+      );
+      return saved;
+    })();
+  }
+
+  // Most recently updated first
+  public getFeedback(logId: string): InteractionFeedback[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM interaction_feedback WHERE log_id = ? ORDER BY updated_at DESC, id DESC
+    `).all(logId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      logId: row.log_id,
+      subject: row.subject || undefined,
+      thumbs: row.thumbs || undefined,
+      rating: row.rating ?? undefined,
+      comment: row.comment || undefined,
+      correction: row.correction || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  // Interactions whose feedback approves them (no thumbs down or rating below minRating, and at least
+  // one thumbs up or rating of minRating or more) and, optionally, interactions with a correction.
+  // Oldest first, paged with the same cursors as logs.
+  public getFineTuningExamples(options: FineTuningOptions, tenantId?: string, cursor?: string, limit: number = 500): FineTuningPage {
+    const filter = this.statsFilter(tenantId, options.since, options.until);
+    const minRating = options.minRating ?? 4;
+    const corrections = options.corrections ?? false;
+    const after = cursor ? decodeLogCursor(cursor) : null;
+
+    const selectQuery = `
+      SELECT interaction_logs.id, task, response, timestamp, json_extract(metadata, '$.context') as context, f.correction
+      FROM interaction_logs
+      JOIN (
+        SELECT
+          log_id,
+          SUM(CASE WHEN thumbs = 'down' OR rating < ? THEN 1 ELSE 0 END) as rejections,
+          SUM(CASE WHEN thumbs = 'up' OR rating >= ? THEN 1 ELSE 0 END) as approvals,
+          (
+            SELECT c.correction FROM interaction_feedback c
+            WHERE c.log_id = feedback.log_id AND c.correction IS NOT NULL
+            ORDER BY c.updated_at DESC LIMIT 1
+          ) as correction
+        FROM interaction_feedback feedback
+        GROUP BY log_id
+      ) f ON f.log_id = interaction_logs.id
+      WHERE ${filter.sql}
+        AND ((status = 'success' AND f.rejections = 0 AND f.approvals > 0) OR (? AND f.correction IS NOT NULL))
+        ${after ? 'AND (timestamp > ? OR (timestamp = ? AND interaction_logs.id > ?))' : ''}
+      ORDER BY timestamp ASC, interaction_logs.id ASC
+      LIMIT ?
+    `;
+
+    // One extra row tells whether another page exists
+    const rows = this.db.prepare(selectQuery).all(
+      minRating,
+      minRating,
+      ...filter.params,
+      corrections ? 1 : 0,
+      ...(after ? [after.value, after.value, after.id] : []),
+      limit + 1
+    ) as any[];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      examples: page.map(row => ({
+        logId: row.id,
+        task: row.task,
+        ...(row.context && { context: row.context }),
+        answer: corrections && row.correction ? row.correction : row.response
+      })),
+      nextCursor: rows.length > limit ? encodeLogCursor(last.timestamp, last.id) : undefined
+    };
+  }
+
+  public createConversation(conversation: Conversation): void {
+    const insertQuery = `
+      INSERT INTO conversations (id, title, created_at, updated_at, tenant_id, subject)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `;
+
+    this.db.prepare(insertQuery).run(
+      conversation.id,
+      conversation.title,
+      conversation.createdAt,
+      conversation.updatedAt,
+      conversation.tenantId || DEFAULT_TENANT_ID,
+      conversation.subject || null
+    );
+  }
+
+  public getConversations(limit: number = 50, offset: number = 0, tenantId?: string): Conversation[] {
+    const tenant = this.tenantFilter(tenantId, 'c.tenant_id');
+    const selectQuery = `
+      SELECT c.*, (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) as message_count
+      FROM conversations c
+      WHERE ${tenant.sql}
+      ORDER BY c.updated_at DESC
+      LIMIT ? OFFSET ?
+    `;
+
+    const rows = this.db.prepare(selectQuery).all(...tenant.params, limit, offset) as any[];
+    return rows.map(row => this.mapConversation(row));
+  }
+
+  public getConversationById(id: string, tenantId?: string): Conversation | null {
+    const tenant = this.tenantFilter(tenantId, 'c.tenant_id');
+    const selectQuery = `
+      SELECT c.*, (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) as message_count
+      FROM conversations c
+      WHERE c.id = ? AND ${tenant.sql}
+    `;
+
+    const row = this.db.prepare(selectQuery).get(id, ...tenant.params) as any;
+    return row ? this.mapConversation(row) : null;
+  }
+
+  public renameConversation(id: string, title: string, tenantId?: string): boolean {
+    const tenant = this.tenantFilter(tenantId);
+    const updateQuery = `UPDATE conversations SET title = ?, updated_at = ? WHERE id = ? AND ${tenant.sql}`;
+    const result = this.db.prepare(updateQuery).run(title, new Date().toISOString(), id, ...tenant.params);
+
+    return result.changes > 0;
+  }
+
+  public deleteConversation(id: string, tenantId?: string): boolean {
+    try {
+      const tenant = this.tenantFilter(tenantId);
+      // Messages are removed through ON DELETE CASCADE
+      const result = this.db.prepare(`DELETE FROM conversations WHERE id = ? AND ${tenant.sql}`).run(id, ...tenant.params);
+      return result.changes > 0;
+    } catch (error) {
+      logger.error('Error deleting conversation', { error });
+      return false;
+    }
+  }
+
+  public addConversationMessages(conversationId: string, messages: ConversationMessage[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO conversation_messages (id, conversation_id, role, content, timestamp, interaction_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const touch = this.db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?');
+
+    this.db.transaction(() => {
+      for (const message of messages) {
+        insert.run(
+          message.id,
+          conversationId,
+          message.role,
+          message.content,
+          message.timestamp,
+          message.interactionId || null
+        );
+      }
+      touch.run(new Date().toISOString(), conversationId);
+    })();
+  }
+
+  public getConversationMessages(conversationId: string): ConversationMessage[] {
+    const selectQuery = `
+      SELECT * FROM conversation_messages
+      WHERE conversation_id = ?
+      ORDER BY timestamp ASC, rowid ASC
+    `;
+
+    const rows = this.db.prepare(selectQuery).all(conversationId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      conversationId: row.conversation_id,
+      role: row.role,
+      content: row.content,
+      timestamp: row.timestamp,
+      interactionId: row.interaction_id || undefined
+    }));
+  }
+
+  private mapInteractionLog(row: any): InteractionLog {
+    return {
+      id: row.id,
+      task: row.task,
+      response: row.response,
+      status: row.status,
+      timestamp: row.timestamp,
+      processingTime: row.processing_time,
+      userAgent: row.user_agent,
+      ipAddress: row.ip_address,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      tenantId: row.tenant_id,
+      priority: row.priority || undefined,
+      model: row.model || undefined,
+      usage: row.total_tokens !== null && row.total_tokens !== undefined
+        ? { promptTokens: row.prompt_tokens, completionTokens: row.completion_tokens, totalTokens: row.total_tokens }
+        : undefined,
+      cost: row.cost ?? undefined,
+      ...(row.cached && { cached: true }),
+      requestId: row.request_id || undefined,
+      subject: row.subject || undefined,
+      deletedAt: row.deleted_at || undefined,
+      versionOf: row.version_of || undefined,
+      version: row.version,
+      ...(row.preferred && { preferred: true }),
+      batchId: row.batch_id || undefined
+    };
+  }
+
+  private mapPromptTemplate(row: any): PromptTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      version: row.version,
+      description: row.description || undefined,
+      systemTemplate: row.system_template,
+      userTemplate: row.user_template,
+      variables: JSON.parse(row.variables),
+      match: JSON.parse(row.match_rules),
+      priority: row.priority,
+      active: row.active === 1,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      title: row.title,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      messageCount: row.message_count,
+      tenantId: row.tenant_id,
+      subject: row.subject || undefined
+    };
+  }
+
+  public createJob(job: TaskJob): void {
+    const insertQuery = `
+      INSERT INTO task_jobs
+      (id, status, priority, priority_rank, request, user_agent, ip_address, created_at, tenant_id, subject,
+       request_id, traceparent)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    this.db.prepare(insertQuery).run(
+      job.id,
+      job.status,
+      job.priority,
+      JOB_PRIORITY_RANK[job.priority],
+      JSON.stringify(job.request),
+      job.userAgent || null,
+      job.ipAddress || null,
+      job.createdAt,
+      job.tenantId || DEFAULT_TENANT_ID,
+      job.subject || null,
+      job.requestId || null,
+      job.traceparent || null
+    );
+  }
+
+  public getJobById(id: string, tenantId?: string): TaskJob | null {
+    const tenant = this.tenantFilter(tenantId);
+    const row = this.db.prepare(`SELECT * FROM task_jobs WHERE id = ? AND ${tenant.sql}`).get(id, ...tenant.params) as any;
+    return row ? this.mapJob(row) : null;
+  }
+
+  public getJobs(status?: JobStatus, limit: number = 50, offset: number = 0, tenantId?: string): TaskJob[] {
+    const tenant = this.tenantFilter(tenantId);
+    const selectQuery = `
+      SELECT * FROM task_jobs
+      WHERE ${tenant.sql} ${status ? 'AND status = ?' : ''}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `;
+
+    const params = [...tenant.params, ...(status ? [status] : []), limit, offset];
+    const rows = this.db.prepare(selectQuery).all(...params) as any[];
+    return rows.map(row => this.mapJob(row));
+  }
+
+  // Atomically marks the highest-priority, oldest queued job as running, leased for `leaseMs` under
+  // `leaseToken`, and returns it
+  public claimNextJob(leaseToken: string, leaseMs: number): TaskJob | null {
+    const select = this.db.prepare(`
+      SELECT * FROM task_jobs
+      WHERE status = 'queued'
+      ORDER BY priority_rank DESC, created_at ASC, rowid ASC
+      LIMIT 1
+    `);
+    const update = this.db.prepare(`
+      UPDATE task_jobs SET status = 'running', started_at = ?, lease_expires_at = ?, lease_token = ?
+      WHERE id = ? AND status = 'queued'
+    `);
+
+    return this.db.transaction(() => {
+      const row = select.get() as any;
+      if (!row) return null;
+
+      const now = Date.now();
+      const startedAt = new Date(now).toISOString();
+      update.run(startedAt, new Date(now + leaseMs).toISOString(), leaseToken, row.id);
+      return this.mapJob({ ...row, status: 'running', started_at: startedAt });
+    })();
+  }
+
+  // Records the outcome of a running job under the lease it was claimed with. Jobs cancelled meanwhile keep
+  // their cancelled status, and jobs whose lease was lost are left to the worker that claimed them again.
+  public finishJob(id: string, leaseToken: string, status: 'completed' | 'failed', result?: any, error?: string): boolean {
+    const updateQuery = `
+      UPDATE task_jobs
+      SET status = ?, result = ?, error = ?, completed_at = ?, lease_expires_at = NULL
+      WHERE id = ? AND status = 'running' AND lease_token = ?
+    `;
+
+    const outcome = this.db.prepare(updateQuery).run(
+      status,
+      result ? JSON.stringify(result) : null,
+      error || null,
+      new Date().toISOString(),
+      id,
+      leaseToken
+    );
+    return outcome.changes > 0;
+  }
+
+  // Returns the status the job had when it was cancelled, or null when it had already finished
+  public cancelJob(id: string): 'queued' | 'running' | null {
+    const select = this.db.prepare(`SELECT status FROM task_jobs WHERE id = ? AND status IN ('queued', 'running')`);
+    const update = this.db.prepare(`UPDATE task_jobs SET status = 'cancelled', completed_at = ? WHERE id = ?`);
+
+    return this.db.transaction(() => {
+      const row = select.get(id) as any;
+      if (!row) return null;
+
+      update.run(new Date().toISOString(), id);
+      return row.status;
+    })();
+  }
+
+  // Replaces the stored request of a job that no longer needs it to run, such as with a redacted copy
+  public updateJobRequest(id: string, request: TaskRequest): void {
+    this.db.prepare('UPDATE task_jobs SET request = ? WHERE id = ?').run(JSON.stringify(request), id);
+  }
+
+  public countJobsByStatus(): Record<JobStatus, number> {
+    const rows = this.db.prepare('SELECT status, COUNT(*) as count FROM task_jobs GROUP BY status').all() as any[];
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+
+    rows.forEach(row => {
+      counts[row.status as JobStatus] = row.count;
+    });
+    return counts;
+  }
+
+  // Extends the leases this process still holds. Returns the IDs of jobs whose lease is gone, because they
+  // were cancelled or requeued and claimed again, so their worker can stop.
+  public renewJobLeases(leases: { id: string; leaseToken: string }[], leaseMs: number): string[] {
+    const update = this.db.prepare(`
+      UPDATE task_jobs SET lease_expires_at = ?
+      WHERE id = ? AND status = 'running' AND lease_token = ?
+    `);
+
+    return this.db.transaction(() => {
+      const leaseExpiresAt = new Date(Date.now() + leaseMs).toISOString();
+      return leases
+        .filter(lease => update.run(leaseExpiresAt, lease.id, lease.leaseToken).changes === 0)
+        .map(lease => lease.id);
+    })();
+  }
+
+  // Puts running jobs whose lease has expired, because the process running them died, back in the queue.
+  // Jobs claimed before leases were recorded have none and count as expired.
+  public requeueExpiredJobs(): number {
+    const updateQuery = `
+      UPDATE task_jobs SET status = 'queued', started_at = NULL, lease_expires_at = NULL, lease_token = NULL
+      WHERE status = 'running' AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+    `;
+    return this.db.prepare(updateQuery).run(new Date().toISOString()).changes;
+  }
+
+  private mapJob(row: any): TaskJob {
+    return {
+      id: row.id,
+      status: row.status,
+      priority: row.priority,
+      request: JSON.parse(row.request),
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error || undefined,
+      createdAt: row.created_at,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+      userAgent: row.user_agent || undefined,
+      ipAddress: row.ip_address || undefined,
+      tenantId: row.tenant_id,
+      subject: row.subject || undefined,
+      requestId: row.request_id || undefined,
+      traceparent: row.traceparent || undefined
+    };
+  }
+
+  // Stores a finished batch with its items and their inputs
+  public saveTaskBatch(batch: TaskBatch, results: TaskBatchResult[]): void {
+    const insertBatch = this.db.prepare(`
+      INSERT INTO task_batches
+      (id, tenant_id, format, total, succeeded, failed, created_at, completed_at, subject, request_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertItem = this.db.prepare(`
+      INSERT INTO task_batch_items (batch_id, position, status, log_id, error, input) VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      insertBatch.run(
+        batch.id,
+        batch.tenantId || DEFAULT_TENANT_ID,
+        batch.format,
+        batch.total,
+        batch.succeeded,
+        batch.failed,
+        batch.createdAt,
+        batch.completedAt,
+        batch.subject || null,
+        batch.requestId || null
+      );
+      results.forEach(result =>
+        insertItem.run(batch.id, result.index, result.status, result.logId || null, result.error || null, JSON.stringify(result.input))
+      );
+    })();
+  }
+
+  // Most recent first, without their items
+  public getTaskBatches(limit: number = 50, offset: number = 0, tenantId?: string): TaskBatch[] {
+    const tenant = this.tenantFilter(tenantId);
+    const rows = this.db.prepare(`
+      SELECT * FROM task_batches WHERE ${tenant.sql} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?
+    `).all(...tenant.params, limit, offset) as any[];
+    return rows.map(row => this.mapTaskBatch(row));
+  }
+
+  public getTaskBatchById(id: string, tenantId?: string): TaskBatch | null {
+    const tenant = this.tenantFilter(tenantId);
+    const row = this.db.prepare(`SELECT * FROM task_batches WHERE id = ? AND ${tenant.sql}`).get(id, ...tenant.params) as any;
+    if (!row) return null;
+
+    const items = this.getTaskBatchResults(id).map(({ input, response, ...item }) => item);
+    return { ...this.mapTaskBatch(row), items };
+  }
+
+  // Every item with its input and the response of its log, in input order. Logs that were deleted
+  // since leave their item without a response.
+  public getTaskBatchResults(id: string): TaskBatchResult[] {
+    const rows = this.db.prepare(`
+      SELECT i.*, l.response FROM task_batch_items i
+      LEFT JOIN interaction_logs l ON l.id = i.log_id AND l.deleted_at IS NULL
+      WHERE i.batch_id = ?
+      ORDER BY i.position
+    `).all(id) as any[];
+
+    return rows.map(row => ({
+      index: row.position,
+      status: row.status,
+      logId: row.log_id || undefined,
+      error: row.error || undefined,
+      input: JSON.parse(row.input),
+      response: row.response ?? undefined
+    }));
+  }
+
+  private mapTaskBatch(row: any): TaskBatch {
+    return {
+      id: row.id,
+      format: row.format,
+      total: row.total,
+      succeeded: row.succeeded,
+      failed: row.failed,
+      createdAt: row.created_at,
+      completedAt: row.completed_at,
+      tenantId: row.tenant_id,
+      subject: row.subject || undefined,
+      requestId: row.request_id || undefined
+    };
+  }
+
+  public createAttachment(attachment: Attachment, chunks: AttachmentChunk[]): void {
+    const insertAttachment = this.db.prepare(`
+      INSERT INTO attachments
+      (id, tenant_id, filename, format, size, tokens, chunk_count, created_at, subject, request_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertChunk = this.db.prepare(`
+      INSERT INTO attachment_chunks (attachment_id, position, content, tokens) VALUES (?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      insertAttachment.run(
+        attachment.id,
+        attachment.tenantId || DEFAULT_TENANT_ID,
+        attachment.filename,
+        attachment.format,
+        attachment.size,
+        attachment.tokens,
+        attachment.chunkCount,
+        attachment.createdAt,
+        attachment.subject || null,
+        attachment.requestId || null
+      );
+      chunks.forEach(chunk => insertChunk.run(attachment.id, chunk.index, chunk.content, chunk.tokens));
+    })();
+  }
+
+  // Most recent first
+  public getAttachments(limit: number = 50, offset: number = 0, tenantId?: string): Attachment[] {
+    const tenant = this.tenantFilter(tenantId);
+    const rows = this.db.prepare(`
+      SELECT * FROM attachments WHERE ${tenant.sql} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?
+    `).all(...tenant.params, limit, offset) as any[];
+    return rows.map(row => this.mapAttachment(row));
+  }
+
+  public getAttachmentById(id: string, tenantId?: string): Attachment | null {
+    const tenant = this.tenantFilter(tenantId);
+    const row = this.db.prepare(`SELECT * FROM attachments WHERE id = ? AND ${tenant.sql}`).get(id, ...tenant.params) as any;
+    return row ? this.mapAttachment(row) : null;
+  }
+
+  public getAttachmentChunks(attachmentId: string): AttachmentChunk[] {
+    const rows = this.db.prepare(`
+      SELECT position, content, tokens FROM attachment_chunks WHERE attachment_id = ? ORDER BY position
+    `).all(attachmentId) as any[];
+    return rows.map(row => ({ index: row.position, content: row.content, tokens: row.tokens }));
+  }
+
+  public deleteAttachment(id: string, tenantId?: string): boolean {
+    const tenant = this.tenantFilter(tenantId);
+    // Chunks are removed through ON DELETE CASCADE
+    return this.db.prepare(`DELETE FROM attachments WHERE id = ? AND ${tenant.sql}`).run(id, ...tenant.params).changes > 0;
+  }
+
+  private mapAttachment(row: any): Attachment {
+    return {
+      id: row.id,
+      filename: row.filename,
+      format: row.format,
+      size: row.size,
+      tokens: row.tokens,
+      chunkCount: row.chunk_count,
+      createdAt: row.created_at,
+      tenantId: row.tenant_id,
+      subject: row.subject || undefined,
+      requestId: row.request_id || undefined
+    };
+  }
+
+  public createApiKey(apiKey: ApiKey, keyHash: string): void {
+    const insertQuery = `
+      INSERT INTO api_keys (id, tenant_id, name, key_prefix, key_hash, role, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    this.db.prepare(insertQuery).run(
+      apiKey.id,
+      apiKey.tenantId,
+      apiKey.name,
+      apiKey.keyPrefix,
+      keyHash,
+      apiKey.role,
+      apiKey.createdAt
+    );
+  }
+
+  public getActiveApiKeyByHash(keyHash: string): ApiKey | null {
+    const row = this.db
+      .prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+      .get(keyHash) as any;
+
+    return row ? this.mapApiKey(row) : null;
+  }
+
+  public getApiKeys(): ApiKey[] {
+    const rows = this.db.prepare('SELECT * FROM api_keys ORDER BY created_at DESC').all() as any[];
+    return rows.map(row => this.mapApiKey(row));
+  }
+
+  public setApiKeyLimits(id: string, limits: Partial<UsageLimits>): boolean {
+    const updateQuery = 'UPDATE api_keys SET limits = ? WHERE id = ?';
+    const payload = Object.keys(limits).length > 0 ? JSON.stringify(limits) : null;
+
+    return this.db.prepare(updateQuery).run(payload, id).changes > 0;
+  }
+
+  public touchApiKey(id: string): void {
+    this.db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  }
+
+  public revokeApiKey(id: string): boolean {
+    const updateQuery = 'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL';
+    return this.db.prepare(updateQuery).run(new Date().toISOString(), id).changes > 0;
+  }
+
+  private mapApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      role: row.role,
+      limits: row.limits ? JSON.parse(row.limits) : undefined,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined
+    };
+  }
+
+  public createPromptTemplate(template: PromptTemplate): void {
+    const insertQuery = `
+      INSERT INTO prompt_templates
+      (id, name, version, description, system_template, user_template, variables, match_rules, priority, active, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?)
+    `;
+
+    this.db.transaction(() => {
+      this.db.prepare(insertQuery).run(
+        template.id,
+        template.name,
+        template.version,
+        template.description || null,
+        template.systemTemplate,
+        template.userTemplate,
+        JSON.stringify(template.variables),
+        JSON.stringify(template.match),
+        template.priority,
+        template.createdAt
+      );
+
+      if (template.active) {
+        this.activatePromptTemplate(template.name, template.version);
+      }
+    })();
+  }
+
+  // Active versions only, in the order they are tried when matching a task
+  public getActivePromptTemplates(): PromptTemplate[] {
+    const rows = this.db
+      .prepare('SELECT * FROM prompt_templates WHERE active = 1 ORDER BY priority DESC, name')
+      .all() as any[];
+
+    return rows.map(row => this.mapPromptTemplate(row));
+  }
+
+  // Without a version, returns the active version
+  public getPromptTemplate(name: string, version?: number): PromptTemplate | null {
+    const row = version === undefined
+      ? this.db.prepare('SELECT * FROM prompt_templates WHERE name = ? AND active = 1').get(name)
+      : this.db.prepare('SELECT * FROM prompt_templates WHERE name = ? AND version = ?').get(name, version);
+
+    return row ? this.mapPromptTemplate(row) : null;
+  }
+
+  public getPromptTemplateVersions(name: string): PromptTemplate[] {
+    const rows = this.db
+      .prepare('SELECT * FROM prompt_templates WHERE name = ? ORDER BY version DESC')
+      .all(name) as any[];
+
+    return rows.map(row => this.mapPromptTemplate(row));
+  }
+
+  public getLatestPromptTemplateVersion(name: string): number {
+    const row = this.db
+      .prepare('SELECT MAX(version) as version FROM prompt_templates WHERE name = ?')
+      .get(name) as { version: number | null };
+
+    return row.version || 0;
+  }
+
+  public activatePromptTemplate(name: string, version: number): boolean {
+    return this.db.transaction(() => {
+      const exists = this.db.prepare('SELECT 1 FROM prompt_templates WHERE name = ? AND version = ?').get(name, version);
+      if (!exists) return false;
+
+      this.db.prepare('UPDATE prompt_templates SET active = 0 WHERE name = ? AND active = 1').run(name);
+      this.db.prepare('UPDATE prompt_templates SET active = 1 WHERE name = ? AND version = ?').run(name, version);
+      return true;
+    })();
+  }
+
+  // Deletes every version of the template
+  public deletePromptTemplate(name: string): boolean {
+    return this.db.prepare('DELETE FROM prompt_templates WHERE name = ?').run(name).changes > 0;
+  }
+
+  public recordUsage(record: UsageRecord): void {
+    const insertQuery = `
+      INSERT INTO usage_records
+      (id, subject, tenant_id, interaction_id, model, prompt_tokens, completion_tokens, total_tokens, cost, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    this.db.prepare(insertQuery).run(
+      record.id,
+      record.subject,
+      record.tenantId || null,
+      record.interactionId || null,
+      record.model,
+      record.usage.promptTokens,
+      record.usage.completionTokens,
+      record.usage.totalTokens,
+      record.cost,
+      record.timestamp
+    );
+  }
+
+  public getUsageTotals(subject: string, since: string): { requests: number; tokens: number; cost: number } {
+    const selectQuery = `
+      SELECT COUNT(*) as requests, COALESCE(SUM(total_tokens), 0) as tokens, COALESCE(SUM(cost), 0) as cost
+      FROM usage_records
+      WHERE subject = ? AND timestamp >= ?
+    `;
+
+    return this.db.prepare(selectQuery).get(subject, since) as { requests: number; tokens: number; cost: number };
+  }
+
+  public createWebhookSubscription(subscription: WebhookSubscription, secret: string): void {
+    const insertQuery = `
+      INSERT INTO webhook_subscriptions (id, tenant_id, url, events, secret, description, active, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    this.db.prepare(insertQuery).run(
+      subscription.id,
+      subscription.tenantId,
+      subscription.url,
+      JSON.stringify(subscription.events),
+      secret,
+      subscription.description || null,
+      subscription.active ? 1 : 0,
+      subscription.createdAt,
+      subscription.updatedAt
+    );
+  }
+
+  public getWebhookSubscriptions(tenantId?: string): WebhookSubscription[] {
+    const tenant = this.tenantFilter(tenantId);
+    const rows = this.db
+      .prepare(`SELECT * FROM webhook_subscriptions WHERE ${tenant.sql} ORDER BY created_at DESC`)
+      .all(...tenant.params) as any[];
+
+    return rows.map(row => this.mapWebhookSubscription(row));
+  }
+
+  public getWebhookSubscriptionById(id: string, tenantId?: string): WebhookSubscription | null {
+    const tenant = this.tenantFilter(tenantId);
+    const row = this.db
+      .prepare(`SELECT * FROM webhook_subscriptions WHERE id = ? AND ${tenant.sql}`)
+      .get(id, ...tenant.params) as any;
+
+    return row ? this.mapWebhookSubscription(row) : null;
+  }
+
+  // Kept out of WebhookSubscription so it is never returned by accident
+  public getWebhookSecret(subscriptionId: string): string | null {
+    const row = this.db.prepare('SELECT secret FROM webhook_subscriptions WHERE id = ?').get(subscriptionId) as any;
+    return row ? row.secret : null;
+  }
+
+  // Active subscriptions to the event; without a tenant, those of every tenant
+  public getWebhookSubscriptionsForEvent(event: WebhookEvent, tenantId?: string): WebhookSubscription[] {
+    const tenant = this.tenantFilter(tenantId);
+    const selectQuery = `
+      SELECT * FROM webhook_subscriptions
+      WHERE active = 1 AND ${tenant.sql} AND EXISTS (SELECT 1 FROM json_each(events) WHERE value = ?)
+    `;
+
+    const rows = this.db.prepare(selectQuery).all(...tenant.params, event) as any[];
+    return rows.map(row => this.mapWebhookSubscription(row));
+  }
+
+  public updateWebhookSubscription(id: string, changes: WebhookSubscriptionInput, tenantId?: string): boolean {
+    const columns: Record<string, string | number | null> = {
+      ...(changes.url !== undefined && { url: changes.url }),
+      ...(changes.events !== undefined && { events: JSON.stringify(changes.events) }),
+      ...(changes.description !== undefined && { description: changes.description || null }),
+      ...(changes.active !== undefined && { active: changes.active ? 1 : 0 }),
+      updated_at: new Date().toISOString()
+    };
+
+    const tenant = this.tenantFilter(tenantId);
+    const assignments = Object.keys(columns).map(column => `${column} = ?`).join(', ');
+    const updateQuery = `UPDATE webhook_subscriptions SET ${assignments} WHERE id = ? AND ${tenant.sql}`;
+
+    return this.db.prepare(updateQuery).run(...Object.values(columns), id, ...tenant.params).changes > 0;
+  }
+
+  // Its deliveries are deleted with it
+  public deleteWebhookSubscription(id: string, tenantId?: string): boolean {
+    const tenant = this.tenantFilter(tenantId);
+    return this.db
+      .prepare(`DELETE FROM webhook_subscriptions WHERE id = ? AND ${tenant.sql}`)
+      .run(id, ...tenant.params).changes > 0;
+  }
+
+  public createWebhookDeliveries(deliveries: WebhookDelivery[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhook_deliveries
+      (id, subscription_id, event, payload, status, attempts, next_attempt_at, redelivery_of, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const delivery of deliveries) {
+        stmt.run(
+          delivery.id,
+          delivery.subscriptionId,
+          delivery.event,
+          JSON.stringify(delivery.payload),
+          delivery.status,
+          JSON.stringify(delivery.attempts),
+          delivery.nextAttemptAt || null,
+          delivery.redeliveryOf || null,
+          delivery.createdAt
+        );
+      }
+    })();
+  }
+
+  public getWebhookDeliveryById(id: string, tenantId?: string): WebhookDelivery | null {
+    const tenant = this.tenantFilter(tenantId, 's.tenant_id');
+    const selectQuery = `
+      SELECT d.* FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON s.id = d.subscription_id
+      WHERE d.id = ? AND ${tenant.sql}
+    `;
+
+    const row = this.db.prepare(selectQuery).get(id, ...tenant.params) as any;
+    return row ? this.mapWebhookDelivery(row) : null;
+  }
+
+  public getWebhookDeliveries(
+    subscriptionId: string,
+    status?: WebhookDeliveryStatus,
+    limit: number = 50,
+    offset: number = 0
+  ): WebhookDelivery[] {
+    const selectQuery = `
+      SELECT * FROM webhook_deliveries
+      WHERE subscription_id = ? ${status ? 'AND status = ?' : ''}
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT ? OFFSET ?
+    `;
+
+    const params = [subscriptionId, ...(status ? [status] : []), limit, offset];
+    const rows = this.db.prepare(selectQuery).all(...params) as any[];
+    return rows.map(row => this.mapWebhookDelivery(row));
+  }
+
+  // Atomically marks up to `limit` pending deliveries whose next attempt is due as delivering, leased for
+  // `leaseMs`, and returns them. Deliveries queued before their subscription was disabled wait until it is
+  // enabled again.
+  public claimDueWebhookDeliveries(limit: number, leaseMs: number): WebhookDelivery[] {
+    const select = this.db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+        AND subscription_id IN (SELECT id FROM webhook_subscriptions WHERE active = 1)
+      ORDER BY next_attempt_at ASC, rowid ASC
+      LIMIT ?
+    `);
+    const update = this.db.prepare(`
+      UPDATE webhook_deliveries SET status = 'delivering', lease_expires_at = ? WHERE id = ? AND status = 'pending'
+    `);
+
+    return this.db.transaction(() => {
+      const now = Date.now();
+      const leaseExpiresAt = new Date(now + leaseMs).toISOString();
+      const rows = select.all(new Date(now).toISOString(), limit) as any[];
+      rows.forEach(row => update.run(leaseExpiresAt, row.id));
+      return rows.map(row => this.mapWebhookDelivery({ ...row, status: 'delivering' }));
+    })();
+  }
+
+  // Records the attempts so far; a delivery that will be retried goes back to pending until nextAttemptAt
+  public updateWebhookDelivery(
+    id: string,
+    status: WebhookDeliveryStatus,
+    attempts: WebhookDeliveryAttempt[],
+    nextAttemptAt?: string
+  ): void {
+    const updateQuery = `
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, next_attempt_at = ?, completed_at = ?, lease_expires_at = NULL
+      WHERE id = ?
+    `;
+
+    const finished = status === 'succeeded' || status === 'failed';
+    this.db.prepare(updateQuery).run(
+      status,
+      JSON.stringify(attempts),
+      nextAttemptAt || null,
+      finished ? new Date().toISOString() : null,
+      id
+    );
+  }
+
+  public renewWebhookDeliveryLeases(ids: string[], leaseMs: number): void {
+    if (ids.length === 0) return;
+
+    const updateQuery = `
+      UPDATE webhook_deliveries SET lease_expires_at = ?
+      WHERE id IN (${ids.map(() => '?').join(', ')}) AND status = 'delivering'
+    `;
+    this.db.prepare(updateQuery).run(new Date(Date.now() + leaseMs).toISOString(), ...ids);
+  }
+
+  // Puts deliveries whose lease has expired, because the process sending them died, back in line.
+  // Deliveries claimed before leases were recorded have none and count as expired.
+  public requeueExpiredWebhookDeliveries(): number {
+    const updateQuery = `
+      UPDATE webhook_deliveries SET status = 'pending', lease_expires_at = NULL
+      WHERE status = 'delivering' AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+    `;
+    return this.db.prepare(updateQuery).run(new Date().toISOString()).changes;
+  }
+
+  // Deletes what was stored before `deleteBefore`, anonymises the IP addresses (and IP-based subjects)
+  // of what was stored before `anonymizeBefore` and purges logs trashed before `purgeTrashBefore`.
+  // Queued and running jobs and undelivered webhooks are kept however old; usage records are only
+  // anonymised, since quotas are counted from them.
+  public applyRetention(deleteBefore?: string, anonymizeBefore?: string, purgeTrashBefore?: string): RetentionSweep {
+    return this.db.transaction(() => {
+      const sweep: RetentionSweep = {
+        deleted: { interactionLogs: 0, jobs: 0, conversations: 0, webhookDeliveries: 0, batches: 0, attachments: 0 },
+        anonymized: { interactionLogs: 0, jobs: 0, usageRecords: 0, feedback: 0, batches: 0, attachments: 0 },
+        purged: { interactionLogs: 0 }
+      };
+
+      if (purgeTrashBefore) {
+        sweep.purged.interactionLogs = this.purgeInteractionLogs(undefined, undefined, purgeTrashBefore);
+      }
+
+      if (deleteBefore) {
+        sweep.deleted.interactionLogs = this.db.prepare('DELETE FROM interaction_logs WHERE timestamp < ?').run(deleteBefore).changes;
+        sweep.deleted.jobs = this.db.prepare(`
+          DELETE FROM task_jobs
+          WHERE status IN ('completed', 'failed', 'cancelled') AND COALESCE(completed_at, created_at) < ?
+        `).run(deleteBefore).changes;
+        sweep.deleted.conversations = this.db.prepare('DELETE FROM conversations WHERE updated_at < ?').run(deleteBefore).changes;
+        sweep.deleted.webhookDeliveries = this.db.prepare(`
+          DELETE FROM webhook_deliveries WHERE status IN ('succeeded', 'failed') AND created_at < ?
+        `).run(deleteBefore).changes;
+        sweep.deleted.batches = this.db.prepare('DELETE FROM task_batches WHERE created_at < ?').run(deleteBefore).changes;
+        sweep.deleted.attachments = this.db.prepare('DELETE FROM attachments WHERE created_at < ?').run(deleteBefore).changes;
+      }
+
+      if (anonymizeBefore) {
+        const anonymize = (table: string, timestampColumn: string) => this.db.prepare(`
+          UPDATE ${table}
+          SET ip_address = anonymize_ip(ip_address), subject = anonymize_subject(subject)
+          WHERE ${timestampColumn} < ?
+            AND (ip_address IS NOT anonymize_ip(ip_address) OR subject IS NOT anonymize_subject(subject))
+        `).run(anonymizeBefore).changes;
+
+        sweep.anonymized.interactionLogs = anonymize('interaction_logs', 'timestamp');
+        sweep.anonymized.jobs = anonymize('task_jobs', 'created_at');
+        sweep.anonymized.usageRecords = this.db.prepare(`
+          UPDATE usage_records SET subject = anonymize_subject(subject)
+          WHERE timestamp < ? AND subject IS NOT anonymize_subject(subject)
+        `).run(anonymizeBefore).changes;
+        sweep.anonymized.feedback = this.db.prepare(`
+          UPDATE interaction_feedback SET subject = anonymize_subject(subject)
+          WHERE updated_at < ? AND subject IS NOT anonymize_subject(subject)
+        `).run(anonymizeBefore).changes;
+        const anonymizeSubjects = (table: string) => this.db.prepare(`
+          UPDATE ${table} SET subject = anonymize_subject(subject)
+          WHERE created_at < ? AND subject IS NOT anonymize_subject(subject)
+        `).run(anonymizeBefore).changes;
+
+        sweep.anonymized.batches = anonymizeSubjects('task_batches');
+        sweep.anonymized.attachments = anonymizeSubjects('attachments');
+      }
+
+      return sweep;
+    })();
+  }
+
+  // Deletes everything stored for a usage subject: interactions, conversations (with their messages),
+  // jobs, batches (with their items), attachments (with their chunks), usage records, feedback, and
+  // webhook deliveries that carry one of its interactions
+  public eraseSubject(subject: string, tenantId?: string): SubjectErasure {
+    return this.db.transaction(() => {
+      const tenant = this.tenantFilter(tenantId);
+      const subscriptionTenant = this.tenantFilter(tenantId, 's.tenant_id');
+
+      // Before the interactions, since log.deleted payloads only carry the interaction id
+      const webhookDeliveries = this.db.prepare(`
+        DELETE FROM webhook_deliveries
+        WHERE subscription_id IN (SELECT s.id FROM webhook_subscriptions s WHERE ${subscriptionTenant.sql})
+          AND (json_extract(payload, '$.data.subject') = ?
+            OR json_extract(payload, '$.data.id') IN (SELECT id FROM interaction_logs WHERE subject = ? AND ${tenant.sql}))
+      `).run(...subscriptionTenant.params, subject, subject, ...tenant.params).changes;
+
+      // Before the interactions too, whose own feedback goes with them
+      const feedback = this.db.prepare(`
+        DELETE FROM interaction_feedback
+        WHERE subject = ? AND log_id IN (SELECT id FROM interaction_logs WHERE ${tenant.sql})
+      `).run(subject, ...tenant.params).changes;
+
+      const erase = (table: string, filter = tenant) =>
+        this.db.prepare(`DELETE FROM ${table} WHERE subject = ? AND ${filter.sql}`).run(subject, ...filter.params).changes;
+
+      return {
+        subject,
+        webhookDeliveries,
+        interactionLogs: erase('interaction_logs'),
+        conversations: erase('conversations'),
+        jobs: erase('task_jobs'),
+        batches: erase('task_batches'),
+        attachments: erase('attachments'),
+        // Usage recorded outside a tenant (by the CLI) belongs to the default one
+        usageRecords: erase('usage_records', this.tenantFilter(tenantId, `COALESCE(tenant_id, '${DEFAULT_TENANT_ID}')`)),
+        feedback
+      };
+    })();
+  }
+
+  public recordAuditEvent(event: AuditEvent): void {
+    const insertQuery = `
+      INSERT INTO audit_events (id, timestamp, tenant_id, actor, ip_address, request_id, action, target, details)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    this.db.prepare(insertQuery).run(
+      event.id,
+      event.timestamp,
+      event.tenantId || null,
+      event.actor,
+      event.ipAddress || null,
+      event.requestId || null,
+      event.action,
+      event.target || null,
+      event.details ? JSON.stringify(event.details) : null
+    );
+  }
+
+  // Newest first
+  public getAuditEvents(query: AuditQuery, tenantId?: string): AuditEvent[] {
+    const tenant = this.tenantFilter(tenantId);
+    const clauses = [tenant.sql];
+    const params: (string | number)[] = [...tenant.params];
+
+    if (query.action?.length) {
+      clauses.push(`action IN (${query.action.map(() => '?').join(', ')})`);
+      params.push(...query.action);
+    }
+    for (const [column, value] of [['actor', query.actor], ['target', query.target]] as const) {
+      if (value) {
+        clauses.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+    if (query.since) {
+      clauses.push('timestamp >= ?');
+      params.push(query.since);
+    }
+    if (query.until) {
+      clauses.push('timestamp < ?');
+      params.push(query.until);
+    }
+
+    const selectQuery = `
+      SELECT * FROM audit_events
+      WHERE ${clauses.join(' AND ')}
+      ORDER BY timestamp DESC, id DESC
+      LIMIT ? OFFSET ?
+    `;
+
+    const rows = this.db.prepare(selectQuery).all(...params, query.limit || 50, query.offset || 0) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      tenantId: row.tenant_id || undefined,
+      actor: row.actor,
+      ipAddress: row.ip_address || undefined,
+      requestId: row.request_id || undefined,
+      action: row.action,
+      target: row.target || undefined,
+      details: row.details ? JSON.parse(row.details) : undefined
+    }));
+  }
+
+  private mapWebhookSubscription(row: any): WebhookSubscription {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      url: row.url,
+      events: JSON.parse(row.events),
+      description: row.description || undefined,
+      active: row.active === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapWebhookDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      event: row.event,
+      payload: JSON.parse(row.payload),
+      status: row.status,
+      attempts: JSON.parse(row.attempts),
+      nextAttemptAt: row.next_attempt_at || undefined,
+      redeliveryOf: row.redelivery_of || undefined,
+      createdAt: row.created_at,
+      completedAt: row.completed_at || undefined
+    };
+  }
+
   public close(): void {
     this.db.close();
   }
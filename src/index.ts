@@ -3,8 +3,23 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { setupSwagger } from './config/swagger';
-import taskRoutes from './routes/taskRoutes';
-import healthRoutes from './routes/healthRoutes';
+import { config } from './config';
+import { authenticate } from './middleware/auth';
+import { rateLimit } from './middleware/rateLimit';
+import { httpMetrics } from './middleware/metrics';
+import { requestContext, REQUEST_ID_HEADER } from './middleware/requestContext';
+import { logger } from './services/logger';
+import { flushSpans } from './services/tracing';
+import taskApi from './routes/taskRoutes';
+import healthApi from './routes/healthRoutes';
+import conversationApi from './routes/conversationRoutes';
+import attachmentApi from './routes/attachmentRoutes';
+import usageApi from './routes/usageRoutes';
+import templateApi from './routes/templateRoutes';
+import webhookApi from './routes/webhookRoutes';
+import privacyApi from './routes/privacyRoutes';
+import auditApi from './routes/auditRoutes';
+import metricsApi from './routes/metricsRoutes';
 
 // Load environment variables
 dotenv.config();
@@ -14,22 +29,24 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(helmet());
-app.use(cors());
-app.use(express.json({ limit: '10mb' }));
+app.use(cors({ exposedHeaders: [REQUEST_ID_HEADER] }));
+app.use(requestContext);
 app.use(express.urlencoded({ extended: true }));
-
-// Request logging middleware
-app.use((req, res, next) => {
-  console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
-  next();
-});
+app.use(httpMetrics);
 
 // Routes
-app.use('/api/tasks', taskRoutes);
-app.use('/api/health', healthRoutes);
+const apis = [taskApi, conversationApi, attachmentApi, templateApi, webhookApi, usageApi, privacyApi, auditApi, healthApi, metricsApi];
+
+for (const api of apis) {
+  if (api.options.secured) {
+    app.use(api.basePath, authenticate, rateLimit, api.router);
+  } else {
+    app.use(api.basePath, api.router);
+  }
+}
 
-// Setup Swagger documentation
-setupSwagger(app);
+// Setup Swagger documentation, generated from the routes' schemas
+setupSwagger(app, apis);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -40,7 +57,15 @@ app.get('/', (req, res) => {
     health: '/api/health',
     endpoints: {
       tasks: '/api/tasks',
-      health: '/api/health'
+      conversations: '/api/conversations',
+      attachments: '/api/attachments',
+      usage: '/api/usage',
+      templates: '/api/templates',
+      webhooks: '/api/webhooks',
+      privacy: '/api/privacy',
+      audit: '/api/audit',
+      health: '/api/health',
+      metrics: '/metrics'
     }
   });
 });
@@ -56,7 +81,7 @@ app.use('*', (req, res) => {
 
 // Error handling middleware
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', error);
+  logger.error('Unhandled error', { error });
   
   res.status(500).json({
     success: false,
@@ -65,26 +90,32 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
   });
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  process.exit(0);
-});
+// Graceful shutdown, sending the spans not yet exported first
+const shutdown = (signal: string) => {
+  logger.info('Shutting down gracefully', { signal });
+  flushSpans().finally(() => process.exit(0));
+};
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  process.exit(0);
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 AI Assistant Module API running on port ${PORT}`);
-  console.log(`📚 API Documentation: http://localhost:${PORT}/api-docs`);
-  console.log(`🏥 Health Check: http://localhost:${PORT}/api/health`);
-  console.log(`🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
-  
-  if (!process.env.OPENAI_API_KEY) {
-    console.log('⚠️  No OpenAI API key found. Running in simulation mode.');
+  logger.info('AI Assistant Module API started', {
+    port: Number(PORT),
+    documentation: `http://localhost:${PORT}/api-docs`,
+    health: `http://localhost:${PORT}/api/health`,
+    environment: process.env.NODE_ENV || 'development',
+    provider: config.llm.defaultProvider,
+    traceExport: config.tracing.endpoint || 'disabled'
+  });
+
+  if (!config.auth.enabled) {
+    logger.warn('Authentication is disabled. All requests act as admin of the default tenant.');
+  }
+
+  if (config.llm.defaultProvider === 'simulator') {
+    logger.warn('No LLM provider configured. Running in simulation mode.');
   }
 });
 
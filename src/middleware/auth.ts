@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyService } from '../services/apiKeyService';
+import { DEFAULT_TENANT_ID } from '../database/schema';
+import { ApiKeyRole, AuditActor, AuthContext } from '../types';
+import { config } from '../config';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const apiKeyService = new ApiKeyService();
+
+// Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`
+const extractApiKey = (req: Request): string | undefined => {
+  const header = req.get('Authorization');
+
+  if (header && header.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim();
+  }
+  return req.get('X-API-Key')?.trim();
+};
+
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  if (!config.auth.enabled) {
+    req.auth = { tenantId: DEFAULT_TENANT_ID, role: 'admin' };
+    return next();
+  }
+
+  const key = extractApiKey(req);
+
+  if (!key) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      message: 'Provide an API key as a Bearer token or in the X-API-Key header'
+    });
+  }
+
+  const apiKey = apiKeyService.verify(key);
+
+  if (!apiKey) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid or revoked API key'
+    });
+  }
+
+  req.auth = { tenantId: apiKey.tenantId, role: apiKey.role, apiKeyId: apiKey.id, limits: apiKey.limits };
+  next();
+};
+
+export const requireRole = (role: ApiKeyRole) => (req: Request, res: Response, next: NextFunction) => {
+  if (req.auth?.role !== role) {
+    return res.status(403).json({
+      success: false,
+      error: `This operation requires the ${role} role`
+    });
+  }
+  next();
+};
+
+// Settings shared by every tenant, such as prompt templates, can only be changed by admins of the default tenant
+export const requireGlobalAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.auth?.role !== 'admin' || req.auth.tenantId !== DEFAULT_TENANT_ID) {
+    return res.status(403).json({
+      success: false,
+      error: `This operation requires an admin key of the ${DEFAULT_TENANT_ID} tenant`
+    });
+  }
+  next();
+};
+
+// Tenant of the authenticated caller; only valid on routes mounted behind `authenticate`
+export const tenantOf = (req: Request): string => {
+  if (!req.auth) {
+    throw new Error('Request has not been authenticated');
+  }
+  return req.auth.tenantId;
+};
+
+// Who usage is counted against: the API key, or the client address when auth is disabled
+export const subjectOf = (req: Request): string =>
+  req.auth?.apiKeyId ? `key:${req.auth.apiKeyId}` : `ip:${req.ip}`;
+
+// Who performed an audited operation, as recorded in the audit trail
+export const auditActorOf = (req: Request): AuditActor => ({
+  actor: subjectOf(req),
+  ipAddress: req.ip,
+  tenantId: tenantOf(req)
+});
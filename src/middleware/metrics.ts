@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequestsTotal } from '../services/metrics';
+
+const METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+// The route pattern that handled the request, e.g. /api/tasks/logs/:id, never the URL itself.
+// Requests turned away by middleware (401, 429) are labelled with the router's mount path, and
+// requests nothing handled share a single label.
+export const routeOf = (req: Request, res: Response): string => {
+  if (req.route) {
+    const path = req.route.path === '/' ? '' : req.route.path;
+    return `${req.baseUrl}${path}` || '/';
+  }
+  return res.statusCode === 404 || !req.baseUrl ? 'unmatched' : req.baseUrl;
+};
+
+// Counts and times every request once its response has been sent
+export const httpMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const end = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const labels = {
+      method: METHODS.has(req.method) ? req.method : 'OTHER',
+      route: routeOf(req, res),
+      status: String(res.statusCode)
+    };
+    end(labels);
+    httpRequestsTotal.inc(labels);
+  });
+  next();
+};
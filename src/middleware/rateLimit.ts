@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import { RateLimiter, RateLimitResult } from '../services/rateLimiter';
+import { UsageService } from '../services/usageService';
+import { subjectOf } from './auth';
+
+const rateLimiter = new RateLimiter();
+const usageService = new UsageService();
+
+// Tasks started by a request that would take the caller over a limit; the Retry-After header is already set
+export class RateLimitError extends Error {
+  public readonly statusCode = 429;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Counts `cost` requests against the caller's per-minute limit and sets the rate limit headers, and the
+// Retry-After header when they are refused. Null when the caller has no limit.
+const hit = (req: Request, res: Response, cost: number): RateLimitResult | null => {
+  const limits = usageService.resolveLimits(req.auth?.limits);
+  if (limits.requestsPerMinute <= 0) return null;
+
+  const result = rateLimiter.hit(subjectOf(req), limits.requestsPerMinute, cost);
+
+  res.set('X-RateLimit-Limit', String(result.limit));
+  res.set('X-RateLimit-Remaining', String(result.remaining));
+  res.set('X-RateLimit-Reset', String(Math.ceil(result.resetAt / 1000)));
+
+  if (!result.allowed) {
+    res.set('Retry-After', String(Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000))));
+  }
+  return result;
+};
+
+// Per-minute request limit; must run after `authenticate` so per-key limits are known
+export const rateLimit = (req: Request, res: Response, next: NextFunction) => {
+  const result = hit(req, res, 1);
+
+  if (result && !result.allowed) {
+    return res.status(429).json({
+      success: false,
+      error: 'Rate limit exceeded',
+      message: `Limit of ${result.limit} requests per minute reached`
+    });
+  }
+  next();
+};
+
+// Counts the tasks a request runs, such as the items of a batch, as requests of their own before any
+// of them starts. The request itself was counted by `rateLimit`. Throws RateLimitError, counting none
+// of them, when they do not all fit in what is left of the minute.
+export const chargeTasks = (req: Request, res: Response, tasks: number): void => {
+  const result = tasks > 1 ? hit(req, res, tasks - 1) : null;
+
+  if (result && !result.allowed) {
+    throw new RateLimitError(
+      `${tasks} tasks do not fit in the ${result.remaining + 1} requests left of the limit of ${result.limit} per minute`
+    );
+  }
+};
+
+// Why the caller may not start another task, once a daily or monthly quota has been used up
+export const quotaExceeded = (req: Request): string | undefined => {
+  const check = usageService.checkQuota(subjectOf(req), usageService.resolveLimits(req.auth?.limits));
+  return check.exceeded && `The ${check.exceeded.period} ${check.exceeded.metric} quota has been used up`;
+};
+
+// Rejects new tasks once a daily or monthly token/cost quota is used up
+export const enforceQuota = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const check = usageService.checkQuota(subjectOf(req), usageService.resolveLimits(req.auth?.limits));
+
+    for (const period of check.usage) {
+      const label = period.period === 'daily' ? 'Daily' : 'Monthly';
+      if (period.tokenLimit > 0) {
+        res.set(`X-Quota-${label}-Tokens-Remaining`, String(Math.max(0, period.tokenLimit - period.tokens)));
+      }
+      if (period.costLimit > 0) {
+        res.set(`X-Quota-${label}-Cost-Remaining`, Math.max(0, period.costLimit - period.cost).toFixed(6));
+      }
+    }
+
+    if (!check.allowed && check.exceeded) {
+      res.set('Retry-After', String(check.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        error: 'Quota exceeded',
+        message: `The ${check.exceeded.period} ${check.exceeded.metric} quota has been used up`
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { withContext } from '../services/context';
+import { logger } from '../services/logger';
+import { parseTraceparent, startSpan, withSpan } from '../services/tracing';
+import { routeOf } from './metrics';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Caller-supplied IDs are kept when they are short and free of anything that could break a log line
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Gives every request an ID, the caller's X-Request-Id when it sends a usable one, and echoes it back.
+// The rest of the request runs in a server span that continues the caller's trace (traceparent header),
+// so every log line and provider call made while handling it carries both. One line is logged per request.
+export const requestContext = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : uuidv4();
+  req.requestId = requestId;
+  const startTime = Date.now();
+  // Routers rewrite req.path while they handle the request, so it is read once up front
+  const path = req.path;
+  const span = startSpan(req.method, {
+    kind: 'server',
+    parent: parseTraceparent(req.get('traceparent')),
+    attributes: { 'http.request.method': req.method, 'url.path': path, 'request.id': requestId }
+  });
+
+  res.set(REQUEST_ID_HEADER, requestId);
+
+  res.on('finish', () => {
+    const route = routeOf(req, res);
+    span.name = `${req.method} ${route}`;
+    span.setAttributes({ 'http.route': route, 'http.response.status_code': res.statusCode });
+    if (res.statusCode >= 500) {
+      span.setError(`Responded with status ${res.statusCode}`);
+    }
+    span.end();
+
+    withContext({ requestId, span: span.context }, () => {
+      logger[res.statusCode >= 500 ? 'error' : 'info']('Request completed', {
+        method: req.method,
+        path,
+        route,
+        status: res.statusCode,
+        durationMs: Date.now() - startTime
+      });
+    });
+  });
+
+  withContext({ requestId }, () => withSpan(span, next));
+};
@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { JsonSchema, RouteSpec, ValidationIssue } from '../types';
+
+type Location = ValidationIssue['location'];
+
+// Formats such as date-time are documentation only; handlers parse dates themselves
+const bodyValidator = new Ajv({ allErrors: true, strict: false, validateFormats: false, useDefaults: true });
+
+// Path and query values arrive as strings, so they are coerced to the declared types
+const stringValidator = new Ajv({
+  allErrors: true,
+  strict: false,
+  validateFormats: false,
+  useDefaults: true,
+  coerceTypes: 'array'
+});
+
+// Rejects requests whose params, query or body do not match the route's schemas. Coerced values and
+// defaults are written back to the request, so handlers can rely on the declared types.
+export const validate = (spec: RouteSpec): RequestHandler | undefined => {
+  const validators: [Location, ValidateFunction, JsonSchema][] = [];
+
+  if (spec.params) validators.push(['params', stringValidator.compile(spec.params), spec.params]);
+  if (spec.query) validators.push(['query', stringValidator.compile(spec.query), spec.query]);
+  if (spec.body) validators.push(['body', bodyValidator.compile(spec.body), spec.body]);
+
+  if (validators.length === 0) return undefined;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: ValidationIssue[] = [];
+
+    for (const [location, validator, schema] of validators) {
+      if (location === 'query') {
+        joinRepeatedParams(req.query as Record<string, unknown>, schema);
+      }
+      if (location === 'body' && req.body === undefined) {
+        req.body = {};
+      }
+
+      if (!validator(req[location])) {
+        issues.push(...(validator.errors || []).map(error => toIssue(location, error)));
+      }
+    }
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: issues.map(issue => `${issue.path} ${issue.message}`).join('; '),
+        details: issues
+      });
+    }
+    next();
+  };
+};
+
+// Checks a value that does not arrive as a request of its own, such as one item of a batch. Returns the
+// problems as one message, with paths starting at `name`, or undefined when the value matches.
+export const schemaErrors = (schema: JsonSchema, value: unknown, name: string): string | undefined => {
+  // Ajv caches compiled schemas by object, so checking many values against one schema compiles it once
+  const validator = bodyValidator.compile(schema);
+  if (validator(value)) return undefined;
+
+  return (validator.errors || [])
+    .map(error => toIssue('body', error))
+    .map(issue => `${name}${issue.path.slice('body'.length)} ${issue.message}`)
+    .join('; ');
+};
+
+// Repeated parameters (?status=error&status=aborted) are treated like a comma-separated list
+// unless the schema declares an array
+const joinRepeatedParams = (query: Record<string, unknown>, schema: JsonSchema): void => {
+  for (const [name, value] of Object.entries(query)) {
+    if (Array.isArray(value) && schema.properties?.[name]?.type !== 'array') {
+      query[name] = value.join(',');
+    }
+  }
+};
+
+const toIssue = (location: Location, error: ErrorObject): ValidationIssue => {
+  const path = location + error.instancePath.replace(/\//g, '.');
+
+  switch (error.keyword) {
+    case 'required':
+      return { location, path: `${path}.${error.params.missingProperty}`, message: 'is required' };
+    case 'additionalProperties':
+      return { location, path: `${path}.${error.params.additionalProperty}`, message: 'is not allowed' };
+    case 'enum':
+      return { location, path, message: `must be one of: ${error.params.allowedValues.join(', ')}` };
+    case 'pattern':
+      // Patterns are mostly used to reject blank strings
+      return { location, path, message: error.params.pattern === '\\S' ? 'must not be blank' : `must match ${error.params.pattern}` };
+    default:
+      return { location, path, message: error.message || 'is invalid' };
+  }
+};
@@ -0,0 +1,62 @@
+import express, { Router, RequestHandler } from 'express';
+import { requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { RouteSpec } from '../types';
+
+type Method = 'get' | 'post' | 'patch' | 'delete';
+
+const parseJson = express.json({ limit: '10mb' });
+
+export interface ApiOperation {
+  method: Method;
+  // Express-style path relative to the router, e.g. /logs/:id
+  path: string;
+  spec: RouteSpec;
+}
+
+export interface ApiRouterOptions {
+  tag: string;
+  // Mounted behind authenticate and rateLimit; false for public routes such as the health check
+  secured?: boolean;
+}
+
+// An Express router whose routes carry their own schemas. Each route is validated against its spec
+// and the OpenAPI document is generated from the same specs (see config/swagger.ts).
+export class ApiRouter {
+  public readonly router = Router();
+  public readonly operations: ApiOperation[] = [];
+
+  constructor(public readonly basePath: string, public readonly options: ApiRouterOptions) {}
+
+  public get(path: string, spec: RouteSpec, ...handlers: RequestHandler<any, any, any, any>[]): this {
+    return this.add('get', path, spec, handlers);
+  }
+
+  public post(path: string, spec: RouteSpec, ...handlers: RequestHandler<any, any, any, any>[]): this {
+    return this.add('post', path, spec, handlers);
+  }
+
+  public patch(path: string, spec: RouteSpec, ...handlers: RequestHandler<any, any, any, any>[]): this {
+    return this.add('patch', path, spec, handlers);
+  }
+
+  public delete(path: string, spec: RouteSpec, ...handlers: RequestHandler<any, any, any, any>[]): this {
+    return this.add('delete', path, spec, handlers);
+  }
+
+  // Role checks run first, then JSON body parsing, validation, any route middleware and the handler.
+  // Routes with a raw body read it themselves, so JSON uploads reach them as sent.
+  private add(method: Method, path: string, spec: RouteSpec, handlers: RequestHandler<any, any, any, any>[]): this {
+    const validation = validate(spec);
+
+    this.operations.push({ method, path, spec });
+    this.router[method](
+      path,
+      ...(spec.role ? [requireRole(spec.role)] : []),
+      ...(spec.rawBody ? [] : [parseJson]),
+      ...(validation ? [validation] : []),
+      ...handlers
+    );
+    return this;
+  }
+}
@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { DatabaseService } from '../database/schema';
+import {
+  AttachmentService, AttachmentError, ATTACHMENT_CONTENT_TYPES, ATTACHMENT_FORMATS, attachmentFormatOf
+} from '../services/attachmentService';
+import { auditActorOf, subjectOf, tenantOf } from '../middleware/auth';
+import { AuditService } from '../services/auditService';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse, arrayOf, pathParams, pageQueryProperties, PageQuery } from '../schemas/commonSchemas';
+import { Attachment, AttachmentWithChunks } from '../schemas/attachmentSchemas';
+import { AttachmentFormat } from '../types';
+
+const api = new ApiRouter('/api/attachments', { tag: 'Attachments', secured: true });
+
+// Initialize services
+const dbService = DatabaseService.getInstance();
+const attachmentService = new AttachmentService(dbService);
+const auditService = new AuditService(dbService);
+
+const attachmentId = pathParams({ id: 'Attachment ID' });
+
+api.post('/', {
+  summary: 'Upload an attachment',
+  description: 'Upload a text, Markdown, CSV, JSON or HTML document to use as task context. Its text is extracted, ' +
+    'redacted and split into chunks; pass the returned ID in the `attachments` of a task. The format is taken from ' +
+    'the format parameter, the Content-Type or the file name, in that order.',
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      filename: {
+        type: 'string',
+        pattern: '\\S',
+        description: 'Name of the file, shown to the model with its text',
+        examples: ['q3-report.md']
+      },
+      format: { type: 'string', enum: ATTACHMENT_FORMATS }
+    }
+  },
+  rawBody: { contentTypes: [...Object.values(ATTACHMENT_CONTENT_TYPES), 'application/octet-stream'] },
+  responses: {
+    201: { description: 'Attachment stored', schema: apiResponse(Attachment) },
+    400: { description: 'Not UTF-8 text, invalid JSON, or no text at all' },
+    413: { description: 'Larger than ATTACHMENT_MAX_BYTES' },
+    415: { description: 'Not a supported format' }
+  }
+}, async (req: Request, res: Response) => {
+  const filename = (req.query.filename as string | undefined)?.trim() || 'attachment';
+  const format = (req.query.format as AttachmentFormat | undefined) || attachmentFormatOf(req.get('Content-Type'), filename);
+
+  // express.urlencoded() has already consumed form bodies, which is what curl --data-binary sends by default
+  if (req.is('application/x-www-form-urlencoded')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Send the file with its own content type, such as text/markdown or text/csv'
+    });
+  }
+
+  try {
+    const attachment = await attachmentService.upload(req, filename, format, {
+      tenantId: tenantOf(req),
+      subject: subjectOf(req),
+      requestId: req.requestId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: attachment,
+      message: `Attachment stored in ${attachment.chunkCount} chunks`
+    });
+
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    logger.error('Error storing attachment', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while storing attachment'
+    });
+  }
+});
+
+api.get('/', {
+  summary: 'List attachments',
+  description: 'Retrieve uploaded attachments, newest first',
+  query: { type: 'object', additionalProperties: false, properties: pageQueryProperties },
+  responses: {
+    200: { description: 'Attachments retrieved successfully', schema: apiResponse(arrayOf(Attachment)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = req.query as unknown as PageQuery;
+    const attachments = dbService.getAttachments(limit, offset, tenantOf(req));
+
+    res.json({
+      success: true,
+      data: attachments,
+      message: `Retrieved ${attachments.length} attachments`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving attachments', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving attachments'
+    });
+  }
+});
+
+api.get('/:id', {
+  summary: 'Get an attachment',
+  description: 'Retrieve an attachment with the text of its chunks, as tasks are given it',
+  params: attachmentId,
+  responses: {
+    200: { description: 'Attachment retrieved successfully', schema: apiResponse(AttachmentWithChunks) },
+    404: { description: 'Attachment not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const attachment = dbService.getAttachmentById(req.params.id, tenantOf(req));
+
+    if (!attachment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attachment not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...attachment,
+        chunks: dbService.getAttachmentChunks(attachment.id)
+      },
+      message: 'Attachment retrieved successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving attachment', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving attachment'
+    });
+  }
+});
+
+api.delete('/:id', {
+  summary: 'Delete an attachment',
+  description: 'Delete an attachment and its chunks. Logs of the tasks that used it are kept; they can no longer ' +
+    'be regenerated.',
+  params: attachmentId,
+  responses: {
+    200: { description: 'Attachment deleted successfully', schema: apiResponse() },
+    404: { description: 'Attachment not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const deleted = dbService.deleteAttachment(req.params.id, tenantOf(req));
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attachment not found'
+      });
+    }
+    auditService.record(auditActorOf(req), 'attachment.delete', req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Attachment deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error deleting attachment', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while deleting attachment'
+    });
+  }
+});
+
+export default api;
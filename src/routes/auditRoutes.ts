@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { AuditService, AUDIT_ACTIONS } from '../services/auditService';
+import { tenantOf } from '../middleware/auth';
+import { AuditAction, AuditQuery } from '../types';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse, arrayOf, pageQueryProperties, PageQuery } from '../schemas/commonSchemas';
+import { AuditEvent, auditQueryProperties } from '../schemas/auditSchemas';
+
+const api = new ApiRouter('/api/audit', { tag: 'Audit', secured: true });
+
+// Initialize services
+const auditService = new AuditService();
+
+api.get('/', {
+  summary: 'List audit events',
+  description: "Deletes, restores, purges and configuration changes made within the caller's tenant, newest first. " +
+    'The audit trail is append-only.',
+  role: 'admin',
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: { ...auditQueryProperties, ...pageQueryProperties }
+  },
+  responses: {
+    200: { description: 'Audit events retrieved successfully', schema: apiResponse(arrayOf(AuditEvent)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { action, actor, target, since, until, limit, offset } =
+      req.query as unknown as PageQuery & Omit<AuditQuery, 'action'> & { action?: string };
+
+    const actions = action ? action.split(',') : undefined;
+    if (actions?.some(name => !AUDIT_ACTIONS.includes(name as AuditAction))) {
+      return res.status(400).json({
+        success: false,
+        error: `Action must be one of: ${AUDIT_ACTIONS.join(', ')}`
+      });
+    }
+
+    const query: AuditQuery = {
+      action: actions as AuditAction[] | undefined,
+      actor,
+      target,
+      limit,
+      offset
+    };
+    for (const [name, value] of Object.entries({ since, until })) {
+      if (value === undefined) continue;
+
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        return res.status(400).json({
+          success: false,
+          error: `${name} must be an ISO 8601 date`
+        });
+      }
+      query[name as 'since' | 'until'] = new Date(time).toISOString();
+    }
+
+    const events = auditService.list(query, tenantOf(req));
+
+    res.json({
+      success: true,
+      data: events,
+      message: `Retrieved ${events.length} audit events`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving audit events', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving audit events'
+    });
+  }
+});
+
+export default api;
@@ -0,0 +1,183 @@
+import { Request, Response } from 'express';
+import { DatabaseService } from '../database/schema';
+import { ConversationService } from '../services/conversationService';
+import { auditActorOf, subjectOf, tenantOf } from '../middleware/auth';
+import { AuditService } from '../services/auditService';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse, arrayOf, pathParams, pageQueryProperties, PageQuery } from '../schemas/commonSchemas';
+import {
+  Conversation, ConversationWithMessages, CreateConversationBody, RenameConversationBody
+} from '../schemas/conversationSchemas';
+
+const api = new ApiRouter('/api/conversations', { tag: 'Conversations', secured: true });
+
+// Initialize services
+const dbService = DatabaseService.getInstance();
+const conversationService = new ConversationService(dbService);
+const auditService = new AuditService(dbService);
+
+const conversationId = pathParams({ id: 'Conversation ID' });
+
+api.post('/', {
+  summary: 'Create a conversation',
+  description: 'Start a new conversation. Pass its ID as `conversationId` when processing tasks to give the ' +
+    'assistant memory of earlier turns.',
+  body: CreateConversationBody,
+  responses: {
+    201: { description: 'Conversation created', schema: apiResponse(Conversation) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { title } = req.body;
+    const conversation = conversationService.createConversation(title, tenantOf(req), subjectOf(req));
+
+    res.status(201).json({
+      success: true,
+      data: conversation,
+      message: 'Conversation created successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error creating conversation', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while creating conversation'
+    });
+  }
+});
+
+api.get('/', {
+  summary: 'List conversations',
+  description: 'Retrieve conversations, most recently active first',
+  query: { type: 'object', additionalProperties: false, properties: pageQueryProperties },
+  responses: {
+    200: { description: 'Conversations retrieved successfully', schema: apiResponse(arrayOf(Conversation)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = req.query as unknown as PageQuery;
+    const conversations = dbService.getConversations(limit, offset, tenantOf(req));
+
+    res.json({
+      success: true,
+      data: conversations,
+      message: `Retrieved ${conversations.length} conversations`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving conversations', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving conversations'
+    });
+  }
+});
+
+api.get('/:id', {
+  summary: 'Get a conversation',
+  description: 'Retrieve a conversation together with its full message history',
+  params: conversationId,
+  responses: {
+    200: { description: 'Conversation retrieved successfully', schema: apiResponse(ConversationWithMessages) },
+    404: { description: 'Conversation not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const conversation = dbService.getConversationById(req.params.id, tenantOf(req));
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...conversation,
+        messages: dbService.getConversationMessages(conversation.id)
+      },
+      message: 'Conversation retrieved successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving conversation', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving conversation'
+    });
+  }
+});
+
+api.patch('/:id', {
+  summary: 'Rename a conversation',
+  params: conversationId,
+  body: RenameConversationBody,
+  responses: {
+    200: { description: 'Conversation renamed successfully', schema: apiResponse(Conversation) },
+    404: { description: 'Conversation not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { title } = req.body;
+    const renamed = conversationService.renameConversation(req.params.id, title.trim(), tenantOf(req));
+
+    if (!renamed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: dbService.getConversationById(req.params.id, tenantOf(req)),
+      message: 'Conversation renamed successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error renaming conversation', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while renaming conversation'
+    });
+  }
+});
+
+api.delete('/:id', {
+  summary: 'Delete a conversation',
+  description: 'Delete a conversation and its message history. Interaction logs are kept.',
+  params: conversationId,
+  responses: {
+    200: { description: 'Conversation deleted successfully', schema: apiResponse() },
+    404: { description: 'Conversation not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const deleted = dbService.deleteConversation(req.params.id, tenantOf(req));
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+    auditService.record(auditActorOf(req), 'conversation.delete', req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Conversation deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error deleting conversation', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while deleting conversation'
+    });
+  }
+});
+
+export default api;
@@ -1,64 +1,33 @@
-import { Router, Request, Response } from 'express';
+import { Request, Response } from 'express';
 import { DatabaseService } from '../database/schema';
-import { HealthCheck, ApiResponse } from '../types';
+import { HealthCheck } from '../types';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse } from '../schemas/commonSchemas';
+import { HealthCheck as HealthCheckSchema } from '../schemas/healthSchemas';
 
-const router = Router();
+const api = new ApiRouter('/api/health', { tag: 'Health', secured: false });
 const dbService = DatabaseService.getInstance();
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     HealthCheck:
- *       type: object
- *       properties:
- *         status:
- *           type: string
- *           enum: [healthy, unhealthy]
- *           description: Overall health status
- *         timestamp:
- *           type: string
- *           format: date-time
- *           description: Health check timestamp
- *         uptime:
- *           type: number
- *           description: Server uptime in seconds
- *         version:
- *           type: string
- *           description: Application version
- *         database:
- *           type: string
- *           enum: [connected, disconnected]
- *           description: Database connection status
- */
-
-/**
- * @swagger
- * /api/health:
- *   get:
- *     summary: Health check endpoint
- *     description: Check the health status of the AI assistant module
- *     tags: [Health]
- *     responses:
- *       200:
- *         description: Health status retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/HealthCheck'
- *       503:
- *         description: Service unhealthy
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- */
-router.get('/', (req: Request, res: Response) => {
+api.get('/', {
+  summary: 'Health check endpoint',
+  description: 'Check the health status of the AI assistant module',
+  responses: {
+    200: { description: 'Health status retrieved successfully', schema: apiResponse(HealthCheckSchema) },
+    503: {
+      description: 'Service unhealthy',
+      schema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', const: false },
+          data: HealthCheckSchema,
+          error: { type: 'string' },
+          message: { type: 'string' }
+        }
+      }
+    }
+  }
+}, (req: Request, res: Response) => {
   try {
     const startTime = Date.now();
     
@@ -71,7 +40,7 @@ router.get('/', (req: Request, res: Response) => {
         throw new Error('Invalid database response');
       }
     } catch (error) {
-      console.error('Database health check failed:', error);
+      logger.error('Database health check failed', { error });
       databaseStatus = 'disconnected';
     }
 
@@ -94,7 +63,7 @@ router.get('/', (req: Request, res: Response) => {
     });
 
   } catch (error) {
-    console.error('Health check error:', error);
+    logger.error('Health check error', { error });
     res.status(503).json({
       success: false,
       error: 'Health check failed',
@@ -109,4 +78,4 @@ router.get('/', (req: Request, res: Response) => {
   }
 });
 
-export default router;
+export default api;
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { DatabaseService } from '../database/schema';
+import { config } from '../config';
+import { metricsRegistry, queueJobs } from '../services/metrics';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+
+const api = new ApiRouter('/metrics', { tag: 'Health', secured: false });
+const dbService = DatabaseService.getInstance();
+
+api.get('/', {
+  summary: 'Prometheus metrics',
+  description: 'HTTP, provider, token, task, queue and SQLite metrics in the Prometheus text format. When METRICS_TOKEN ' +
+    'is set, scrapes must send it as a bearer token.',
+  responses: {
+    200: { description: 'Current metric values', schema: { type: 'string' }, contentTypes: ['text/plain'] },
+    401: { description: 'METRICS_TOKEN is set and was not sent' }
+  }
+}, async (req: Request, res: Response) => {
+  try {
+    if (config.metrics.token && req.headers.authorization !== `Bearer ${config.metrics.token}`) {
+      return res.status(401).json({
+        success: false,
+        error: 'Missing or invalid metrics token'
+      });
+    }
+
+    // Queue depth is read from the database, so it includes jobs queued by other processes
+    const jobs = dbService.countJobsByStatus();
+    queueJobs.set({ status: 'queued' }, jobs.queued);
+    queueJobs.set({ status: 'running' }, jobs.running);
+
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+
+  } catch (error) {
+    logger.error('Error collecting metrics', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while collecting metrics'
+    });
+  }
+});
+
+export default api;
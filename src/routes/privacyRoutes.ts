@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { DatabaseService } from '../database/schema';
+import { PiiRedactor, hashSubject } from '../services/piiRedactor';
+import { RetentionService } from '../services/retentionService';
+import { auditActorOf, tenantOf } from '../middleware/auth';
+import { AuditService } from '../services/auditService';
+import { config } from '../config';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse, pathParams } from '../schemas/commonSchemas';
+import { PrivacyPolicy, SubjectErasure } from '../schemas/privacySchemas';
+
+const api = new ApiRouter('/api/privacy', { tag: 'Privacy', secured: true });
+
+// Initialize services
+const dbService = DatabaseService.getInstance();
+const redactor = new PiiRedactor();
+const retentionService = new RetentionService(dbService);
+const auditService = new AuditService(dbService);
+
+retentionService.start();
+
+api.get('/', {
+  summary: 'Get the privacy policy',
+  description: 'The redaction rules applied before interactions, conversations and jobs are stored, and the ' +
+    'retention rules enforced by the background sweeper',
+  responses: {
+    200: { description: 'Policy retrieved successfully', schema: apiResponse(PrivacyPolicy) }
+  }
+}, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      redaction: {
+        rules: redactor.ruleNames,
+        providerInput: redactor.providerInputEnabled
+      },
+      retention: {
+        deleteAfterDays: config.retention.deleteAfterDays,
+        anonymizeIpAfterDays: config.retention.anonymizeIpAfterDays,
+        trashDays: config.retention.trashDays
+      }
+    }
+  });
+});
+
+api.delete('/subjects/:subject', {
+  summary: 'Erase a subject',
+  description: "Delete everything stored for a usage subject within the caller's tenant: interaction logs, " +
+    'conversations and their messages, jobs, usage records and webhook deliveries carrying its interactions. ' +
+    'Subjects are `key:<api key id>` for API keys and `ip:<address>` for clients when auth is disabled.',
+  role: 'admin',
+  params: pathParams({ subject: 'Usage subject, e.g. key:3f2a...' }),
+  responses: {
+    200: { description: 'Subject erased', schema: apiResponse(SubjectErasure) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const erasure = dbService.eraseSubject(req.params.subject, tenantOf(req));
+    // The subject itself is left out, so neither the log nor the audit trail keeps what was just erased
+    const { subject, ...deleted } = erasure;
+    logger.info('Erased subject', { deleted });
+    auditService.record(auditActorOf(req), 'subject.erase', hashSubject(subject), deleted);
+
+    res.json({
+      success: true,
+      data: erasure,
+      message: `Erased data stored for ${subject}`
+    });
+
+  } catch (error) {
+    logger.error('Error erasing subject', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while erasing subject'
+    });
+  }
+});
+
+export default api;
@@ -1,152 +1,105 @@
-import { Router, Request, Response } from 'express';
-import { AIService } from '../services/aiService';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ProviderConfigurationError } from '../services/providers';
+import { TaskProcessor, RequestContext, RegenerateError } from '../services/taskProcessor';
+import { JobQueue } from '../services/jobQueue';
+import { parseLogQuery } from '../services/logQuery';
+import { PromptTemplateError } from '../services/promptTemplateService';
+import { ToolError } from '../services/tools';
+import { OutputSchemaError } from '../services/outputSchemas';
+import { AttachmentError } from '../services/attachmentService';
+import { WebhookService } from '../services/webhookService';
+import { AuditService } from '../services/auditService';
+import { FeedbackService, FeedbackError } from '../services/feedbackService';
+import { BatchService, BatchError, BatchOptions, BATCH_CONTENT_TYPES } from '../services/batchService';
+import { LogArchiveService, ArchiveFormat, ARCHIVE_FORMATS, ARCHIVE_CONTENT_TYPES } from '../services/logArchiveService';
+import { auditActorOf, subjectOf, tenantOf } from '../middleware/auth';
+import { enforceQuota, chargeTasks, quotaExceeded, RateLimitError } from '../middleware/rateLimit';
 import { DatabaseService } from '../database/schema';
-import { TaskRequest, ApiResponse, InteractionLog } from '../types';
+import {
+  TaskRequest, JobStatus, JsonSchema, StatsOptions, FeedbackInput, FineTuningOptions, RegenerateOptions, TaskBatch
+} from '../types';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse, arrayOf, pathParams, pageQueryProperties, PageQuery } from '../schemas/commonSchemas';
+import {
+  TaskRequest as TaskRequestSchema, RegenerateRequest, TaskResponse, InteractionLog, TaskJob, TaskStats, ImportResult, ToolDefinition,
+  OutputSchema, TrashSelection, JOB_STATUSES, logFilterProperties, METADATA_FILTER
+} from '../schemas/taskSchemas';
+import {
+  FeedbackInput as FeedbackInputSchema, InteractionFeedback, fineTuningQueryProperties
+} from '../schemas/feedbackSchemas';
+import { BatchRequest, TaskBatch as TaskBatchSchema, batchConcurrency } from '../schemas/batchSchemas';
 
-const router = Router();
+const api = new ApiRouter('/api/tasks', { tag: 'Tasks', secured: true });
 
 // Initialize services
-const aiService = new AIService(process.env.OPENAI_API_KEY || '');
 const dbService = DatabaseService.getInstance();
+const webhookService = WebhookService.getInstance();
+const taskProcessor = new TaskProcessor(undefined, dbService, undefined, undefined, webhookService);
+const jobQueue = new JobQueue(taskProcessor, dbService);
+const logArchiveService = new LogArchiveService(dbService);
+const auditService = new AuditService(dbService);
+const feedbackService = new FeedbackService(dbService);
+const batchService = new BatchService(taskProcessor, dbService);
+
+jobQueue.start();
+
+const logQuery: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  patternProperties: METADATA_FILTER,
+  properties: {
+    ...logFilterProperties,
+    limit: { ...pageQueryProperties.limit, description: 'Number of logs to return' },
+    cursor: { type: 'string', description: 'nextCursor from the previous page' },
+    offset: { type: 'integer', minimum: 0, deprecated: true, description: 'Number of logs to skip; use cursor instead' }
+  }
+};
+
+const archiveFormat: JsonSchema = { type: 'string', enum: ARCHIVE_FORMATS };
+
+api.post('/process', {
+  summary: 'Process a new task',
+  description: 'Submit a task to the AI assistant for processing. Send `Accept: text/event-stream` to receive the ' +
+    'streaming mode described under `/api/tasks/process/stream`.',
+  body: TaskRequestSchema,
+  responses: {
+    200: { description: 'Task processed successfully', schema: apiResponse(TaskResponse) },
+    202: { description: 'Task queued (mode async)', schema: apiResponse(TaskJob) },
+    404: { description: 'Conversation, template or attachment not found' },
+    429: { description: 'Rate limit or usage quota exceeded; see the Retry-After header' }
+  }
+}, enforceQuota, async (req: Request, res: Response) => {
+  // Clients that ask for an event stream get the streaming mode on the same endpoint
+  if (wantsEventStream(req)) {
+    return streamTask(req, res);
+  }
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     TaskRequest:
- *       type: object
- *       required:
- *         - task
- *       properties:
- *         task:
- *           type: string
- *           description: The task description
- *           example: "analyze leads"
- *         context:
- *           type: string
- *           description: Additional context for the task
- *           example: "Q4 sales data"
- *         priority:
- *           type: string
- *           enum: [low, medium, high]
- *           description: Task priority level
- *           example: "high"
- *     
- *     TaskResponse:
- *       type: object
- *       properties:
- *         id:
- *           type: string
- *           description: Unique task ID
- *         task:
- *           type: string
- *           description: Original task description
- *         response:
- *           type: string
- *           description: AI-generated response
- *         status:
- *           type: string
- *           enum: [success, error]
- *           description: Task processing status
- *         timestamp:
- *           type: string
- *           format: date-time
- *           description: When the task was processed
- *         processingTime:
- *           type: number
- *           description: Processing time in milliseconds
- *         metadata:
- *           type: object
- *           description: Additional task metadata
- *     
- *     ApiResponse:
- *       type: object
- *       properties:
- *         success:
- *           type: boolean
- *           description: Whether the request was successful
- *         data:
- *           type: object
- *           description: Response data
- *         error:
- *           type: string
- *           description: Error message if any
- *         message:
- *           type: string
- *           description: Additional message
- */
-
-/**
- * @swagger
- * /api/tasks/process:
- *   post:
- *     summary: Process a new task
- *     description: Submit a task to the AI assistant for processing
- *     tags: [Tasks]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/TaskRequest'
- *     responses:
- *       200:
- *         description: Task processed successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/TaskResponse'
- *       400:
- *         description: Bad request
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- */
-router.post('/process', async (req: Request, res: Response) => {
   try {
-    const { task, context, priority }: TaskRequest = req.body;
+    const { request: taskRequest, error, statusCode } = parseTaskRequest(req.body, tenantOf(req));
 
-    if (!task || typeof task !== 'string' || task.trim().length === 0) {
-      return res.status(400).json({
+    if (!taskRequest) {
+      return res.status(statusCode || 400).json({
         success: false,
-        error: 'Task is required and must be a non-empty string'
+        error
       });
     }
 
-    // Process the task
-    const taskRequest: TaskRequest = { task: task.trim(), context, priority };
-    
-    // Use simulation mode if no OpenAI API key is provided
-    const response = process.env.OPENAI_API_KEY 
-      ? await aiService.processTask(taskRequest)
-      : await aiService.simulateTaskProcessing(taskRequest);
-
-    // Save interaction log
-    const interactionLog: InteractionLog = {
-      id: response.id,
-      task: response.task,
-      response: response.response,
-      status: response.status,
-      timestamp: response.timestamp,
-      processingTime: response.processingTime,
-      userAgent: req.get('User-Agent'),
-      ipAddress: req.ip,
-      metadata: response.metadata
-    };
+    // Async tasks are queued and picked up by the job workers in priority order
+    if (taskRequest.mode === 'async') {
+      const job = jobQueue.submit(taskRequest, requestContext(req));
+
+      return res.status(202).json({
+        success: true,
+        data: job,
+        message: 'Task queued for processing'
+      });
+    }
 
-    dbService.saveInteractionLog(interactionLog);
+    // Process the task and save the interaction log
+    const response = await taskProcessor.process(taskRequest, requestContext(req));
 
     res.json({
       success: true,
@@ -155,7 +108,7 @@ router.post('/process', async (req: Request, res: Response) => {
     });
 
   } catch (error) {
-    console.error('Error processing task:', error);
+    logger.error('Error processing task', { error });
     res.status(500).json({
       success: false,
       error: 'Internal server error while processing task'
@@ -163,59 +116,564 @@ router.post('/process', async (req: Request, res: Response) => {
   }
 });
 
-/**
- * @swagger
- * /api/tasks/logs:
- *   get:
- *     summary: Get interaction logs
- *     description: Retrieve a list of interaction logs with pagination
- *     tags: [Tasks]
- *     parameters:
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 50
- *         description: Number of logs to return
- *       - in: query
- *         name: offset
- *         schema:
- *           type: integer
- *           minimum: 0
- *           default: 0
- *         description: Number of logs to skip
- *     responses:
- *       200:
- *         description: Logs retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/TaskResponse'
- */
-router.get('/logs', (req: Request, res: Response) => {
+api.post('/process/stream', {
+  summary: 'Process a task as a Server-Sent Events stream',
+  description: 'Streams the AI response as it is generated. Emits `delta` events with `{ "delta": "..." }` payloads, ' +
+    'then a single `done` event carrying the full TaskResponse. Sending `Accept: text/event-stream` to ' +
+    '`/api/tasks/process` behaves the same way. If the client disconnects, the partial response is logged with ' +
+    'status `aborted`.',
+  body: TaskRequestSchema,
+  responses: {
+    200: {
+      description: 'Event stream of response deltas followed by the TaskResponse',
+      schema: { type: 'string' },
+      contentTypes: ['text/event-stream']
+    },
+    404: { description: 'Conversation, template or attachment not found' },
+    429: { description: 'Rate limit or usage quota exceeded; see the Retry-After header' }
+  }
+}, enforceQuota, (req: Request, res: Response) => streamTask(req, res));
+
+async function streamTask(req: Request, res: Response): Promise<void> {
+  const { request: taskRequest, error, statusCode } = parseTaskRequest(req.body, tenantOf(req));
+
+  if (!taskRequest) {
+    res.status(statusCode || 400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  if (taskRequest.mode === 'async') {
+    res.status(400).json({
+      success: false,
+      error: 'Async mode cannot be combined with streaming'
+    });
+    return;
+  }
+
+  // Structured output is only returned once it validates, so there is nothing useful to stream
+  if (taskRequest.outputSchema !== undefined) {
+    res.status(400).json({
+      success: false,
+      error: 'outputSchema cannot be combined with streaming'
+    });
+    return;
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // The response closing before we end it means the client went away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const options = {
+      signal: controller.signal,
+      onDelta: (delta: string) => sendEvent(res, 'delta', { delta })
+    };
+
+    const response = await taskProcessor.processStream(taskRequest, requestContext(req), options);
+
+    if (!controller.signal.aborted) {
+      sendEvent(res, 'done', response);
+      res.end();
+    }
+
+  } catch (error) {
+    logger.error('Error streaming task', { error });
+    if (!controller.signal.aborted) {
+      sendEvent(res, 'error', { error: 'Internal server error while processing task' });
+      res.end();
+    }
+  }
+}
+
+function wantsEventStream(req: Request): boolean {
+  return (req.get('Accept') || '').includes('text/event-stream');
+}
+
+function sendEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// The body has already been validated against the TaskRequest schema; what is left are the checks
+// that depend on stored data and on which providers, templates, tools, output schemas and attachments exist
+function parseTaskRequest(body: TaskRequest, tenantId: string): { request?: TaskRequest; error?: string; statusCode?: number } {
+  const { task, model, conversationId, template, templateVersion } = body;
+
+  if (templateVersion !== undefined && template === undefined) {
+    return { error: 'templateVersion requires template' };
+  }
+
+  if (conversationId !== undefined && !dbService.getConversationById(conversationId, tenantId)) {
+    return { error: 'Conversation not found', statusCode: 404 };
+  }
+
+  const request: TaskRequest = {
+    ...body,
+    task: task.trim(),
+    model: model?.trim(),
+    template: template?.trim()
+  };
+
+  try {
+    taskProcessor.ai.assertProviderAvailable(request);
+    taskProcessor.ai.assertTemplateAvailable(request);
+    taskProcessor.ai.assertToolsAvailable(request);
+    taskProcessor.ai.assertOutputSchemaAvailable(request);
+    taskProcessor.ai.assertAttachmentsAvailable(request, tenantId);
+  } catch (error) {
+    if (error instanceof ProviderConfigurationError || error instanceof ToolError || error instanceof OutputSchemaError) {
+      return { error: error.message };
+    }
+    if (error instanceof PromptTemplateError || error instanceof AttachmentError) {
+      return { error: error.message, statusCode: error.statusCode };
+    }
+    throw error;
+  }
+
+  return { request };
+}
+
+// parseLogQuery takes string parameters, as the CLI passes them
+function queryParams(req: Request): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.query)) {
+    params[name] = String(value);
+  }
+  return params;
+}
+
+// Streams a generated download with backpressure. When the client disconnects the generator is closed,
+// so it stops reading the database. Headers are sent by the time anything fails, so a truncated download
+// is the only signal left.
+async function streamDownload(res: Response, chunks: Iterable<string>, failure: string): Promise<void> {
+  try {
+    await pipeline(Readable.from(chunks), res);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      logger.error(failure, { error });
+    }
+  }
+}
+
+function requestContext(req: Request): RequestContext {
+  return {
+    userAgent: req.get('User-Agent'),
+    ipAddress: req.ip,
+    tenantId: tenantOf(req),
+    subject: subjectOf(req),
+    requestId: req.requestId
+  };
+}
+
+api.get('/jobs', {
+  summary: 'List async jobs',
+  description: 'Retrieve queued and finished async jobs, newest first',
+  tags: ['Jobs'],
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      status: { type: 'string', enum: JOB_STATUSES },
+      ...pageQueryProperties
+    }
+  },
+  responses: {
+    200: { description: 'Jobs retrieved successfully', schema: apiResponse(arrayOf(TaskJob)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { status, limit, offset } = req.query as unknown as PageQuery & { status?: JobStatus };
+    const jobs = dbService.getJobs(status, limit, offset, tenantOf(req));
+
+    res.json({
+      success: true,
+      data: jobs,
+      message: `Retrieved ${jobs.length} jobs`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving jobs', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving jobs'
+    });
+  }
+});
+
+api.get('/jobs/:id', {
+  summary: 'Get async job status',
+  description: 'Poll the status of an async job. Once completed, `result` holds the TaskResponse.',
+  tags: ['Jobs'],
+  params: pathParams({ id: 'Job ID returned when the task was queued' }),
+  responses: {
+    200: { description: 'Job retrieved successfully', schema: apiResponse(TaskJob) },
+    404: { description: 'Job not found' }
+  }
+}, (req: Request, res: Response) => {
   try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const job = dbService.getJobById(req.params.id, tenantOf(req));
 
-    const logs = dbService.getInteractionLogs(limit, offset);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
 
     res.json({
       success: true,
-      data: logs,
-      message: `Retrieved ${logs.length} interaction logs`
+      data: job,
+      message: 'Job retrieved successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving job', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving job'
+    });
+  }
+});
+
+api.post('/jobs/:id/cancel', {
+  summary: 'Cancel an async job',
+  description: 'Cancel a queued job, or abort a running one. Finished jobs cannot be cancelled.',
+  tags: ['Jobs'],
+  params: pathParams({ id: 'Job ID' }),
+  responses: {
+    200: { description: 'Job cancelled successfully', schema: apiResponse(TaskJob) },
+    404: { description: 'Job not found' },
+    409: { description: 'Job has already finished' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const existing = dbService.getJobById(req.params.id, tenantOf(req));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    const job = jobQueue.cancel(existing.id);
+
+    if (!job) {
+      return res.status(409).json({
+        success: false,
+        error: `Job is already ${existing.status}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job cancelled successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error cancelling job', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while cancelling job'
+    });
+  }
+});
+
+api.post('/batches', {
+  summary: 'Run a batch of tasks',
+  description: 'Process many task requests at once, with at most BATCH_CONCURRENCY running at the same time. Each ' +
+    'item is logged as its own interaction tagged with the batch id. Invalid items are rejected on their own, ' +
+    'so the summary reports success or the error for every item. Responds once every item has finished. Every ' +
+    'valid item counts as a request against the per-minute rate limit, and the batch is refused unless they all ' +
+    'fit; items left when a usage quota runs out are rejected.',
+  tags: ['Batches'],
+  body: BatchRequest,
+  responses: {
+    200: { description: 'Batch processed', schema: apiResponse(TaskBatchSchema) },
+    429: { description: 'Rate limit or usage quota exceeded, or more items than the rate limit has left; see the Retry-After header' }
+  }
+}, enforceQuota, async (req: Request, res: Response) => {
+  const { items, concurrency } = req.body as { items: Record<string, any>[]; concurrency?: number };
+  await respondWithBatch(req, res, options => batchService.run(items, requestContext(req), { ...options, concurrency }));
+});
+
+api.post('/batches/upload', {
+  summary: 'Run a batch of tasks from a file',
+  description: 'Like `POST /batches`, for a JSONL file of task requests or a CSV file with one task per row. CSV ' +
+    'columns are the request fields (tools and attachments comma-separated, variables as variables.<name>); ' +
+    'other columns are carried through to the results.',
+  tags: ['Batches'],
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      format: { ...archiveFormat, description: 'Defaults to csv for a text/csv body and jsonl otherwise' },
+      concurrency: batchConcurrency
+    }
+  },
+  rawBody: { contentTypes: Object.values(ARCHIVE_CONTENT_TYPES) },
+  responses: {
+    200: { description: 'Batch processed', schema: apiResponse(TaskBatchSchema) },
+    400: { description: 'Empty or oversized batch, or a JSON body (send JSONL as application/x-ndjson)' },
+    429: { description: 'Rate limit or usage quota exceeded, or more items than the rate limit has left; see the Retry-After header' }
+  }
+}, enforceQuota, async (req: Request, res: Response) => {
+  const format = (req.query.format as ArchiveFormat | undefined) || (req.is('text/csv') ? 'csv' : 'jsonl');
+  const concurrency = req.query.concurrency as number | undefined;
+
+  // A JSON array of requests belongs at POST /batches
+  if (req.is('application/json')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Send JSONL files as application/x-ndjson and CSV files as text/csv, or use POST /api/tasks/batches'
+    });
+  }
+
+  await respondWithBatch(req, res, options => batchService.runFile(req, format, requestContext(req), { ...options, concurrency }));
+});
+
+// Items still running when the client goes away are aborted, and the rest are cancelled. Each item is
+// charged to the caller's rate limit, and checked against their usage quotas before it starts.
+async function respondWithBatch(req: Request, res: Response, run: (options: BatchOptions) => Promise<TaskBatch>): Promise<void> {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const batch = await run({
+      signal: controller.signal,
+      admit: items => chargeTasks(req, res, items),
+      refuseItem: () => quotaExceeded(req)
+    });
+
+    res.json({
+      success: true,
+      data: batch,
+      message: `Processed ${batch.total} items: ${batch.succeeded} succeeded, ${batch.failed} failed`
+    });
+
+  } catch (error) {
+    if (error instanceof BatchError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    if (error instanceof RateLimitError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: 'Rate limit exceeded',
+        message: error.message
+      });
+      return;
+    }
+    logger.error('Error processing batch', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while processing batch'
+    });
+  }
+}
+
+api.get('/batches', {
+  summary: 'List batches',
+  description: 'Batch summaries, newest first',
+  tags: ['Batches'],
+  query: { type: 'object', additionalProperties: false, properties: pageQueryProperties },
+  responses: {
+    200: { description: 'Batches retrieved successfully', schema: apiResponse(arrayOf(TaskBatchSchema)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = req.query as unknown as PageQuery;
+    const batches = dbService.getTaskBatches(limit, offset, tenantOf(req));
+
+    res.json({
+      success: true,
+      data: batches,
+      message: `Retrieved ${batches.length} batches`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving batches', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving batches'
+    });
+  }
+});
+
+api.get('/batches/:id', {
+  summary: 'Get a batch',
+  description: 'The batch summary with the status, log and error of every item. The logs themselves can be ' +
+    'searched with `GET /api/tasks/logs?batchId=...`.',
+  tags: ['Batches'],
+  params: pathParams({ id: 'Batch ID' }),
+  responses: {
+    200: { description: 'Batch retrieved successfully', schema: apiResponse(TaskBatchSchema) },
+    404: { description: 'Batch not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const batch = dbService.getTaskBatchById(req.params.id, tenantOf(req));
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Batch not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: batch,
+      message: 'Batch retrieved successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving batch', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving batch'
+    });
+  }
+});
+
+api.get('/batches/:id/results', {
+  summary: 'Download batch results',
+  description: 'The inputs with status, response, error and logId added, in the format the batch was submitted in: ' +
+    'a JSON array, JSONL or CSV. Responses are redacted like the interaction logs.',
+  tags: ['Batches'],
+  params: pathParams({ id: 'Batch ID' }),
+  responses: {
+    200: {
+      description: 'Results, one per input item in input order',
+      schema: { type: 'string' },
+      contentTypes: Object.values(BATCH_CONTENT_TYPES)
+    },
+    404: { description: 'Batch not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const batch = dbService.getTaskBatchById(req.params.id, tenantOf(req));
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Batch not found'
+      });
+    }
+
+    res.setHeader('Content-Type', `${BATCH_CONTENT_TYPES[batch.format]}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="batch-${batch.id}.${batch.format}"`);
+    res.end(Array.from(batchService.results(batch)).join(''));
+
+  } catch (error) {
+    logger.error('Error downloading batch results', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while downloading batch results'
+    });
+  }
+});
+
+api.get('/output-schemas', {
+  summary: 'List output schemas',
+  description: 'Registered JSON Schemas that can be requested by name with outputSchema',
+  responses: {
+    200: { description: 'Output schemas retrieved successfully', schema: apiResponse(arrayOf(OutputSchema)) }
+  }
+}, (req: Request, res: Response) => {
+  const schemas = taskProcessor.ai.outputSchemas.list();
+
+  res.json({
+    success: true,
+    data: schemas,
+    message: `Retrieved ${schemas.length} output schemas`
+  });
+});
+
+api.get('/tools', {
+  summary: 'List tools',
+  description: 'Tools the model can call while processing a task',
+  responses: {
+    200: { description: 'Tools retrieved successfully', schema: apiResponse(arrayOf(ToolDefinition)) }
+  }
+}, (req: Request, res: Response) => {
+  const tools = taskProcessor.ai.tools.definitions();
+
+  res.json({
+    success: true,
+    data: tools,
+    message: `Retrieved ${tools.length} tools`
+  });
+});
+
+api.get('/logs', {
+  summary: 'Search interaction logs',
+  description: 'Retrieve interaction logs with full-text search, filters and cursor pagination. Pass `nextCursor` ' +
+    'from a page as `cursor` to get the next one; pages stay stable while new logs are written. Filter on metadata ' +
+    'with `metadata.<key>=<value>`, e.g. `metadata.conversationId=...`.',
+  query: logQuery,
+  responses: {
+    200: {
+      description: 'Logs retrieved successfully',
+      schema: apiResponse(arrayOf(InteractionLog), {
+        pagination: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer' },
+            nextCursor: { type: 'string', description: 'Absent on the last page' }
+          }
+        }
+      })
+    }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { query, error } = parseLogQuery(queryParams(req));
+
+    if (!query) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    const limit = query.limit || 50;
+    const page = dbService.queryInteractionLogs({ ...query, limit }, tenantOf(req));
+
+    res.json({
+      success: true,
+      data: page.logs,
+      pagination: {
+        limit,
+        nextCursor: page.nextCursor
+      },
+      message: `Retrieved ${page.logs.length} interaction logs`
     });
 
   } catch (error) {
-    console.error('Error retrieving logs:', error);
+    logger.error('Error retrieving logs', { error });
     res.status(500).json({
       success: false,
       error: 'Internal server error while retrieving logs'
@@ -223,43 +681,199 @@ router.get('/logs', (req: Request, res: Response) => {
   }
 });
 
-/**
- * @swagger
- * /api/tasks/logs/{id}:
- *   get:
- *     summary: Get specific interaction log
- *     description: Retrieve a specific interaction log by ID
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Interaction log ID
- *     responses:
- *       200:
- *         description: Log retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/TaskResponse'
- *       404:
- *         description: Log not found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- */
-router.get('/logs/:id', (req: Request, res: Response) => {
+api.get('/logs/export', {
+  summary: 'Export interaction logs',
+  description: 'Stream every log matching the same filters as `GET /api/tasks/logs` (q, status, priority, model, ' +
+    'since, until, processing time, `metadata.<key>`, sort, order) as JSONL or CSV. `limit` and `cursor` do not apply.',
+  query: {
+    ...logQuery,
+    properties: {
+      ...logQuery.properties,
+      format: { ...archiveFormat, default: 'jsonl' }
+    }
+  },
+  responses: {
+    200: {
+      description: 'Archive stream, one log per line (JSONL) or row (CSV)',
+      schema: { type: 'string' },
+      contentTypes: Object.values(ARCHIVE_CONTENT_TYPES)
+    }
+  }
+}, async (req: Request, res: Response) => {
+  const { format, limit, cursor, offset, ...filters } = queryParams(req);
+  const { query, error } = parseLogQuery(filters);
+
+  if (!query) {
+    return res.status(400).json({
+      success: false,
+      error
+    });
+  }
+
+  const archiveFormat = format as ArchiveFormat;
+
+  res.setHeader('Content-Type', `${ARCHIVE_CONTENT_TYPES[archiveFormat]}; charset=utf-8`);
+  res.setHeader('Content-Disposition', `attachment; filename="interaction-logs-${new Date().toISOString().slice(0, 10)}.${archiveFormat}"`);
+
+  await streamDownload(res, logArchiveService.export(query, archiveFormat, tenantOf(req)), 'Error exporting logs');
+});
+
+api.post('/logs/import', {
+  summary: 'Import interaction logs',
+  description: "Restore a JSONL or CSV archive produced by the export endpoint into the caller's tenant. The body " +
+    'is streamed, so archives of any size can be imported. Logs whose id already exists are skipped, so ' +
+    're-importing an archive is safe.',
+  role: 'admin',
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      format: { ...archiveFormat, description: 'Defaults to csv for a text/csv body and jsonl otherwise' }
+    }
+  },
+  rawBody: { contentTypes: Object.values(ARCHIVE_CONTENT_TYPES) },
+  responses: {
+    200: { description: 'Import finished', schema: apiResponse(ImportResult) },
+    400: { description: 'Invalid format, or a JSON body (send JSONL as application/x-ndjson)' }
+  }
+}, async (req: Request, res: Response) => {
+  const format = (req.query.format as ArchiveFormat | undefined) || (req.is('text/csv') ? 'csv' : 'jsonl');
+
+  // Archives are exported as JSONL, never as one JSON document
+  if (req.is('application/json')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Send JSONL archives as application/x-ndjson and CSV archives as text/csv'
+    });
+  }
+
+  try {
+    const result = await logArchiveService.import(req, format, { tenantId: tenantOf(req) });
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Imported ${result.imported} interaction logs (${result.skipped} already present, ${result.failed} failed)`
+    });
+
+  } catch (error) {
+    logger.error('Error importing logs', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while importing logs'
+    });
+  }
+});
+
+api.get('/logs/trash', {
+  summary: 'List trashed interaction logs',
+  description: 'Deleted logs, most recently deleted first. They can be restored until they are purged, by hand or ' +
+    'automatically once they have been in the trash for TRASH_RETENTION_DAYS.',
+  role: 'admin',
+  query: { type: 'object', additionalProperties: false, properties: pageQueryProperties },
+  responses: {
+    200: { description: 'Trashed logs retrieved successfully', schema: apiResponse(arrayOf(InteractionLog)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = req.query as unknown as PageQuery;
+    const logs = dbService.getTrashedInteractionLogs(limit, offset, tenantOf(req));
+
+    res.json({
+      success: true,
+      data: logs,
+      message: `Retrieved ${logs.length} trashed interaction logs`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving trashed logs', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving trashed logs'
+    });
+  }
+});
+
+api.post('/logs/trash/restore', {
+  summary: 'Restore trashed interaction logs',
+  description: 'Move the listed logs, or every trashed log when `ids` is omitted, back out of the trash',
+  role: 'admin',
+  body: TrashSelection,
+  responses: {
+    200: {
+      description: 'Logs restored',
+      schema: apiResponse({ type: 'object', properties: { restoredCount: { type: 'number' } } })
+    }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { ids } = req.body as { ids?: string[] };
+    const restoredCount = dbService.restoreInteractionLogs(ids, tenantOf(req));
+    if (restoredCount > 0) {
+      auditService.record(auditActorOf(req), 'logs.restore', undefined, { ids, count: restoredCount });
+    }
+
+    res.json({
+      success: true,
+      data: { restoredCount },
+      message: `Restored ${restoredCount} interaction logs`
+    });
+
+  } catch (error) {
+    logger.error('Error restoring logs', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while restoring logs'
+    });
+  }
+});
+
+api.post('/logs/trash/purge', {
+  summary: 'Purge trashed interaction logs',
+  description: 'Delete the listed trashed logs, or empty the trash when `ids` is omitted. Purged logs cannot be restored.',
+  role: 'admin',
+  body: TrashSelection,
+  responses: {
+    200: {
+      description: 'Logs purged',
+      schema: apiResponse({ type: 'object', properties: { purgedCount: { type: 'number' } } })
+    }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { ids } = req.body as { ids?: string[] };
+    const purgedCount = dbService.purgeInteractionLogs(ids, tenantOf(req));
+    if (purgedCount > 0) {
+      auditService.record(auditActorOf(req), 'logs.purge', undefined, { ids, count: purgedCount });
+    }
+
+    res.json({
+      success: true,
+      data: { purgedCount },
+      message: `Purged ${purgedCount} interaction logs`
+    });
+
+  } catch (error) {
+    logger.error('Error purging logs', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while purging logs'
+    });
+  }
+});
+
+api.get('/logs/:id', {
+  summary: 'Get specific interaction log',
+  description: 'Retrieve a specific interaction log by ID, with every version of the interaction in versions',
+  params: pathParams({ id: 'Interaction log ID' }),
+  responses: {
+    200: { description: 'Log retrieved successfully', schema: apiResponse(InteractionLog) },
+    404: { description: 'Log not found' }
+  }
+}, (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const log = dbService.getInteractionLogById(id);
+    const log = dbService.getInteractionLogById(id, tenantOf(req));
 
     if (!log) {
       return res.status(404).json({
@@ -270,12 +884,12 @@ router.get('/logs/:id', (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      data: log,
+      data: { ...log, versions: dbService.getInteractionLogVersions(log) },
       message: 'Interaction log retrieved successfully'
     });
 
   } catch (error) {
-    console.error('Error retrieving log:', error);
+    logger.error('Error retrieving log', { error });
     res.status(500).json({
       success: false,
       error: 'Internal server error while retrieving log'
@@ -283,101 +897,287 @@ router.get('/logs/:id', (req: Request, res: Response) => {
   }
 });
 
-/**
- * @swagger
- * /api/tasks/stats:
- *   get:
- *     summary: Get task statistics
- *     description: Retrieve statistics about processed tasks
- *     tags: [Tasks]
- *     responses:
- *       200:
- *         description: Statistics retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: object
- *                       properties:
- *                         totalInteractions:
- *                           type: number
- *                           description: Total number of interactions
- *                         successRate:
- *                           type: number
- *                           description: Success rate percentage
- *                         averageProcessingTime:
- *                           type: number
- *                           description: Average processing time in milliseconds
- */
-router.get('/stats', (req: Request, res: Response) => {
+api.post('/logs/:id/regenerate', {
+  summary: 'Regenerate an interaction',
+  description: 'Answer the logged task again with its stored context, attachments, priority, template version, variables, ' +
+    'tools and output schema, optionally with a different provider, model or temperature. The answer is logged as ' +
+    'the next version of the original interaction and never comes from the response cache. If the client ' +
+    'disconnects first, that version is logged with status `aborted`.',
+  params: pathParams({ id: 'Interaction log ID' }),
+  body: RegenerateRequest,
+  responses: {
+    200: { description: 'Task regenerated successfully', schema: apiResponse(TaskResponse) },
+    404: { description: 'Log not found, or one of its attachments has been deleted' },
+    409: { description: 'The template version the interaction used has been deleted' },
+    422: { description: 'A tool or the output schema the interaction used is no longer registered' },
+    429: { description: 'Rate limit or usage quota exceeded; see the Retry-After header' }
+  }
+}, enforceQuota, async (req: Request, res: Response) => {
   try {
-    const stats = dbService.getStats();
+    const log = dbService.getInteractionLogById(req.params.id, tenantOf(req));
 
+    if (!log) {
+      return res.status(404).json({
+        success: false,
+        error: 'Interaction log not found'
+      });
+    }
+
+    // The response closing before we send it means the client went away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    const { provider, model, temperature } = req.body as RegenerateOptions;
+    const options = { provider, model: model?.trim(), temperature };
+    const response = await taskProcessor.regenerate(log, options, requestContext(req), controller.signal);
+
+    if (controller.signal.aborted) {
+      return;
+    }
     res.json({
       success: true,
-      data: stats,
-      message: 'Statistics retrieved successfully'
+      data: response,
+      message: `Task regenerated as version ${response.metadata?.version}`
     });
 
   } catch (error) {
-    console.error('Error retrieving stats:', error);
+    if (error instanceof ProviderConfigurationError || error instanceof AttachmentError || error instanceof RegenerateError) {
+      return res.status(error instanceof ProviderConfigurationError ? 400 : error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    logger.error('Error regenerating task', { error });
     res.status(500).json({
       success: false,
-      error: 'Internal server error while retrieving statistics'
+      error: 'Internal server error while regenerating task'
     });
   }
 });
 
-/**
- * @swagger
- * /api/tasks/logs/{id}:
- *   delete:
- *     summary: Delete specific interaction log
- *     description: Delete a specific interaction log by ID
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Interaction log ID to delete
- *     responses:
- *       200:
- *         description: Log deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- *       404:
- *         description: Log not found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- */
-router.delete('/logs/:id', (req: Request, res: Response) => {
+api.post('/logs/:id/prefer', {
+  summary: 'Prefer a version of an interaction',
+  description: 'Mark the log as the preferred version of its interaction; any other version loses the mark',
+  params: pathParams({ id: 'Interaction log ID' }),
+  responses: {
+    200: { description: 'Version marked as preferred', schema: apiResponse(InteractionLog) },
+    404: { description: 'Log not found' }
+  }
+}, (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const log = dbService.setPreferredLogVersion(req.params.id, tenantOf(req));
+
+    if (!log) {
+      return res.status(404).json({
+        success: false,
+        error: 'Interaction log not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { ...log, versions: dbService.getInteractionLogVersions(log) },
+      message: `Version ${log.version} marked as preferred`
+    });
+
+  } catch (error) {
+    logger.error('Error marking preferred version', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while marking preferred version'
+    });
+  }
+});
+
+api.post('/logs/:id/feedback', {
+  summary: 'Give feedback on an interaction',
+  description: 'Rate an interaction with a thumbs up or down, a 1-5 rating, a comment and the answer it should have ' +
+    'given. Replaces any feedback the caller gave on it before. Comments and corrections are redacted like interactions.',
+  params: pathParams({ id: 'Interaction log ID' }),
+  body: FeedbackInputSchema,
+  responses: {
+    200: { description: 'Feedback saved successfully', schema: apiResponse(InteractionFeedback) },
+    404: { description: 'Log not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const feedback = feedbackService.submit(req.params.id, req.body as FeedbackInput, subjectOf(req), tenantOf(req));
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        error: 'Interaction log not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: feedback,
+      message: 'Feedback saved successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof FeedbackError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    logger.error('Error saving feedback', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while saving feedback'
+    });
+  }
+});
+
+api.get('/logs/:id/feedback', {
+  summary: 'List feedback on an interaction',
+  description: 'Every feedback entry given on the interaction, most recently updated first',
+  params: pathParams({ id: 'Interaction log ID' }),
+  responses: {
+    200: { description: 'Feedback retrieved successfully', schema: apiResponse(arrayOf(InteractionFeedback)) },
+    404: { description: 'Log not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const feedback = feedbackService.list(req.params.id, tenantOf(req));
 
-    if (!id || typeof id !== 'string') {
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        error: 'Interaction log not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: feedback,
+      message: `Retrieved ${feedback.length} feedback entries`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving feedback', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving feedback'
+    });
+  }
+});
+
+api.get('/feedback/export', {
+  summary: 'Export a fine-tuning dataset',
+  description: 'Stream the highly rated interactions as a chat fine-tuning dataset: one ' +
+    '`{"messages": [user, assistant]}` object per line, oldest first. Corrected interactions are only included with ' +
+    '`corrections=true`, answered with their latest correction.',
+  role: 'admin',
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: fineTuningQueryProperties
+  },
+  responses: {
+    200: {
+      description: 'Dataset stream, one training example per line',
+      schema: { type: 'string' },
+      contentTypes: [ARCHIVE_CONTENT_TYPES.jsonl]
+    }
+  }
+}, async (req: Request, res: Response) => {
+  const { minRating, corrections, since, until } = req.query as unknown as FineTuningOptions;
+
+  const options: FineTuningOptions = { minRating, corrections };
+  for (const [name, value] of Object.entries({ since, until })) {
+    if (value === undefined) continue;
+
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
       return res.status(400).json({
         success: false,
-        error: 'Valid ID is required'
+        error: `${name} must be an ISO 8601 date`
       });
     }
+    options[name as 'since' | 'until'] = new Date(time).toISOString();
+  }
+
+  res.setHeader('Content-Type', `${ARCHIVE_CONTENT_TYPES.jsonl}; charset=utf-8`);
+  res.setHeader('Content-Disposition', `attachment; filename="fine-tuning-${new Date().toISOString().slice(0, 10)}.jsonl"`);
+
+  await streamDownload(res, feedbackService.dataset(options, tenantOf(req)), 'Error exporting fine-tuning dataset');
+});
+
+api.get('/stats', {
+  summary: 'Get task statistics',
+  description: 'Retrieve statistics about processed tasks, including token usage, estimated cost, latency ' +
+    'percentiles, breakdowns by model, priority and status, a time series, and satisfaction from feedback by ' +
+    'template, model, category and time',
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      bucket: { type: 'string', enum: ['hour', 'day'], default: 'day', description: 'Size of the time buckets' },
+      since: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Only include interactions at or after this time. Without it, time buckets cover the last ' +
+          '24 hours (hourly) or 30 days (daily) while the other figures are all-time.'
+      },
+      until: { type: 'string', format: 'date-time', description: 'Only include interactions before this time' }
+    }
+  },
+  responses: {
+    200: { description: 'Statistics retrieved successfully', schema: apiResponse(TaskStats) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { bucket, since, until } = req.query as StatsOptions;
+
+    const range: { since?: string; until?: string } = {};
+    for (const [name, value] of Object.entries({ since, until })) {
+      if (value === undefined) continue;
+
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        return res.status(400).json({
+          success: false,
+          error: `${name} must be an ISO 8601 date`
+        });
+      }
+      range[name as 'since' | 'until'] = new Date(time).toISOString();
+    }
+
+    const stats = dbService.getStats(tenantOf(req), { bucket, ...range });
+
+    res.json({
+      success: true,
+      data: stats,
+      message: 'Statistics retrieved successfully'
+    });
 
-    const deleted = dbService.deleteInteractionLog(id);
+  } catch (error) {
+    logger.error('Error retrieving stats', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving statistics'
+    });
+  }
+});
+
+api.delete('/logs/:id', {
+  summary: 'Delete specific interaction log',
+  description: 'Move a specific interaction log to the trash, from which it can be restored until it is purged',
+  params: pathParams({ id: 'Interaction log ID to delete' }),
+  responses: {
+    200: { description: 'Log deleted successfully', schema: apiResponse() },
+    404: { description: 'Log not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const deleted = dbService.deleteInteractionLog(req.params.id, tenantOf(req));
 
     if (!deleted) {
       return res.status(404).json({
@@ -385,14 +1185,16 @@ router.delete('/logs/:id', (req: Request, res: Response) => {
         error: 'Interaction log not found'
       });
     }
+    webhookService.emit('log.deleted', { id: req.params.id }, tenantOf(req));
+    auditService.record(auditActorOf(req), 'log.delete', req.params.id);
 
     res.json({
       success: true,
-      message: 'Interaction log deleted successfully'
+      message: 'Interaction log moved to the trash'
     });
 
   } catch (error) {
-    console.error('Error deleting log:', error);
+    logger.error('Error deleting log', { error });
     res.status(500).json({
       success: false,
       error: 'Internal server error while deleting log'
@@ -400,48 +1202,37 @@ router.delete('/logs/:id', (req: Request, res: Response) => {
   }
 });
 
-/**
- * @swagger
- * /api/tasks/logs:
- *   delete:
- *     summary: Delete all interaction logs
- *     description: Delete all interaction logs from the database
- *     tags: [Tasks]
- *     responses:
- *       200:
- *         description: All logs deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: object
- *                       properties:
- *                         deletedCount:
- *                           type: number
- *                           description: Number of logs deleted
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- */
-router.delete('/logs', (req: Request, res: Response) => {
+api.delete('/logs', {
+  summary: 'Delete all interaction logs',
+  description: "Move all of the caller's tenant's interaction logs to the trash",
+  role: 'admin',
+  responses: {
+    200: {
+      description: 'All logs deleted successfully',
+      schema: apiResponse({
+        type: 'object',
+        properties: {
+          deletedCount: { type: 'number', description: 'Number of logs moved to the trash' }
+        }
+      })
+    }
+  }
+}, (req: Request, res: Response) => {
   try {
-    const deletedCount = dbService.deleteAllInteractionLogs();
+    const deletedCount = dbService.deleteAllInteractionLogs(tenantOf(req));
+    if (deletedCount > 0) {
+      webhookService.emit('logs.cleared', { deletedCount }, tenantOf(req));
+      auditService.record(auditActorOf(req), 'logs.clear', undefined, { count: deletedCount });
+    }
 
     res.json({
       success: true,
       data: { deletedCount },
-      message: `Successfully deleted ${deletedCount} interaction logs`
+      message: `Moved ${deletedCount} interaction logs to the trash`
     });
 
   } catch (error) {
-    console.error('Error deleting all logs:', error);
+    logger.error('Error deleting all logs', { error });
     res.status(500).json({
       success: false,
       error: 'Internal server error while deleting logs'
@@ -449,4 +1240,4 @@ router.delete('/logs', (req: Request, res: Response) => {
   }
 });
 
-export default router;
+export default api;
@@ -0,0 +1,254 @@
+import { Request, Response } from 'express';
+import { PromptTemplateService, PromptTemplateError } from '../services/promptTemplateService';
+import { AuditService } from '../services/auditService';
+import { auditActorOf, requireGlobalAdmin } from '../middleware/auth';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse, arrayOf, pathParams } from '../schemas/commonSchemas';
+import { PromptTemplate, PromptTemplateInput, ActivateTemplateBody } from '../schemas/templateSchemas';
+import { AuditActor } from '../types';
+
+const api = new ApiRouter('/api/templates', { tag: 'Templates', secured: true });
+
+// Initialize services
+const templateService = new PromptTemplateService();
+const auditService = new AuditService();
+
+const templateName = pathParams({ name: 'Template name' });
+
+// Templates are shared by every tenant, so changes to them are recorded without one
+const templateActorOf = (req: Request): AuditActor => ({ ...auditActorOf(req), tenantId: undefined });
+
+api.get('/', {
+  summary: 'List prompt templates',
+  description: 'Active version of every template, in the order they are tried when matching a task',
+  responses: {
+    200: { description: 'Templates retrieved successfully', schema: apiResponse(arrayOf(PromptTemplate)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const templates = templateService.list();
+
+    res.json({
+      success: true,
+      data: templates,
+      message: `Retrieved ${templates.length} templates`
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving templates', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving templates'
+    });
+  }
+});
+
+api.post('/', {
+  summary: 'Create a prompt template',
+  description: 'Creates version 1 of a new template and makes it active. Requires an admin key of the default tenant.',
+  role: 'admin',
+  body: { allOf: [PromptTemplateInput, { required: ['name', 'systemTemplate'] }] },
+  responses: {
+    201: { description: 'Template created', schema: apiResponse(PromptTemplate) },
+    409: { description: 'A template with this name already exists' }
+  }
+}, requireGlobalAdmin, (req: Request, res: Response) => {
+  try {
+    const template = templateService.create(req.body);
+    auditService.record(templateActorOf(req), 'template.create', template.name, { version: template.version });
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: 'Template created successfully'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'creating template');
+  }
+});
+
+api.get('/:name', {
+  summary: 'Get a prompt template',
+  description: 'Returns the active version, or a specific version with ?version=',
+  params: templateName,
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      version: { type: 'integer', minimum: 1 }
+    }
+  },
+  responses: {
+    200: { description: 'Template retrieved successfully', schema: apiResponse(PromptTemplate) },
+    404: { description: 'Template not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { version } = req.query as { version?: number };
+    const template = templateService.get(req.params.name, version);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: template,
+      message: 'Template retrieved successfully'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'retrieving template');
+  }
+});
+
+api.get('/:name/versions', {
+  summary: 'List versions of a prompt template',
+  description: 'Every version, newest first',
+  params: templateName,
+  responses: {
+    200: { description: 'Versions retrieved successfully', schema: apiResponse(arrayOf(PromptTemplate)) },
+    404: { description: 'Template not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const versions = templateService.versions(req.params.name);
+
+    if (versions.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      message: `Retrieved ${versions.length} versions`
+    });
+
+  } catch (error) {
+    handleError(res, error, 'retrieving template versions');
+  }
+});
+
+api.patch('/:name', {
+  summary: 'Update a prompt template',
+  description: 'Saves the changes as a new version and makes it active. Fields left out carry over from the active version. Requires an admin key of the default tenant.',
+  role: 'admin',
+  params: templateName,
+  body: PromptTemplateInput,
+  responses: {
+    200: { description: 'New version created', schema: apiResponse(PromptTemplate) },
+    404: { description: 'Template not found' }
+  }
+}, requireGlobalAdmin, (req: Request, res: Response) => {
+  try {
+    const template = templateService.update(req.params.name, req.body);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found'
+      });
+    }
+    auditService.record(templateActorOf(req), 'template.update', template.name, { version: template.version });
+
+    res.json({
+      success: true,
+      data: template,
+      message: `Template updated to version ${template.version}`
+    });
+
+  } catch (error) {
+    handleError(res, error, 'updating template');
+  }
+});
+
+api.post('/:name/activate', {
+  summary: 'Activate a template version',
+  description: 'Makes the given version the one used for new tasks, e.g. to roll back a change. Requires an admin key of the default tenant.',
+  role: 'admin',
+  params: templateName,
+  body: ActivateTemplateBody,
+  responses: {
+    200: { description: 'Version activated', schema: apiResponse(PromptTemplate) },
+    404: { description: 'Template version not found' }
+  }
+}, requireGlobalAdmin, (req: Request, res: Response) => {
+  try {
+    const { version } = req.body;
+    const template = templateService.activate(req.params.name, version);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template version not found'
+      });
+    }
+    auditService.record(templateActorOf(req), 'template.activate', template.name, { version });
+
+    res.json({
+      success: true,
+      data: template,
+      message: `Version ${version} of "${template.name}" is now active`
+    });
+
+  } catch (error) {
+    handleError(res, error, 'activating template version');
+  }
+});
+
+api.delete('/:name', {
+  summary: 'Delete a prompt template',
+  description: 'Deletes every version of the template. The default template cannot be deleted. Requires an admin key of the default tenant.',
+  role: 'admin',
+  params: templateName,
+  responses: {
+    200: { description: 'Template deleted', schema: apiResponse() },
+    404: { description: 'Template not found' },
+    409: { description: 'The default template cannot be deleted' }
+  }
+}, requireGlobalAdmin, (req: Request, res: Response) => {
+  try {
+    if (!templateService.delete(req.params.name)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found'
+      });
+    }
+    auditService.record(templateActorOf(req), 'template.delete', req.params.name);
+
+    res.json({
+      success: true,
+      message: 'Template deleted successfully'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'deleting template');
+  }
+});
+
+// Validation problems carry their own status code; anything else is unexpected
+function handleError(res: Response, error: unknown, action: string): void {
+  if (error instanceof PromptTemplateError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  logger.error(`Error ${action}`, { error });
+  res.status(500).json({
+    success: false,
+    error: `Internal server error while ${action}`
+  });
+}
+
+export default api;
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { UsageService } from '../services/usageService';
+import { subjectOf } from '../middleware/auth';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse } from '../schemas/commonSchemas';
+import { Usage } from '../schemas/usageSchemas';
+
+const api = new ApiRouter('/api/usage', { tag: 'Usage', secured: true });
+
+// Initialize services
+const usageService = new UsageService();
+
+api.get('/', {
+  summary: 'Get usage and limits',
+  description: 'Token and cost usage of the calling API key (or client IP when auth is disabled) for the current ' +
+    'day and month, with the limits that apply to it',
+  responses: {
+    200: { description: 'Usage retrieved successfully', schema: apiResponse(Usage) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const subject = subjectOf(req);
+    const limits = usageService.resolveLimits(req.auth?.limits);
+
+    res.json({
+      success: true,
+      data: {
+        subject,
+        requestsPerMinute: limits.requestsPerMinute,
+        periods: usageService.getUsage(subject, limits)
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error retrieving usage', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error while retrieving usage'
+    });
+  }
+});
+
+export default api;
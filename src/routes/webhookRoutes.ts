@@ -0,0 +1,282 @@
+import { Request, Response } from 'express';
+import { WebhookService, WebhookError } from '../services/webhookService';
+import { auditActorOf, tenantOf } from '../middleware/auth';
+import { AuditService } from '../services/auditService';
+import { WebhookDeliveryStatus } from '../types';
+import { logger } from '../services/logger';
+import { ApiRouter } from './apiRouter';
+import { apiResponse, arrayOf, pathParams, pageQueryProperties } from '../schemas/commonSchemas';
+import {
+  WebhookSubscription, CreatedWebhookSubscription, WebhookSubscriptionInput, WebhookDelivery, DELIVERY_STATUSES
+} from '../schemas/webhookSchemas';
+
+const api = new ApiRouter('/api/webhooks', { tag: 'Webhooks', secured: true });
+
+// Initialize services
+const webhookService = WebhookService.getInstance();
+const auditService = new AuditService();
+
+webhookService.start();
+
+const subscriptionId = pathParams({ id: 'Webhook subscription ID' });
+const deliveryId = pathParams({ id: 'Webhook delivery ID' });
+
+api.get('/', {
+  summary: 'List webhook subscriptions',
+  description: "The caller's tenant's subscriptions, newest first. Secrets are never returned.",
+  responses: {
+    200: { description: 'Subscriptions retrieved successfully', schema: apiResponse(arrayOf(WebhookSubscription)) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const subscriptions = webhookService.list(tenantOf(req));
+
+    res.json({
+      success: true,
+      data: subscriptions,
+      message: `Retrieved ${subscriptions.length} webhook subscriptions`
+    });
+
+  } catch (error) {
+    handleError(res, error, 'retrieving webhook subscriptions');
+  }
+});
+
+api.post('/', {
+  summary: 'Create a webhook subscription',
+  description: 'Events are POSTed as JSON to the URL, signed in the X-Webhook-Signature header as ' +
+    '`t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" keyed with the secret>`. Any response other than 2xx ' +
+    'is retried with exponential backoff.',
+  role: 'admin',
+  body: { allOf: [WebhookSubscriptionInput, { required: ['url'] }] },
+  responses: {
+    201: { description: 'Subscription created', schema: apiResponse(CreatedWebhookSubscription) }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { subscription, secret } = webhookService.create(tenantOf(req), req.body);
+    auditService.record(auditActorOf(req), 'webhook.create', subscription.id, { url: subscription.url, events: subscription.events });
+
+    res.status(201).json({
+      success: true,
+      data: { ...subscription, secret },
+      message: 'Webhook subscription created. Store the secret now; it cannot be shown again.'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'creating webhook subscription');
+  }
+});
+
+// Registered before /:id so "deliveries" is not taken for a subscription ID
+api.get('/deliveries/:id', {
+  summary: 'Get a webhook delivery',
+  description: 'A delivery with its payload and every attempt made, including response status codes',
+  params: deliveryId,
+  responses: {
+    200: { description: 'Delivery retrieved successfully', schema: apiResponse(WebhookDelivery) },
+    404: { description: 'Delivery not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const delivery = webhookService.getDelivery(req.params.id, tenantOf(req));
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook delivery not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: delivery,
+      message: 'Webhook delivery retrieved successfully'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'retrieving webhook delivery');
+  }
+});
+
+api.post('/deliveries/:id/redeliver', {
+  summary: 'Redeliver a webhook',
+  description: "Sends the delivery's payload again as a new delivery with its own attempts. The payload keeps its id.",
+  role: 'admin',
+  params: deliveryId,
+  responses: {
+    202: { description: 'Redelivery queued', schema: apiResponse(WebhookDelivery) },
+    404: { description: 'Delivery not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const delivery = webhookService.redeliver(req.params.id, tenantOf(req));
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook delivery not found'
+      });
+    }
+
+    res.status(202).json({
+      success: true,
+      data: delivery,
+      message: 'Redelivery queued'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'redelivering webhook');
+  }
+});
+
+api.get('/:id', {
+  summary: 'Get a webhook subscription',
+  params: subscriptionId,
+  responses: {
+    200: { description: 'Subscription retrieved successfully', schema: apiResponse(WebhookSubscription) },
+    404: { description: 'Subscription not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const subscription = webhookService.get(req.params.id, tenantOf(req));
+
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook subscription not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: subscription,
+      message: 'Webhook subscription retrieved successfully'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'retrieving webhook subscription');
+  }
+});
+
+api.patch('/:id', {
+  summary: 'Update a webhook subscription',
+  description: 'Change the URL, events or description, or disable and re-enable the subscription. A disabled ' +
+    'subscription receives no new events; deliveries already queued for it are held until it is enabled again.',
+  role: 'admin',
+  params: subscriptionId,
+  body: { ...WebhookSubscriptionInput, minProperties: 1 },
+  responses: {
+    200: { description: 'Subscription updated', schema: apiResponse(WebhookSubscription) },
+    404: { description: 'Subscription not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const subscription = webhookService.update(req.params.id, req.body, tenantOf(req));
+
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook subscription not found'
+      });
+    }
+    auditService.record(auditActorOf(req), 'webhook.update', subscription.id, { changes: req.body });
+
+    res.json({
+      success: true,
+      data: subscription,
+      message: 'Webhook subscription updated successfully'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'updating webhook subscription');
+  }
+});
+
+api.delete('/:id', {
+  summary: 'Delete a webhook subscription',
+  description: 'Deletes the subscription together with its delivery log',
+  role: 'admin',
+  params: subscriptionId,
+  responses: {
+    200: { description: 'Subscription deleted', schema: apiResponse() },
+    404: { description: 'Subscription not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    if (!webhookService.delete(req.params.id, tenantOf(req))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook subscription not found'
+      });
+    }
+    auditService.record(auditActorOf(req), 'webhook.delete', req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Webhook subscription deleted successfully'
+    });
+
+  } catch (error) {
+    handleError(res, error, 'deleting webhook subscription');
+  }
+});
+
+api.get('/:id/deliveries', {
+  summary: 'List webhook deliveries',
+  description: "The subscription's delivery log, newest first",
+  params: subscriptionId,
+  query: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      status: { type: 'string', enum: DELIVERY_STATUSES },
+      ...pageQueryProperties
+    }
+  },
+  responses: {
+    200: { description: 'Deliveries retrieved successfully', schema: apiResponse(arrayOf(WebhookDelivery)) },
+    404: { description: 'Subscription not found' }
+  }
+}, (req: Request, res: Response) => {
+  try {
+    const { status, limit, offset } = req.query as unknown as { status?: WebhookDeliveryStatus; limit: number; offset: number };
+
+    if (!webhookService.get(req.params.id, tenantOf(req))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook subscription not found'
+      });
+    }
+
+    const deliveries = webhookService.deliveries(req.params.id, status, limit, offset);
+
+    res.json({
+      success: true,
+      data: deliveries,
+      message: `Retrieved ${deliveries.length} webhook deliveries`
+    });
+
+  } catch (error) {
+    handleError(res, error, 'retrieving webhook deliveries');
+  }
+});
+
+// Validation problems carry their own status code; anything else is unexpected
+function handleError(res: Response, error: unknown, action: string): void {
+  if (error instanceof WebhookError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  logger.error(`Error ${action}`, { error });
+  res.status(500).json({
+    success: false,
+    error: `Internal server error while ${action}`
+  });
+}
+
+export default api;
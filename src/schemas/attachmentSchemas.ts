@@ -0,0 +1,40 @@
+import { JsonSchema } from '../types';
+
+const ATTACHMENT_FORMATS = ['text', 'markdown', 'csv', 'json', 'html'];
+
+export const Attachment: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: "Unique attachment ID; pass it in a task's attachments" },
+    filename: { type: 'string', examples: ['q3-report.md'] },
+    format: { type: 'string', enum: ATTACHMENT_FORMATS },
+    size: { type: 'integer', description: 'Bytes uploaded' },
+    tokens: { type: 'integer', description: 'Estimated tokens of the extracted text' },
+    chunkCount: { type: 'integer', description: 'Chunks the text was split into' },
+    createdAt: { type: 'string', format: 'date-time' },
+    tenantId: { type: 'string' },
+    subject: { type: 'string', description: 'Usage subject that uploaded the attachment' },
+    requestId: { type: 'string', description: 'X-Request-Id of the upload' }
+  }
+};
+
+export const AttachmentChunk: JsonSchema = {
+  type: 'object',
+  properties: {
+    index: { type: 'integer', description: 'Position in the document, from 0' },
+    content: { type: 'string', description: 'Extracted and redacted text' },
+    tokens: { type: 'integer', description: 'Estimated tokens' }
+  }
+};
+
+export const AttachmentWithChunks: JsonSchema = {
+  allOf: [
+    Attachment,
+    {
+      type: 'object',
+      properties: {
+        chunks: { type: 'array', items: AttachmentChunk }
+      }
+    }
+  ]
+};
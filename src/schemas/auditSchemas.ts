@@ -0,0 +1,32 @@
+import { JsonSchema } from '../types';
+import { AUDIT_ACTIONS } from '../services/auditService';
+
+export const AuditEvent: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    timestamp: { type: 'string', format: 'date-time' },
+    tenantId: { type: 'string', description: 'Absent for operations across every tenant, such as those run from the CLI and template changes' },
+    actor: {
+      type: 'string',
+      description: 'cli:<os user>, system, or the hash of the usage subject (key:<api key id>, or ip:<address> when auth is disabled)',
+      examples: ['sha256:35f1...']
+    },
+    ipAddress: { type: 'string', description: 'Client address truncated to its network' },
+    requestId: { type: 'string', description: 'X-Request-Id of the request that performed the operation' },
+    action: { type: 'string', enum: AUDIT_ACTIONS },
+    target: { type: 'string', description: 'What was acted on, e.g. a log, template or webhook ID' },
+    details: { type: 'object' }
+  }
+};
+
+export const auditQueryProperties: Record<string, JsonSchema> = {
+  action: {
+    type: 'string',
+    description: `Comma-separated actions (${AUDIT_ACTIONS.join(', ')})`
+  },
+  actor: { type: 'string', description: 'Actor, or a usage subject to look up by its hash' },
+  target: { type: 'string' },
+  since: { type: 'string', format: 'date-time' },
+  until: { type: 'string', format: 'date-time' }
+};
@@ -0,0 +1,69 @@
+import { JsonSchema } from '../types';
+import { config } from '../config';
+import { TaskRequest } from './taskSchemas';
+
+const BATCH_FORMATS = ['json', 'jsonl', 'csv'];
+const ITEM_STATUSES = ['success', 'error', 'aborted', 'invalid_output', 'rejected', 'cancelled'];
+
+// A task request as it may appear in a batch. Items always run synchronously within the batch, and
+// since they run concurrently they cannot take turns in a conversation.
+const { mode, conversationId, ...batchItemProperties } = TaskRequest.properties;
+
+export const BatchItem: JsonSchema = {
+  ...TaskRequest,
+  properties: batchItemProperties
+};
+
+export const batchConcurrency: JsonSchema = {
+  type: 'integer',
+  minimum: 1,
+  description: `Items processed at the same time; at most BATCH_CONCURRENCY (${config.batch.concurrency})`
+};
+
+export const BatchRequest: JsonSchema = {
+  type: 'object',
+  required: ['items'],
+  additionalProperties: false,
+  properties: {
+    items: {
+      type: 'array',
+      minItems: 1,
+      maxItems: config.batch.maxItems,
+      // Items are checked one by one, so an invalid item is reported as rejected instead of failing the batch
+      items: { type: 'object' },
+      description: 'Task requests (without mode or conversationId); invalid items are rejected individually'
+    },
+    concurrency: batchConcurrency
+  }
+};
+
+export const TaskBatchItem: JsonSchema = {
+  type: 'object',
+  properties: {
+    index: { type: 'integer', description: 'Position in the input, from 0' },
+    status: {
+      type: 'string',
+      enum: ITEM_STATUSES,
+      description: 'Status of the logged task; rejected items were invalid and cancelled items never ran'
+    },
+    logId: { type: 'string', description: 'Interaction log of an item that ran' },
+    error: { type: 'string', description: 'Why the item was rejected or did not succeed' }
+  }
+};
+
+export const TaskBatch: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Unique batch ID; its logs carry it as batchId' },
+    format: { type: 'string', enum: BATCH_FORMATS, description: 'Format of the input, in which results are downloaded' },
+    total: { type: 'integer' },
+    succeeded: { type: 'integer' },
+    failed: { type: 'integer', description: 'Items that were rejected, cancelled or did not succeed' },
+    createdAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time' },
+    tenantId: { type: 'string' },
+    subject: { type: 'string', description: 'Usage subject that submitted the batch' },
+    requestId: { type: 'string', description: 'X-Request-Id of the request that submitted the batch' },
+    items: { type: 'array', items: TaskBatchItem, description: 'Every item in input order; only returned for a single batch' }
+  }
+};
@@ -0,0 +1,56 @@
+import { JsonSchema } from '../types';
+
+export const ValidationIssue: JsonSchema = {
+  type: 'object',
+  properties: {
+    location: { type: 'string', enum: ['params', 'query', 'body'] },
+    path: { type: 'string', description: 'Dotted path of the offending value', examples: ['body.priority'] },
+    message: { type: 'string', examples: ['must be one of: low, medium, high'] }
+  },
+  required: ['location', 'path', 'message']
+};
+
+export const ApiError: JsonSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', const: false },
+    error: { type: 'string', description: 'What went wrong; for invalid requests, every problem separated by "; "' },
+    message: { type: 'string' },
+    details: { type: 'array', description: 'Each problem with an invalid request', items: ValidationIssue }
+  },
+  required: ['success', 'error']
+};
+
+// The { success, data, message } envelope every JSON route responds with
+export const apiResponse = (data?: JsonSchema, extra: Record<string, JsonSchema> = {}): JsonSchema => ({
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', const: true },
+    ...(data && { data }),
+    message: { type: 'string' },
+    ...extra
+  },
+  required: ['success']
+});
+
+export const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+// Path parameters, all required strings
+export const pathParams = (params: Record<string, string>): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(
+    Object.entries(params).map(([name, description]) => [name, { type: 'string', description }])
+  ),
+  required: Object.keys(params)
+});
+
+// Offset paging used by the list routes other than /logs
+export const pageQueryProperties: Record<string, JsonSchema> = {
+  limit: { type: 'integer', minimum: 1, maximum: 100, default: 50, description: 'Number of items to return' },
+  offset: { type: 'integer', minimum: 0, default: 0, description: 'Number of items to skip' }
+};
+
+export interface PageQuery {
+  limit: number;
+  offset: number;
+}
@@ -0,0 +1,54 @@
+import { JsonSchema } from '../types';
+
+export const Conversation: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Unique conversation ID' },
+    title: { type: 'string', description: 'Conversation title' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    messageCount: { type: 'number', description: 'Number of stored messages' },
+    subject: { type: 'string', description: 'Usage subject (key:<api key id> or ip:<address>) that created the conversation' }
+  }
+};
+
+export const ConversationMessage: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    conversationId: { type: 'string' },
+    role: { type: 'string', enum: ['user', 'assistant'] },
+    content: { type: 'string' },
+    timestamp: { type: 'string', format: 'date-time' },
+    interactionId: { type: 'string', description: 'Interaction log that produced this message' }
+  }
+};
+
+export const ConversationWithMessages: JsonSchema = {
+  allOf: [
+    Conversation,
+    {
+      type: 'object',
+      properties: {
+        messages: { type: 'array', items: ConversationMessage }
+      }
+    }
+  ]
+};
+
+export const CreateConversationBody: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    title: { type: 'string', examples: ['Q4 pipeline review'] }
+  }
+};
+
+export const RenameConversationBody: JsonSchema = {
+  type: 'object',
+  required: ['title'],
+  additionalProperties: false,
+  properties: {
+    title: { type: 'string', pattern: '\\S' }
+  }
+};
@@ -0,0 +1,89 @@
+import { JsonSchema } from '../types';
+import { FEEDBACK_THUMBS } from '../services/feedbackService';
+import { arrayOf } from './commonSchemas';
+
+const MAX_COMMENT_LENGTH = 2_000;
+const MAX_CORRECTION_LENGTH = 10_000;
+
+// What a caller says about an interaction; replaces their earlier feedback on it
+export const FeedbackInput: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  minProperties: 1,
+  properties: {
+    thumbs: { type: 'string', enum: FEEDBACK_THUMBS },
+    rating: { type: 'integer', minimum: 1, maximum: 5, description: '1 (poor) to 5 (excellent)' },
+    comment: { type: 'string', maxLength: MAX_COMMENT_LENGTH },
+    correction: {
+      type: 'string',
+      pattern: '\\S',
+      maxLength: MAX_CORRECTION_LENGTH,
+      description: 'The answer the interaction should have given; used instead of its response in fine-tuning exports'
+    }
+  }
+};
+
+export const InteractionFeedback: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    logId: { type: 'string' },
+    subject: { type: 'string', description: 'Usage subject that gave the feedback; each has one entry per interaction' },
+    thumbs: { type: 'string', enum: FEEDBACK_THUMBS },
+    rating: { type: 'integer', minimum: 1, maximum: 5 },
+    comment: { type: 'string' },
+    correction: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+const feedbackGroupProperties: Record<string, JsonSchema> = {
+  count: { type: 'number', description: 'Feedback entries' },
+  thumbsUp: { type: 'number' },
+  thumbsDown: { type: 'number' },
+  ratings: { type: 'number', description: 'Entries with a rating' },
+  averageRating: { type: 'number' },
+  satisfactionRate: {
+    type: 'number',
+    description: 'Percentage of entries with thumbs or a rating that were positive: a thumbs up or, without thumbs, a rating of 4 or 5'
+  },
+  corrections: { type: 'number' }
+};
+
+export const FeedbackGroup: JsonSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'Template name, model, category, or bucket start time' },
+    ...feedbackGroupProperties
+  }
+};
+
+export const FeedbackStats: JsonSchema = {
+  type: 'object',
+  description: 'Feedback on the interactions included, grouped by their template, model, category and time bucket',
+  properties: {
+    ...feedbackGroupProperties,
+    byTemplate: arrayOf(FeedbackGroup),
+    byModel: arrayOf(FeedbackGroup),
+    byCategory: { ...arrayOf(FeedbackGroup), description: 'By the category given with the task; uncategorized without one' },
+    buckets: { ...arrayOf(FeedbackGroup), description: 'Time series by interaction time, oldest bucket first' }
+  }
+};
+
+export const fineTuningQueryProperties: Record<string, JsonSchema> = {
+  minRating: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 5,
+    default: 4,
+    description: 'Interactions are included when they have a thumbs up or a rating of at least this, and no thumbs down or lower rating'
+  },
+  corrections: {
+    type: 'boolean',
+    default: false,
+    description: 'Also include interactions with a correction, answered with the latest correction'
+  },
+  since: { type: 'string', format: 'date-time' },
+  until: { type: 'string', format: 'date-time' }
+};
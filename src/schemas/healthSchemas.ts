@@ -0,0 +1,12 @@
+import { JsonSchema } from '../types';
+
+export const HealthCheck: JsonSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['healthy', 'unhealthy'], description: 'Overall health status' },
+    timestamp: { type: 'string', format: 'date-time', description: 'Health check timestamp' },
+    uptime: { type: 'number', description: 'Server uptime in seconds' },
+    version: { type: 'string', description: 'Application version' },
+    database: { type: 'string', enum: ['connected', 'disconnected'], description: 'Database connection status' }
+  }
+};
@@ -0,0 +1,54 @@
+import { JsonSchema } from '../types';
+import { ApiError, ValidationIssue } from './commonSchemas';
+import {
+  TaskRequest, RegenerateRequest, TaskResponse, InteractionLog, InteractionLogVersion, TaskJob, StatsGroup, TaskStats, ImportResult, ToolDefinition, OutputSchema
+} from './taskSchemas';
+import { Conversation, ConversationMessage } from './conversationSchemas';
+import { Attachment, AttachmentChunk } from './attachmentSchemas';
+import { PromptTemplate, PromptTemplateInput } from './templateSchemas';
+import { WebhookSubscription, WebhookSubscriptionInput, WebhookDelivery } from './webhookSchemas';
+import { PeriodUsage } from './usageSchemas';
+import { InteractionFeedback, FeedbackInput, FeedbackGroup, FeedbackStats } from './feedbackSchemas';
+import { PrivacyPolicy, SubjectErasure } from './privacySchemas';
+import { BatchRequest, TaskBatch, TaskBatchItem } from './batchSchemas';
+import { AuditEvent } from './auditSchemas';
+import { HealthCheck } from './healthSchemas';
+
+// Schemas published under components.schemas. Wherever one of these objects is used in a route spec,
+// the OpenAPI document refers to it by name instead of repeating it.
+export const componentSchemas: Record<string, JsonSchema> = {
+  ApiError,
+  ValidationIssue,
+  TaskRequest,
+  RegenerateRequest,
+  TaskResponse,
+  InteractionLog,
+  InteractionLogVersion,
+  TaskJob,
+  BatchRequest,
+  TaskBatch,
+  TaskBatchItem,
+  StatsGroup,
+  TaskStats,
+  ImportResult,
+  ToolDefinition,
+  OutputSchema,
+  InteractionFeedback,
+  FeedbackInput,
+  FeedbackGroup,
+  FeedbackStats,
+  Conversation,
+  ConversationMessage,
+  Attachment,
+  AttachmentChunk,
+  PromptTemplate,
+  PromptTemplateInput,
+  WebhookSubscription,
+  WebhookSubscriptionInput,
+  WebhookDelivery,
+  PeriodUsage,
+  PrivacyPolicy,
+  SubjectErasure,
+  AuditEvent,
+  HealthCheck
+};
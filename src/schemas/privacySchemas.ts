@@ -0,0 +1,42 @@
+import { JsonSchema } from '../types';
+
+export const PrivacyPolicy: JsonSchema = {
+  type: 'object',
+  properties: {
+    redaction: {
+      type: 'object',
+      properties: {
+        rules: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Rules masking PII before anything is stored: built-in (email, phone, card, apiKey) and custom',
+          examples: [['apiKey', 'email', 'card', 'phone']]
+        },
+        providerInput: { type: 'boolean', description: 'Tasks are also redacted before they are sent to the provider' }
+      }
+    },
+    retention: {
+      type: 'object',
+      properties: {
+        deleteAfterDays: { type: 'number', description: 'Stored data older than this is deleted (0 keeps it)' },
+        anonymizeIpAfterDays: { type: 'number', description: 'IP addresses older than this are truncated to their network (0 keeps them)' },
+        trashDays: { type: 'number', description: 'Trashed logs are purged this long after they were deleted (0 keeps them until purged)' }
+      }
+    }
+  }
+};
+
+export const SubjectErasure: JsonSchema = {
+  type: 'object',
+  properties: {
+    subject: { type: 'string', examples: ['key:3f2a...'] },
+    interactionLogs: { type: 'number' },
+    conversations: { type: 'number', description: 'Deleted with their messages' },
+    jobs: { type: 'number' },
+    batches: { type: 'number', description: 'Deleted with their items' },
+    attachments: { type: 'number', description: 'Deleted with their chunks' },
+    usageRecords: { type: 'number' },
+    webhookDeliveries: { type: 'number', description: 'Queued or logged deliveries carrying one of the interactions' },
+    feedback: { type: 'number', description: 'Feedback the subject gave; feedback on its interactions is deleted with them' }
+  }
+};
@@ -0,0 +1,324 @@
+import { JsonSchema } from '../types';
+import { PROVIDER_NAMES } from '../config';
+import { arrayOf } from './commonSchemas';
+import { FeedbackStats } from './feedbackSchemas';
+
+export const MAX_TASK_LENGTH = 10_000;
+export const MAX_CONTEXT_LENGTH = 50_000;
+
+const PRIORITIES = ['low', 'medium', 'high'];
+const TASK_STATUSES = ['success', 'error', 'aborted', 'invalid_output'];
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+const TokenUsage: JsonSchema = {
+  type: 'object',
+  properties: {
+    promptTokens: { type: 'integer' },
+    completionTokens: { type: 'integer' },
+    totalTokens: { type: 'integer' }
+  }
+};
+
+export const TaskRequest: JsonSchema = {
+  type: 'object',
+  required: ['task'],
+  additionalProperties: false,
+  properties: {
+    task: {
+      type: 'string',
+      pattern: '\\S',
+      maxLength: MAX_TASK_LENGTH,
+      description: 'The task description',
+      examples: ['analyze leads']
+    },
+    context: {
+      type: 'string',
+      maxLength: MAX_CONTEXT_LENGTH,
+      description: 'Additional context for the task',
+      examples: ['Q4 sales data']
+    },
+    priority: { type: 'string', enum: PRIORITIES, description: 'Task priority level', examples: ['high'] },
+    provider: {
+      type: 'string',
+      enum: PROVIDER_NAMES,
+      description: 'LLM provider to use (defaults to LLM_PROVIDER, or simulator when no key is configured)'
+    },
+    model: {
+      type: 'string',
+      pattern: '\\S',
+      description: "Model name for the provider (defaults to the provider's configured model)",
+      examples: ['gpt-4o-mini']
+    },
+    temperature: {
+      type: 'number',
+      minimum: 0,
+      maximum: 2,
+      description: 'Sampling temperature (defaults to LLM_TEMPERATURE)',
+      examples: [0.2]
+    },
+    conversationId: {
+      type: 'string',
+      description: 'Conversation whose earlier turns are replayed to the model; the new turn is appended to it'
+    },
+    mode: {
+      type: 'string',
+      enum: ['sync', 'async'],
+      default: 'sync',
+      description: 'async queues the task and responds 202 with a job to poll at /api/tasks/jobs/{id}'
+    },
+    template: {
+      type: 'string',
+      pattern: '\\S',
+      description: 'Prompt template to use by name; by default one is matched on the task',
+      examples: ['analysis']
+    },
+    templateVersion: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Template version to use instead of the active one; requires template'
+    },
+    variables: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: "Values for the template's declared variables"
+    },
+    tools: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Tools the model may call (see GET /api/tasks/tools); all of them when omitted, none when empty'
+    },
+    outputSchema: {
+      type: ['string', 'object'],
+      description: 'Return JSON instead of prose: the name of a registered output schema (see GET /api/tasks/output-schemas) ' +
+        'or an inline JSON Schema whose top-level type is object. The parsed result is returned in data.',
+      examples: ['lead_analysis']
+    },
+    cache: {
+      type: 'string',
+      enum: ['use', 'bypass', 'refresh'],
+      default: 'use',
+      description: 'use answers repeated tasks from the response cache; bypass skips the cache; refresh calls the provider ' +
+        'and replaces the cached answer. Streamed tasks and conversation turns are never cached.'
+    },
+    category: {
+      type: 'string',
+      pattern: '^[a-z0-9][a-z0-9_-]{0,63}$',
+      description: 'Label grouping tasks in stats and feedback analytics; recorded as metadata.category',
+      examples: ['lead-analysis']
+    },
+    attachments: {
+      type: 'array',
+      items: { type: 'string', pattern: '\\S' },
+      uniqueItems: true,
+      maxItems: 20,
+      description: 'IDs of uploaded documents (see POST /api/attachments) added to the context. When their text does not ' +
+        'fit ATTACHMENT_CONTEXT_TOKENS, the chunks that best match the task are included; metadata.attachments lists them.'
+    }
+  }
+};
+
+export const RegenerateRequest: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    provider: { ...TaskRequest.properties.provider, description: 'LLM provider to use instead of the one that answered' },
+    model: {
+      ...TaskRequest.properties.model,
+      description: "Model to use instead of the one that answered; the provider's default model when only provider is given"
+    },
+    temperature: { ...TaskRequest.properties.temperature, description: 'Sampling temperature to use instead of the original one' }
+  }
+};
+
+export const TaskResponse: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Unique task ID' },
+    task: { type: 'string', description: 'Original task description' },
+    response: { type: 'string', description: 'AI-generated response' },
+    status: {
+      type: 'string',
+      enum: TASK_STATUSES,
+      description: 'Task processing status (aborted when a stream was cut short, invalid_output when the answer never matched outputSchema)'
+    },
+    timestamp: { type: 'string', format: 'date-time', description: 'When the task was processed' },
+    processingTime: { type: 'number', description: 'Processing time in milliseconds' },
+    metadata: {
+      type: 'object',
+      description: 'Provider, model, template, token usage and estimated cost, plus toolCalls when the model used tools, ' +
+        'attachments with the chunks of each that were included, validationErrors for invalid_output, and cached ' +
+        'and cachedFrom when the answer came from the response cache'
+    },
+    data: { description: 'Parsed JSON answer, present when outputSchema was requested and the answer matched it' }
+  }
+};
+
+export const InteractionLogVersion: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    version: { type: 'integer', description: '1 for the original interaction, counting up with each regeneration' },
+    response: { type: 'string' },
+    status: { type: 'string', enum: TASK_STATUSES },
+    timestamp: { type: 'string', format: 'date-time' },
+    model: { type: 'string' },
+    preferred: { type: 'boolean', description: 'The version marked as the preferred answer' }
+  }
+};
+
+export const InteractionLog: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    task: { type: 'string' },
+    response: { type: 'string' },
+    status: { type: 'string', enum: TASK_STATUSES },
+    timestamp: { type: 'string', format: 'date-time' },
+    processingTime: { type: 'number', description: 'Processing time in milliseconds' },
+    userAgent: { type: 'string' },
+    ipAddress: { type: 'string' },
+    metadata: { type: 'object' },
+    tenantId: { type: 'string' },
+    priority: { type: 'string', enum: PRIORITIES },
+    model: { type: 'string' },
+    usage: TokenUsage,
+    cost: { type: 'number', description: 'Estimated cost in USD' },
+    cached: { type: 'boolean', description: 'Answered from the response cache' },
+    requestId: { type: 'string', description: 'X-Request-Id of the request that ran the task' },
+    subject: { type: 'string', description: 'Usage subject (key:<api key id> or ip:<address>) the interaction belongs to' },
+    deletedAt: { type: 'string', format: 'date-time', description: 'When the log was moved to the trash; only set on trashed logs' },
+    versionOf: { type: 'string', description: 'ID of the original interaction this log regenerated' },
+    version: { type: 'integer', description: '1 for the original interaction, counting up with each regeneration' },
+    preferred: { type: 'boolean', description: 'Marked as the preferred version of its interaction' },
+    batchId: { type: 'string', description: 'Batch the task was submitted in' },
+    versions: {
+      type: 'array',
+      items: InteractionLogVersion,
+      description: 'Every version of the interaction, oldest first; only returned when a single log is fetched'
+    }
+  }
+};
+
+export const TaskJob: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Unique job ID' },
+    status: { type: 'string', enum: JOB_STATUSES },
+    priority: {
+      type: 'string',
+      enum: PRIORITIES,
+      description: 'Scheduling priority; higher priority jobs are started first'
+    },
+    request: TaskRequest,
+    result: TaskResponse,
+    error: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    startedAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time' },
+    requestId: { type: 'string', description: 'X-Request-Id of the request that queued the job' }
+  }
+};
+
+export const StatsGroup: JsonSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'Model, priority, status, or bucket start time' },
+    count: { type: 'number' },
+    successRate: { type: 'number' },
+    averageProcessingTime: { type: 'number' },
+    totalTokens: { type: 'number' },
+    cost: { type: 'number', description: 'Estimated cost in USD' },
+    cacheHits: { type: 'number', description: 'Interactions answered from the response cache' },
+    cacheHitRate: { type: 'number', description: 'Cache hit percentage' }
+  }
+};
+
+export const TaskStats: JsonSchema = {
+  type: 'object',
+  properties: {
+    totalInteractions: { type: 'number', description: 'Total number of interactions' },
+    successRate: { type: 'number', description: 'Success rate percentage' },
+    averageProcessingTime: { type: 'number', description: 'Average processing time in milliseconds' },
+    latency: {
+      type: 'object',
+      description: 'Processing time percentiles in milliseconds',
+      properties: {
+        p50: { type: 'number' },
+        p95: { type: 'number' },
+        p99: { type: 'number' }
+      }
+    },
+    promptTokens: { type: 'number' },
+    completionTokens: { type: 'number' },
+    totalTokens: { type: 'number' },
+    totalCost: { type: 'number', description: 'Estimated cost in USD' },
+    cacheHits: { type: 'number', description: 'Interactions answered from the response cache' },
+    cacheHitRate: { type: 'number', description: 'Cache hit percentage' },
+    byModel: arrayOf(StatsGroup),
+    byPriority: arrayOf(StatsGroup),
+    byStatus: arrayOf(StatsGroup),
+    bucket: { type: 'string', enum: ['hour', 'day'] },
+    buckets: { ...arrayOf(StatsGroup), description: 'Time series, oldest bucket first' },
+    feedback: FeedbackStats
+  }
+};
+
+export const ImportResult: JsonSchema = {
+  type: 'object',
+  properties: {
+    imported: { type: 'number' },
+    skipped: { type: 'number', description: 'Logs whose id already existed' },
+    failed: { type: 'number' },
+    errors: { type: 'array', items: { type: 'string' }, description: 'First few problems, with the line or row they came from' }
+  }
+};
+
+// Trashed logs to restore or purge; without ids the operation applies to the whole trash
+export const TrashSelection: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    ids: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 1000, description: 'Interaction log IDs' }
+  }
+};
+
+export const ToolDefinition: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    parameters: { type: 'object', description: 'JSON schema of the arguments' }
+  }
+};
+
+export const OutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    schema: { type: 'object', description: 'JSON Schema the answer must match' }
+  }
+};
+
+// Filters shared by /logs and /logs/export; lists are comma-separated and checked by parseLogQuery
+export const logFilterProperties: Record<string, JsonSchema> = {
+  q: {
+    type: 'string',
+    description: 'Full-text search over task and response (words match as prefixes)',
+    examples: ['lead analysis']
+  },
+  status: { type: 'string', description: `Comma-separated statuses (${TASK_STATUSES.join(', ')})` },
+  priority: { type: 'string', description: `Comma-separated priorities (${PRIORITIES.join(', ')})` },
+  model: { type: 'string', description: 'Comma-separated model names' },
+  requestId: { type: 'string', description: 'X-Request-Id of the request that ran the task' },
+  batchId: { type: 'string', description: 'Batch the task was submitted in' },
+  since: { type: 'string', format: 'date-time' },
+  until: { type: 'string', format: 'date-time' },
+  minProcessingTime: { type: 'integer', minimum: 0, description: 'Minimum processing time in milliseconds' },
+  maxProcessingTime: { type: 'integer', minimum: 0, description: 'Maximum processing time in milliseconds' },
+  sort: { type: 'string', enum: ['timestamp', 'processingTime', 'totalTokens', 'cost'], default: 'timestamp' },
+  order: { type: 'string', enum: ['asc', 'desc'], default: 'desc' }
+};
+
+// metadata.<key>=<value> filters
+export const METADATA_FILTER = { '^metadata\\.': { type: 'string' } };
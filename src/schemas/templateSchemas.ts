@@ -0,0 +1,68 @@
+import { JsonSchema } from '../types';
+
+const TemplateVariable: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    required: { type: 'boolean' },
+    default: { type: 'string' }
+  }
+};
+
+const TemplateMatchRules: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  description: 'Rules for picking this template when a task does not name one',
+  properties: {
+    keywords: { type: 'array', items: { type: 'string' }, description: 'Whole words or phrases, any of which match' },
+    pattern: { type: 'string', description: 'Case-insensitive regular expression' }
+  }
+};
+
+export const PromptTemplate: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'ID of this version; recorded as metadata.templateId on each task' },
+    name: { type: 'string', examples: ['analysis'] },
+    version: { type: 'integer' },
+    description: { type: 'string' },
+    systemTemplate: { type: 'string', description: 'System prompt. Supports {{variable}} and {{#variable}}...{{/variable}}' },
+    userTemplate: {
+      type: 'string',
+      description: 'User prompt; task, context and priority are always available',
+      examples: ['Task: {{task}}{{#context}}\n\nContext: {{context}}{{/context}}']
+    },
+    variables: { type: 'array', items: TemplateVariable },
+    match: TemplateMatchRules,
+    priority: { type: 'integer', description: 'Higher priorities are tried first' },
+    active: { type: 'boolean', description: 'Whether this version is used for new tasks' },
+    createdAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+// Placeholders and names are checked by PromptTemplateService, which the CLI shares
+export const PromptTemplateInput: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', examples: ['analysis'] },
+    description: { type: 'string' },
+    systemTemplate: { type: 'string' },
+    userTemplate: { type: 'string' },
+    variables: { type: 'array', items: TemplateVariable },
+    match: TemplateMatchRules,
+    priority: { type: 'integer' }
+  }
+};
+
+export const ActivateTemplateBody: JsonSchema = {
+  type: 'object',
+  required: ['version'],
+  additionalProperties: false,
+  properties: {
+    version: { type: 'integer', minimum: 1 }
+  }
+};
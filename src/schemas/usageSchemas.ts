@@ -0,0 +1,23 @@
+import { JsonSchema } from '../types';
+
+export const PeriodUsage: JsonSchema = {
+  type: 'object',
+  properties: {
+    period: { type: 'string', enum: ['daily', 'monthly'] },
+    requests: { type: 'number', description: 'Tasks that reported token usage in this period' },
+    tokens: { type: 'number' },
+    cost: { type: 'number', description: 'Estimated cost in USD' },
+    tokenLimit: { type: 'number', description: 'Token quota for the period (0 means unlimited)' },
+    costLimit: { type: 'number', description: 'Cost quota in USD for the period (0 means unlimited)' },
+    resetsAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+export const Usage: JsonSchema = {
+  type: 'object',
+  properties: {
+    subject: { type: 'string', examples: ['key:3f2a...'] },
+    requestsPerMinute: { type: 'number' },
+    periods: { type: 'array', items: PeriodUsage }
+  }
+};
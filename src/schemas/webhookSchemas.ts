@@ -0,0 +1,89 @@
+import { JsonSchema } from '../types';
+import { WEBHOOK_EVENTS } from '../services/webhookService';
+
+export const DELIVERY_STATUSES = ['pending', 'delivering', 'succeeded', 'failed'];
+
+const WebhookEvents: JsonSchema = {
+  type: 'array',
+  items: { type: 'string', enum: WEBHOOK_EVENTS },
+  minItems: 1,
+  uniqueItems: true,
+  description: 'Events to deliver: task.completed, task.failed (any status but success), log.deleted and logs.cleared'
+};
+
+export const WebhookSubscription: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tenantId: { type: 'string' },
+    url: { type: 'string', format: 'uri', examples: ['https://example.com/hooks/assistant'] },
+    events: WebhookEvents,
+    description: { type: 'string' },
+    active: { type: 'boolean', description: 'A disabled subscription receives no new events; its queued deliveries wait until it is enabled again' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+export const CreatedWebhookSubscription: JsonSchema = {
+  allOf: [
+    WebhookSubscription,
+    {
+      type: 'object',
+      properties: {
+        secret: {
+          type: 'string',
+          description: 'Signing secret for the X-Webhook-Signature header. It is only returned here.'
+        }
+      }
+    }
+  ]
+};
+
+export const WebhookSubscriptionInput: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    url: { type: 'string', format: 'uri', description: 'http or https URL the events are POSTed to' },
+    events: { ...WebhookEvents, description: `${WebhookEvents.description}. Every event when omitted.` },
+    description: { type: 'string', maxLength: 500 },
+    active: { type: 'boolean' }
+  }
+};
+
+const WebhookDeliveryAttempt: JsonSchema = {
+  type: 'object',
+  properties: {
+    attempt: { type: 'integer' },
+    attemptedAt: { type: 'string', format: 'date-time' },
+    statusCode: { type: 'integer', description: 'Absent when no response was received' },
+    error: { type: 'string' },
+    durationMs: { type: 'number' }
+  }
+};
+
+export const WebhookDelivery: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Sent as X-Webhook-Delivery' },
+    subscriptionId: { type: 'string' },
+    event: { type: 'string', enum: WEBHOOK_EVENTS },
+    payload: {
+      type: 'object',
+      description: 'The JSON body that is POSTed; its id is sent as X-Webhook-Id and is the same for every delivery of an event',
+      properties: {
+        id: { type: 'string' },
+        event: { type: 'string', enum: WEBHOOK_EVENTS },
+        createdAt: { type: 'string', format: 'date-time' },
+        tenantId: { type: 'string' },
+        data: { type: 'object', description: 'The interaction log for task events, { id } for log.deleted, { deletedCount } for logs.cleared' }
+      }
+    },
+    status: { type: 'string', enum: DELIVERY_STATUSES },
+    attempts: { type: 'array', items: WebhookDeliveryAttempt },
+    nextAttemptAt: { type: 'string', format: 'date-time', description: 'When a pending delivery is tried next' },
+    redeliveryOf: { type: 'string', description: 'The delivery this one resends' },
+    createdAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time' }
+  }
+};
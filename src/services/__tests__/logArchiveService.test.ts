@@ -0,0 +1,132 @@
+import { DatabaseService } from '../../database/schema';
+import { LogArchiveService, readRecords, ArchiveFormat } from '../logArchiveService';
+import { PiiRedactor } from '../piiRedactor';
+import { InteractionLog } from '../../types';
+
+const logs: InteractionLog[] = [
+  {
+    id: 'log-1',
+    task: 'Summarize "Q3", then list risks, owners',
+    response: 'Line one\nLine two, with a comma\r\nand a "quoted" word',
+    status: 'success',
+    timestamp: '2024-06-01T10:00:00.000Z',
+    processingTime: 120,
+    priority: 'high',
+    model: 'gpt-4o-mini',
+    usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+    cost: 0.0012,
+    userAgent: 'curl/8.0',
+    ipAddress: '203.0.113.7',
+    metadata: { templateName: 'report', tools: ['get_current_time'], note: 'a, "b"\nc' },
+    tenantId: 'default',
+    cached: true,
+    requestId: 'req-1',
+    version: 1,
+    preferred: false
+  },
+  {
+    id: 'log-2',
+    task: 'Ünïcödé and emoji 🚀',
+    response: '',
+    status: 'error',
+    timestamp: '2024-06-01T11:00:00.000Z',
+    processingTime: 5,
+    tenantId: 'default',
+    cached: false,
+    version: 1,
+    preferred: false
+  }
+];
+
+// Feeds text in pieces of `size` characters, so quotes, escapes and line breaks land on chunk boundaries
+async function* inPieces(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+};
+
+const openService = () => {
+  const db = new DatabaseService(':memory:', { autoMigrate: true });
+  return { db, archive: new LogArchiveService(db, new PiiRedactor({ rules: [], customPatterns: [], redactProviderInput: false })) };
+};
+
+describe('LogArchiveService', () => {
+  describe.each<ArchiveFormat>(['csv', 'jsonl'])('%s archives', format => {
+    it.each([1, 7, 4096])('restore exactly what was exported, read in pieces of %i characters', async size => {
+      const source = openService();
+      logs.forEach(log => source.db.saveInteractionLog(log));
+      const archive = Array.from(source.archive.export({}, format)).join('');
+
+      const target = openService();
+      const result = await target.archive.import(inPieces(archive, size), format);
+
+      expect(result).toEqual({ imported: 2, skipped: 0, failed: 0, errors: [] });
+      for (const log of logs) {
+        expect(target.db.getInteractionLogById(log.id)).toEqual(source.db.getInteractionLogById(log.id));
+      }
+    });
+
+    it('skips logs that already exist when imported again', async () => {
+      const { db, archive } = openService();
+      logs.forEach(log => db.saveInteractionLog(log));
+      const exported = Array.from(archive.export({}, format)).join('');
+
+      expect(await archive.import(inPieces(exported, 4096), format)).toEqual({ imported: 0, skipped: 2, failed: 0, errors: [] });
+    });
+  });
+
+  it('reports invalid rows with their position and imports the rest', async () => {
+    const { archive } = openService();
+    const csv = 'id,task,response,status,timestamp,processingTime\r\n' +
+      'ok,task,done,success,2024-06-01T10:00:00.000Z,10\r\n' +
+      'bad,task,done,unknown,2024-06-01T10:00:00.000Z,10\r\n';
+
+    const result = await archive.import(inPieces(csv, 4096), 'csv');
+
+    expect(result.imported).toBe(1);
+    expect(result.failed).toBe(1);
+    expect(result.errors).toEqual([expect.stringMatching(/^row 2: /)]);
+  });
+});
+
+describe('readRecords', () => {
+  it('parses quoted CSV fields with commas, escaped quotes and line breaks', async () => {
+    const csv = 'name,"note"\r\nplain,"a, b"\r\nquoted,"say ""hi"""\r\nmultiline,"one\r\ntwo"\r\n\r\nlast,';
+
+    const records = await collect(readRecords(inPieces(csv, 1), 'csv'));
+
+    expect(records.map(record => record.value)).toEqual([
+      { name: 'plain', note: 'a, b' },
+      { name: 'quoted', note: 'say "hi"' },
+      { name: 'multiline', note: 'one\r\ntwo' },
+      { name: 'last', note: '' }
+    ]);
+  });
+
+  it('decodes multi-byte characters split across buffers', async () => {
+    const bytes = Buffer.from('{"task":"🚀 launch"}\n');
+    const pieces = async function* () {
+      for (const byte of bytes) yield Buffer.from([byte]);
+    };
+
+    const records = await collect(readRecords(pieces(), 'jsonl'));
+
+    expect(records).toEqual([{ value: { task: '🚀 launch' }, position: 'line 1' }]);
+  });
+
+  it('reports JSONL lines that are not objects', async () => {
+    const records = await collect(readRecords(inPieces('{"a":1}\n\n[1]\nnot json\n', 4096), 'jsonl'));
+
+    expect(records).toEqual([
+      { value: { a: 1 }, position: 'line 1' },
+      { position: 'line 3', error: 'expected a JSON object' },
+      { position: 'line 4', error: 'invalid JSON' }
+    ]);
+  });
+});
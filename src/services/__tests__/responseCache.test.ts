@@ -0,0 +1,145 @@
+import { ResponseCache, cacheKey } from '../responseCache';
+import { TaskResponse, TaskTarget } from '../../types';
+
+const response = (result: string, changes: Partial<TaskResponse> = {}): TaskResponse => ({
+  id: `id-${result}`,
+  task: 'analyze leads',
+  response: result,
+  status: 'success',
+  timestamp: '2024-06-01T00:00:00.000Z',
+  processingTime: 10,
+  ...changes
+});
+
+// A compute whose answer is released by calling `resolve`
+const deferred = () => {
+  let resolve!: (value: TaskResponse) => void;
+  const promise = new Promise<TaskResponse>(done => {
+    resolve = done;
+  });
+  return { compute: jest.fn(() => promise), resolve };
+};
+
+const target: TaskTarget = { provider: 'openai', model: 'gpt-4o-mini', templateId: 'default', templateVersion: 1 };
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('answers repeated requests from the cache until the TTL expires', async () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T00:00:00.000Z') });
+    const cache = new ResponseCache({ ttlMs: 1000, maxEntries: 10 });
+    const compute = jest.fn(async () => response('fresh'));
+
+    expect((await cache.run('key', 'use', compute)).source).toBe('miss');
+    jest.advanceTimersByTime(999);
+    expect(await cache.run('key', 'use', compute)).toEqual({ response: response('fresh'), source: 'hit' });
+
+    jest.advanceTimersByTime(1);
+    expect((await cache.run('key', 'use', compute)).source).toBe('miss');
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently used answer beyond the maximum entries', async () => {
+    const cache = new ResponseCache({ ttlMs: 60000, maxEntries: 2 });
+    const compute = (result: string) => jest.fn(async () => response(result));
+
+    await cache.run('a', 'use', compute('a'));
+    await cache.run('b', 'use', compute('b'));
+    await cache.run('a', 'use', compute('a'));
+    await cache.run('c', 'use', compute('c'));
+
+    expect((await cache.run('a', 'use', compute('a'))).source).toBe('hit');
+    expect((await cache.run('c', 'use', compute('c'))).source).toBe('hit');
+    expect((await cache.run('b', 'use', compute('b'))).source).toBe('miss');
+  });
+
+  it('does not store failures, tool answers or fallback answers', async () => {
+    const cache = new ResponseCache({ ttlMs: 60000, maxEntries: 10 });
+
+    for (const changes of [
+      { status: 'error' as const },
+      { metadata: { toolCalls: [{ name: 'get_current_time' }] } },
+      { metadata: { fallback: { provider: 'anthropic' } } }
+    ]) {
+      const compute = jest.fn(async () => response('answer', changes));
+      await cache.run('key', 'use', compute);
+      await cache.run('key', 'use', compute);
+      expect(compute).toHaveBeenCalledTimes(2);
+    }
+  });
+
+  it('skips the cache on refresh but stores the new answer', async () => {
+    const cache = new ResponseCache({ ttlMs: 60000, maxEntries: 10 });
+
+    await cache.run('key', 'use', async () => response('old'));
+    expect(await cache.run('key', 'refresh', async () => response('new'))).toEqual({ response: response('new'), source: 'miss' });
+    expect(await cache.run('key', 'use', async () => response('unused'))).toEqual({ response: response('new'), source: 'hit' });
+  });
+
+  it('coalesces identical requests into the call already in flight', async () => {
+    const cache = new ResponseCache({ ttlMs: 0, maxEntries: 10 });
+    const leader = deferred();
+    const follower = jest.fn(async () => response('own'));
+
+    const first = cache.run('key', 'use', leader.compute);
+    const second = cache.run('key', 'use', follower);
+    leader.resolve(response('shared'));
+
+    expect(await first).toEqual({ response: response('shared'), source: 'miss' });
+    expect(await second).toEqual({ response: response('shared'), source: 'coalesced' });
+    expect(follower).not.toHaveBeenCalled();
+  });
+
+  it('lets followers run their own call when the first request fails', async () => {
+    const cache = new ResponseCache({ ttlMs: 0, maxEntries: 10 });
+    const leader = deferred();
+    const follower = jest.fn(async () => response('own'));
+
+    const first = cache.run('key', 'use', leader.compute);
+    const second = cache.run('key', 'use', follower);
+    leader.resolve(response('failed', { status: 'error' }));
+
+    await first;
+    expect(await second).toEqual({ response: response('own'), source: 'miss' });
+  });
+
+  it('does not start a call for a follower aborted while it waits', async () => {
+    const cache = new ResponseCache({ ttlMs: 0, maxEntries: 10 });
+    const leader = deferred();
+    const controller = new AbortController();
+    const aborted = response('aborted', { status: 'aborted' });
+    const follower = jest.fn(async () => aborted);
+
+    const first = cache.run('key', 'use', leader.compute);
+    const second = cache.run('key', 'use', follower, controller.signal);
+    controller.abort();
+
+    expect(await second).toEqual({ response: aborted, source: 'miss' });
+
+    // The leader is still the call in flight, so later requests keep waiting on it
+    const third = cache.run('key', 'use', jest.fn(async () => response('own')));
+    leader.resolve(response('shared'));
+    await first;
+    expect(await third).toEqual({ response: response('shared'), source: 'coalesced' });
+  });
+});
+
+describe('cacheKey', () => {
+  it('ignores whitespace and the order of tools and object keys', () => {
+    const key = cacheKey({ task: 'analyze  leads ', tools: ['a', 'b'], variables: { x: '1', y: '2' } }, target);
+
+    expect(cacheKey({ task: 'analyze leads', tools: ['b', 'a'], variables: { y: '2', x: '1' } }, target)).toBe(key);
+  });
+
+  it('differs by tenant, model, template version and options', () => {
+    const key = cacheKey({ task: 'analyze leads' }, target, 'acme');
+
+    expect(cacheKey({ task: 'analyze leads' }, target, 'globex')).not.toBe(key);
+    expect(cacheKey({ task: 'analyze leads' }, { ...target, model: 'gpt-4o' }, 'acme')).not.toBe(key);
+    expect(cacheKey({ task: 'analyze leads' }, { ...target, templateVersion: 2 }, 'acme')).not.toBe(key);
+    expect(cacheKey({ task: 'analyze leads', temperature: 0 }, target, 'acme')).not.toBe(key);
+    expect(cacheKey({ task: 'analyze leads', attachments: ['doc'] }, target, 'acme')).not.toBe(key);
+  });
+});
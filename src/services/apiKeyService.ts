@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { ApiKey, ApiKeyRole, UsageLimits } from '../types';
+
+const KEY_PREFIX = 'aam_';
+
+// Keys are long random strings, so a fast unsalted hash is enough to make a leaked table useless
+export const hashApiKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  // The plaintext key, returned once at creation and never stored
+  key: string;
+}
+
+export class ApiKeyService {
+  constructor(private dbService: DatabaseService = DatabaseService.getInstance()) {}
+
+  public issue(tenantId: string, name: string, role: ApiKeyRole = 'user'): IssuedApiKey {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      tenantId,
+      name,
+      keyPrefix: key.slice(0, KEY_PREFIX.length + 8),
+      role,
+      createdAt: new Date().toISOString()
+    };
+
+    this.dbService.createApiKey(apiKey, hashApiKey(key));
+    return { apiKey, key };
+  }
+
+  // Returns the active key record matching a presented key, or null
+  public verify(key: string): ApiKey | null {
+    const apiKey = this.dbService.getActiveApiKeyByHash(hashApiKey(key));
+
+    if (apiKey) {
+      this.dbService.touchApiKey(apiKey.id);
+    }
+    return apiKey;
+  }
+
+  public list(): ApiKey[] {
+    return this.dbService.getApiKeys();
+  }
+
+  // Replaces the key's overrides of the configured default limits; an empty object restores the defaults
+  public setLimits(id: string, limits: Partial<UsageLimits>): boolean {
+    return this.dbService.setApiKeyLimits(id, limits);
+  }
+
+  public revoke(id: string): boolean {
+    return this.dbService.revokeApiKey(id);
+  }
+}
@@ -0,0 +1,306 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { config } from '../config';
+import { PiiRedactor } from './piiRedactor';
+import { estimateTokens } from './conversationService';
+import { Attachment, AttachmentChunk, AttachmentFormat, AttachmentUse } from '../types';
+
+export const ATTACHMENT_FORMATS: AttachmentFormat[] = ['text', 'markdown', 'csv', 'json', 'html'];
+
+export const ATTACHMENT_CONTENT_TYPES: Record<AttachmentFormat, string> = {
+  text: 'text/plain',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html'
+};
+
+const EXTENSION_FORMATS: Record<string, AttachmentFormat> = {
+  txt: 'text',
+  text: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+  json: 'json',
+  html: 'html',
+  htm: 'html'
+};
+
+export interface AttachmentSettings {
+  maxBytes: number;
+  chunkTokens: number;
+  contextTokens: number;
+}
+
+// Attachment text for one task, and which chunks of each attachment it includes
+export interface AttachmentContext {
+  text: string;
+  used: AttachmentUse[];
+}
+
+export class AttachmentError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+// The format named by the content type or, for other content types, by the file extension
+export const attachmentFormatOf = (contentType?: string, filename?: string): AttachmentFormat | undefined => {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+  const byType = ATTACHMENT_FORMATS.find(format => ATTACHMENT_CONTENT_TYPES[format] === mediaType);
+  if (byType) return byType;
+
+  const extension = filename && filename.includes('.') ? filename.slice(filename.lastIndexOf('.') + 1).toLowerCase() : '';
+  return EXTENSION_FORMATS[extension];
+};
+
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+const decode = (content: Buffer): string => {
+  let text: string;
+  try {
+    text = decoder.decode(content);
+  } catch {
+    throw new AttachmentError('Attachments must be UTF-8 text');
+  }
+
+  if (text.includes('\u0000')) {
+    throw new AttachmentError('Attachments must be text, not binary files');
+  }
+  return text.replace(/\r\n?/g, '\n');
+};
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = /^#x/i.test(name) ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+// The visible text, with block elements on lines of their own. Scripts, styles, the head and comments are dropped.
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/?(p|div|section|article|header|footer|main|nav|aside|h[1-6]|ul|ol|li|table|tr|blockquote|pre|hr)\b[^>]*>/gi, '\n')
+      .replace(/<\/t[dh]\s*>/gi, '\t')
+      .replace(/<[^>]*>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+
+const extractText = (text: string, format: AttachmentFormat): string => {
+  switch (format) {
+    case 'json':
+      try {
+        return JSON.stringify(JSON.parse(text), null, 2);
+      } catch (error) {
+        throw new AttachmentError(`Invalid JSON: ${(error as Error).message}`);
+      }
+    case 'html':
+      return htmlToText(text);
+    default:
+      return text;
+  }
+};
+
+// Paragraphs, then lines, then words; text without any of them is cut at the limit
+const SEPARATORS = ['\n\n', '\n', ' '];
+
+// Pieces of at most maxChars, broken at the largest of the separators that makes them fit
+const splitText = (text: string, maxChars: number, level: number = 0): string[] => {
+  if (text.length <= maxChars) return [text];
+  if (level === SEPARATORS.length) {
+    return Array.from({ length: Math.ceil(text.length / maxChars) }, (_, i) => text.slice(i * maxChars, (i + 1) * maxChars));
+  }
+
+  const separator = SEPARATORS[level];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const part of text.split(separator).flatMap(part => splitText(part, maxChars, level + 1))) {
+    if (!part.trim()) continue;
+
+    if (current && current.length + separator.length + part.length > maxChars) {
+      pieces.push(current);
+      current = part;
+    } else {
+      current = current ? current + separator + part : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Rows of a CSV file; line breaks inside quoted cells stay within their row
+const csvRows = (text: string): string[] => {
+  const rows: string[] = [];
+  let current: string | undefined;
+
+  for (const line of text.split('\n')) {
+    current = current === undefined ? line : `${current}\n${line}`;
+    if ((current.match(/"/g) || []).length % 2 === 0) {
+      rows.push(current);
+      current = undefined;
+    }
+  }
+  if (current !== undefined) rows.push(current);
+  return rows.filter(row => row.trim());
+};
+
+// Whole rows, each chunk starting with the header row so its columns stay named
+const chunkCsv = (text: string, maxChars: number): string[] => {
+  const [header, ...rows] = csvRows(text);
+  if (rows.length === 0) return [header];
+
+  const budget = Math.max(1, maxChars - header.length - 1);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const row of rows.flatMap(row => splitText(row, budget))) {
+    if (current && current.length + 1 + row.length > budget) {
+      chunks.push(current);
+      current = row;
+    } else {
+      current = current ? `${current}\n${row}` : row;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks.map(chunk => `${header}\n${chunk}`);
+};
+
+const toChunks = (text: string, format: AttachmentFormat, chunkTokens: number): AttachmentChunk[] => {
+  // estimateTokens counts four characters to a token
+  const maxChars = chunkTokens * 4;
+  const pieces = format === 'csv' ? chunkCsv(text, maxChars) : splitText(text.replace(/\n{3,}/g, '\n\n'), maxChars);
+
+  return pieces.map((content, index) => ({ index, content, tokens: estimateTokens(content) }));
+};
+
+// Words of three or more letters or digits
+const termsOf = (text: string): Set<string> => new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+
+// Stores documents uploaded as task context. Their text is extracted (HTML is reduced to its visible text
+// and JSON is pretty-printed), redacted like everything else that is stored, and split into chunks of
+// about ATTACHMENT_CHUNK_TOKENS. A task that names attachments is given as many of their chunks as fit
+// ATTACHMENT_CONTEXT_TOKENS.
+export class AttachmentService {
+  constructor(
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private redactor: PiiRedactor = new PiiRedactor(),
+    private settings: AttachmentSettings = config.attachments
+  ) {}
+
+  // The format is detected from the content type or file name by the caller; undefined means unsupported
+  public async upload(
+    source: AsyncIterable<Buffer | string>,
+    filename: string,
+    format: AttachmentFormat | undefined,
+    owner: Pick<Attachment, 'tenantId' | 'subject' | 'requestId'> = {}
+  ): Promise<Attachment> {
+    if (!format) {
+      throw new AttachmentError('Attachments must be text, Markdown, CSV, JSON or HTML files', 415);
+    }
+
+    const content = await this.read(source);
+    const text = this.redactor.redactText(extractText(decode(content), format).trim());
+    if (!text) {
+      throw new AttachmentError('The file contains no text');
+    }
+
+    const chunks = toChunks(text, format, this.settings.chunkTokens);
+    const attachment: Attachment = {
+      id: uuidv4(),
+      filename: this.redactor.redactText(filename),
+      format,
+      size: content.length,
+      tokens: estimateTokens(text),
+      chunkCount: chunks.length,
+      createdAt: new Date().toISOString(),
+      ...owner
+    };
+
+    this.dbService.createAttachment(attachment, chunks);
+    return attachment;
+  }
+
+  // Throws AttachmentError when any of them does not exist in the tenant
+  public resolve(ids: string[], tenantId?: string): Attachment[] {
+    const unique = [...new Set(ids)];
+    const attachments = unique.map(id => this.dbService.getAttachmentById(id, tenantId));
+    const missing = unique.filter((_, i) => !attachments[i]);
+
+    if (missing.length > 0) {
+      throw new AttachmentError(`Attachment(s) not found: ${missing.join(', ')}`, 404);
+    }
+    return attachments as Attachment[];
+  }
+
+  // The attachment text for a task, within `maxTokens` and the configured budget. When it does not all
+  // fit, the chunks sharing the most words with the task are kept (earlier ones first on a tie) and given
+  // in document order.
+  public context(ids: string[], task: string, tenantId?: string, maxTokens: number = Infinity): AttachmentContext {
+    const attachments = this.resolve(ids, tenantId);
+    const budget = Math.min(maxTokens, this.settings.contextTokens);
+    const candidates = attachments.flatMap(attachment =>
+      this.dbService.getAttachmentChunks(attachment.id).map(chunk => {
+        const text = `[${attachment.filename}, part ${chunk.index + 1} of ${attachment.chunkCount}]\n${chunk.content}`;
+        return { attachment, chunk, text, tokens: estimateTokens(text) };
+      })
+    );
+
+    let selected = candidates;
+    if (candidates.reduce((total, candidate) => total + candidate.tokens, 0) > budget) {
+      const terms = termsOf(task);
+      const score = (content: string) => [...termsOf(content)].filter(term => terms.has(term)).length;
+      const ranked = candidates
+        .map((candidate, position) => ({ candidate, position, score: score(candidate.chunk.content) }))
+        .sort((a, b) => b.score - a.score || a.position - b.position);
+
+      const kept = new Set<typeof candidates[number]>();
+      let used = 0;
+      for (const { candidate } of ranked) {
+        if (used + candidate.tokens <= budget) {
+          kept.add(candidate);
+          used += candidate.tokens;
+        }
+      }
+      selected = candidates.filter(candidate => kept.has(candidate));
+    }
+
+    return {
+      text: selected.map(candidate => candidate.text).join('\n\n'),
+      used: attachments.map(attachment => ({
+        id: attachment.id,
+        filename: attachment.filename,
+        chunks: selected.filter(candidate => candidate.attachment === attachment).map(candidate => candidate.chunk.index),
+        totalChunks: attachment.chunkCount
+      }))
+    };
+  }
+
+  // Gives up as soon as the upload is larger than allowed
+  private async read(source: AsyncIterable<Buffer | string>): Promise<Buffer> {
+    const parts: Buffer[] = [];
+    let size = 0;
+
+    for await (const part of source) {
+      const buffer = typeof part === 'string' ? Buffer.from(part) : part;
+      size += buffer.length;
+      if (size > this.settings.maxBytes) {
+        throw new AttachmentError(`Attachments are limited to ${this.settings.maxBytes} bytes`, 413);
+      }
+      parts.push(buffer);
+    }
+    return Buffer.concat(parts);
+  }
+}
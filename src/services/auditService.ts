@@ -0,0 +1,53 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { AuditAction, AuditActor, AuditEvent, AuditQuery } from '../types';
+import { currentContext } from './context';
+import { logger } from './logger';
+import { anonymizeIp, hashSubject } from './piiRedactor';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'log.delete', 'logs.clear', 'logs.restore', 'logs.purge',
+  'conversation.delete', 'attachment.delete', 'subject.erase', 'retention.sweep',
+  'api_key.create', 'api_key.revoke', 'api_key.limits',
+  'template.create', 'template.update', 'template.activate', 'template.delete',
+  'webhook.create', 'webhook.update', 'webhook.delete'
+];
+
+// Background work such as the retention sweep
+export const SYSTEM_ACTOR: AuditActor = { actor: 'system' };
+
+// Operations run from the CLI act across every tenant
+export const cliActor = (): AuditActor => ({ actor: `cli:${process.env.USER || process.env.USERNAME || 'unknown'}` });
+
+// Actors that are usage subjects (key:<api key id>, ip:<address>) are kept as their hash, as erased subjects
+// are, so the trail neither undoes an erasure nor keeps a client address the retention sweep would truncate
+const auditActorName = (actor: string): string => /^(key|ip):/.test(actor) ? hashSubject(actor) : actor;
+
+// Records destructive and configuration-changing operations in the append-only audit_events table.
+// Events are recorded once the operation has succeeded, and carry the ID of the request that made it.
+export class AuditService {
+  constructor(private dbService: DatabaseService = DatabaseService.getInstance()) {}
+
+  // Failing to record is logged rather than thrown, since the operation itself has already happened
+  public record(actor: AuditActor, action: AuditAction, target?: string, details?: Record<string, any>): void {
+    try {
+      this.dbService.recordAuditEvent({
+        id: uuidv4(),
+        timestamp: new Date().toISOString(),
+        ...actor,
+        actor: auditActorName(actor.actor),
+        ipAddress: actor.ipAddress && anonymizeIp(actor.ipAddress),
+        requestId: currentContext().requestId,
+        action,
+        target,
+        details
+      });
+    } catch (error) {
+      logger.error('Error recording audit event', { action, target, error });
+    }
+  }
+
+  public list(query: AuditQuery, tenantId?: string): AuditEvent[] {
+    return this.dbService.getAuditEvents({ ...query, actor: query.actor && auditActorName(query.actor) }, tenantId);
+  }
+}
@@ -0,0 +1,258 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { config } from '../config';
+import { schemaErrors } from '../middleware/validate';
+import { BatchItem } from '../schemas/batchSchemas';
+import { RequestContext, TaskProcessor } from './taskProcessor';
+import { ArchiveFormat, csvField, readRecords } from './logArchiveService';
+import { PiiRedactor } from './piiRedactor';
+import { ProviderConfigurationError } from './providers';
+import { PromptTemplateError } from './promptTemplateService';
+import { ToolError } from './tools';
+import { OutputSchemaError } from './outputSchemas';
+import { AttachmentError } from './attachmentService';
+import { logger } from './logger';
+import { BatchFormat, TaskBatch, TaskBatchResult, TaskRequest, TaskResponse } from '../types';
+
+export const BATCH_FORMATS: BatchFormat[] = ['json', 'jsonl', 'csv'];
+
+export const BATCH_CONTENT_TYPES: Record<BatchFormat, string> = {
+  json: 'application/json',
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv'
+};
+
+export interface BatchSettings {
+  concurrency: number;
+  maxItems: number;
+}
+
+export interface BatchOptions {
+  // Lower than the configured concurrency to go easier on the provider
+  concurrency?: number;
+  // Aborts running items and cancels the ones not started yet
+  signal?: AbortSignal;
+  // Called with the number of valid items before any of them runs; throws to refuse the batch, such as
+  // when they do not fit the caller's rate limit
+  admit?: (items: number) => void;
+  // Called before each item starts; the reason it may not, such as a quota used up by the items before it
+  refuseItem?: () => string | undefined;
+}
+
+export class BatchError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'BatchError';
+  }
+}
+
+// An input as read, with the reason it cannot run when it could not be parsed
+interface BatchInput {
+  value: Record<string, any>;
+  error?: string;
+}
+
+// Columns appended to CSV results; input columns of the same name are left out
+const RESULT_COLUMNS = ['status', 'response', 'error', 'logId'] as const;
+
+const CSV_NUMBER_COLUMNS = ['temperature', 'templateVersion'];
+const CSV_TEXT_COLUMNS = ['task', 'context', 'priority', 'provider', 'model', 'template', 'category', 'outputSchema', 'cache'];
+
+// Comma-separated lists of names
+const CSV_LIST_COLUMNS = ['tools', 'attachments'];
+
+// CSV cells are text: numbers are parsed, tools and attachments are comma-separated, variables come from
+// variables.<name> columns and blank cells are left out. Other columns are not part of the request,
+// but are written back with the results.
+const fromCsvRow = (row: Record<string, string>): Record<string, any> => {
+  const request: Record<string, any> = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    if (value.trim() === '') continue;
+
+    if (column.startsWith('variables.')) {
+      request.variables = { ...request.variables, [column.slice('variables.'.length)]: value };
+    } else if (CSV_LIST_COLUMNS.includes(column)) {
+      request[column] = value.split(',').map(tool => tool.trim()).filter(tool => tool.length > 0);
+    } else if (CSV_NUMBER_COLUMNS.includes(column)) {
+      request[column] = Number.isNaN(Number(value)) ? value : Number(value);
+    } else if (CSV_TEXT_COLUMNS.includes(column)) {
+      request[column] = value;
+    }
+  }
+  return request;
+};
+
+const errorOf = (response: TaskResponse): string | undefined => {
+  if (response.status === 'success') return undefined;
+  return response.metadata?.error || (response.status === 'aborted' ? 'Task was aborted' : undefined);
+};
+
+// Runs many tasks in one go, such as the same prompt over a set of inputs. Items are processed with
+// bounded concurrency and each is logged as its own interaction tagged with the batch id. Invalid items
+// are rejected on their own rather than failing the batch, and results can be downloaded in the format
+// the batch came in. Inputs are stored redacted, like the interactions.
+export class BatchService {
+  constructor(
+    private processor: TaskProcessor,
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private redactor: PiiRedactor = new PiiRedactor(),
+    private settings: BatchSettings = config.batch
+  ) {}
+
+  public run(items: Record<string, any>[], context: RequestContext = {}, options: BatchOptions = {}): Promise<TaskBatch> {
+    if (items.length > this.settings.maxItems) {
+      throw new BatchError(`Batches are limited to ${this.settings.maxItems} items`);
+    }
+    return this.process(items.map(value => ({ value })), 'json', context, options);
+  }
+
+  // Reads the batch from a JSONL or CSV upload, one task per line or row
+  public async runFile(
+    source: AsyncIterable<Buffer | string>,
+    format: ArchiveFormat,
+    context: RequestContext = {},
+    options: BatchOptions = {}
+  ): Promise<TaskBatch> {
+    const inputs: BatchInput[] = [];
+
+    for await (const record of readRecords(source, format)) {
+      if (inputs.length === this.settings.maxItems) {
+        throw new BatchError(`Batches are limited to ${this.settings.maxItems} items`);
+      }
+      inputs.push(record.value ? { value: record.value } : { value: {}, error: `${record.position}: ${record.error}` });
+    }
+
+    if (inputs.length === 0) {
+      throw new BatchError('The batch has no items');
+    }
+    return this.process(inputs, format, context, options);
+  }
+
+  // The results in the batch's own format: the inputs with status, response, error and logId added
+  public *results(batch: TaskBatch): Generator<string> {
+    const results = this.dbService.getTaskBatchResults(batch.id);
+    const outcome = (result: TaskBatchResult) => ({
+      status: result.status,
+      response: result.response,
+      error: result.error,
+      logId: result.logId
+    });
+
+    if (batch.format === 'csv') {
+      const inputColumns = Object.keys(results[0]?.input || {})
+        .filter(column => !(RESULT_COLUMNS as readonly string[]).includes(column));
+      const columns = [...inputColumns, ...RESULT_COLUMNS];
+
+      yield columns.join(',') + '\r\n';
+      for (const result of results) {
+        const values: Record<string, unknown> = { ...result.input, ...outcome(result) };
+        yield columns.map(column => csvField(values[column])).join(',') + '\r\n';
+      }
+    } else if (batch.format === 'jsonl') {
+      for (const result of results) {
+        yield JSON.stringify({ ...result.input, ...outcome(result) }) + '\n';
+      }
+    } else {
+      yield JSON.stringify(results.map(result => ({ ...result.input, ...outcome(result) })));
+    }
+  }
+
+  private async process(inputs: BatchInput[], format: BatchFormat, context: RequestContext, options: BatchOptions): Promise<TaskBatch> {
+    const id = uuidv4();
+    const createdAt = new Date().toISOString();
+    const results: TaskBatchResult[] = inputs.map((input, index) => ({
+      index,
+      status: 'cancelled',
+      input: this.redactor.redactValue(input.value)
+    }));
+
+    const runnable: { index: number; request: TaskRequest }[] = [];
+    inputs.forEach((input, index) => {
+      const value = format === 'csv' && !input.error ? fromCsvRow(input.value) : input.value;
+      const error = input.error || this.check(value, context.tenantId);
+
+      if (error) {
+        results[index] = { ...results[index], status: 'rejected', error };
+      } else {
+        runnable.push({
+          index,
+          request: { ...value, task: value.task.trim(), model: value.model?.trim(), template: value.template?.trim() } as TaskRequest
+        });
+      }
+    });
+
+    options.admit?.(runnable.length);
+
+    let next = 0;
+    const work = async () => {
+      while (next < runnable.length && !options.signal?.aborted) {
+        const { index, request } = runnable[next++];
+        const refusal = options.refuseItem?.();
+        if (refusal) {
+          results[index] = { ...results[index], status: 'rejected', error: refusal };
+          continue;
+        }
+
+        try {
+          const response = await this.processor.process(request, { ...context, batchId: id }, options.signal);
+          results[index] = { ...results[index], status: response.status, logId: response.id, error: errorOf(response) };
+        } catch (error) {
+          logger.error('Error processing batch item', { error, batchId: id, index });
+          results[index] = { ...results[index], status: 'error', error: 'Internal error while processing the item' };
+        }
+      }
+    };
+
+    const concurrency = Math.min(options.concurrency || this.settings.concurrency, this.settings.concurrency);
+    await Promise.all(Array.from({ length: Math.min(concurrency, runnable.length) }, work));
+
+    results
+      .filter(result => result.status === 'cancelled')
+      .forEach(result => {
+        result.error = 'The batch was cancelled before the item ran';
+      });
+
+    const succeeded = results.filter(result => result.status === 'success').length;
+    const batch: TaskBatch = {
+      id,
+      format,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      createdAt,
+      completedAt: new Date().toISOString(),
+      tenantId: context.tenantId,
+      subject: context.subject,
+      requestId: context.requestId
+    };
+
+    this.dbService.saveTaskBatch(batch, results);
+    return { ...batch, items: results.map(({ input, response, ...item }) => item) };
+  }
+
+  // The checks /process makes before a task runs, reported as the reason the item is rejected
+  private check(value: Record<string, any>, tenantId?: string): string | undefined {
+    const invalid = schemaErrors(BatchItem, value, 'item');
+    if (invalid) return invalid;
+    if (value.templateVersion !== undefined && value.template === undefined) return 'templateVersion requires template';
+
+    const request = value as TaskRequest;
+    try {
+      this.processor.ai.assertProviderAvailable(request);
+      this.processor.ai.assertTemplateAvailable(request);
+      this.processor.ai.assertToolsAvailable(request);
+      this.processor.ai.assertOutputSchemaAvailable(request);
+      this.processor.ai.assertAttachmentsAvailable(request, tenantId);
+    } catch (error) {
+      if (
+        error instanceof ProviderConfigurationError || error instanceof PromptTemplateError ||
+        error instanceof ToolError || error instanceof OutputSchemaError || error instanceof AttachmentError
+      ) {
+        return error.message;
+      }
+      throw error;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Where in a trace the current work sits (W3C trace context)
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  // Whether the trace is being recorded; carried to the next service in the traceparent flags
+  sampled: boolean;
+}
+
+// Follows a request (or an async job) through every callback and promise it starts, so log lines and
+// spans pick up its request ID and trace without them being passed through every call
+export interface ExecutionContext {
+  requestId?: string;
+  span?: SpanContext;
+}
+
+const storage = new AsyncLocalStorage<ExecutionContext>();
+
+export const currentContext = (): ExecutionContext => storage.getStore() || {};
+
+// Runs `fn` with the given fields added to the current context
+export const withContext = <T>(context: ExecutionContext, fn: () => T): T =>
+  storage.run({ ...currentContext(), ...context }, fn);
@@ -0,0 +1,98 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { ChatMessage, Conversation, TaskRequest, TaskResponse } from '../types';
+import { config } from '../config';
+import { PiiRedactor } from './piiRedactor';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+// Rough token estimate (about four characters per token for English text)
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export interface ConversationHistory {
+  messages: ChatMessage[];
+  // Number of earlier messages left out to stay within the token budget
+  truncated: number;
+}
+
+// Stores conversations and their turns. Titles and messages are redacted like interaction logs, so
+// history replayed to the provider carries placeholders rather than the personal data it replaced.
+export class ConversationService {
+  constructor(
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private redactor: PiiRedactor = new PiiRedactor()
+  ) {}
+
+  // `subject` is the usage subject of the caller, so the conversation can be erased on their request
+  public createConversation(title?: string, tenantId?: string, subject?: string): Conversation {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: uuidv4(),
+      title: this.redactor.redactText(title?.trim() || DEFAULT_CONVERSATION_TITLE),
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+      tenantId,
+      subject
+    };
+
+    this.dbService.createConversation(conversation);
+    return conversation;
+  }
+
+  public renameConversation(id: string, title: string, tenantId?: string): boolean {
+    return this.dbService.renameConversation(id, this.redactor.redactText(title), tenantId);
+  }
+
+  // Returns the most recent turns that fit in the token budget, oldest first
+  public getHistory(conversationId: string, tokenBudget: number = config.conversation.historyTokenBudget): ConversationHistory {
+    const stored = this.dbService.getConversationMessages(conversationId);
+    const kept: ChatMessage[] = [];
+    let used = 0;
+
+    for (let i = stored.length - 1; i >= 0; i--) {
+      const cost = estimateTokens(stored[i].content);
+      if (used + cost > tokenBudget) break;
+
+      used += cost;
+      kept.unshift({ role: stored[i].role, content: stored[i].content });
+    }
+
+    // History must open with a user turn, so drop an orphaned assistant reply at the cut
+    while (kept.length > 0 && kept[0].role === 'assistant') {
+      kept.shift();
+    }
+
+    return { messages: kept, truncated: stored.length - kept.length };
+  }
+
+  // Appends a completed exchange; failed or aborted tasks are not replayed later
+  public recordTurn(conversationId: string, request: TaskRequest, userPrompt: string, response: TaskResponse): void {
+    if (response.status !== 'success') return;
+
+    this.dbService.addConversationMessages(conversationId, [
+      {
+        id: uuidv4(),
+        conversationId,
+        role: 'user',
+        content: this.redactor.redactText(userPrompt),
+        timestamp: response.timestamp,
+        interactionId: response.id
+      },
+      {
+        id: uuidv4(),
+        conversationId,
+        role: 'assistant',
+        content: this.redactor.redactText(response.response),
+        timestamp: response.timestamp,
+        interactionId: response.id
+      }
+    ]);
+
+    // Name untitled conversations after their first task
+    const conversation = this.dbService.getConversationById(conversationId);
+    if (conversation && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+      this.renameConversation(conversationId, request.task.slice(0, 80));
+    }
+  }
+}
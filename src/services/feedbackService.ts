@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { PiiRedactor } from './piiRedactor';
+import { DEFAULT_USER_TEMPLATE, renderTemplate } from './promptTemplateService';
+import { FeedbackInput, FeedbackThumbs, FineTuningExample, FineTuningOptions, InteractionFeedback } from '../types';
+
+export const FEEDBACK_THUMBS: FeedbackThumbs[] = ['up', 'down'];
+
+export class FeedbackError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'FeedbackError';
+  }
+}
+
+const BATCH_SIZE = 500;
+
+// One line of a chat fine-tuning dataset (the OpenAI JSONL format). The prompt is written the way the
+// default template presents a task.
+const toTrainingLine = (example: FineTuningExample): string =>
+  JSON.stringify({
+    messages: [
+      { role: 'user', content: renderTemplate(DEFAULT_USER_TEMPLATE, { task: example.task, context: example.context }) },
+      { role: 'assistant', content: example.answer }
+    ]
+  }) + '\n';
+
+// Records what callers think of interactions: thumbs, a 1-5 rating, a comment and a corrected answer.
+// Each subject has one entry per interaction, replaced when they give feedback again. Comments and
+// corrections are redacted before they are stored, like the interactions themselves.
+export class FeedbackService {
+  constructor(
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private redactor: PiiRedactor = new PiiRedactor()
+  ) {}
+
+  // Null when the log does not exist in the tenant
+  public submit(logId: string, input: FeedbackInput, subject?: string, tenantId?: string): InteractionFeedback | null {
+    this.validate(input);
+    if (!this.dbService.getInteractionLogById(logId, tenantId)) return null;
+
+    const now = new Date().toISOString();
+    return this.dbService.saveFeedback({
+      id: uuidv4(),
+      logId,
+      subject,
+      thumbs: input.thumbs,
+      rating: input.rating,
+      comment: input.comment !== undefined ? this.redactor.redactText(input.comment.trim()) : undefined,
+      correction: input.correction !== undefined ? this.redactor.redactText(input.correction.trim()) : undefined,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  // Null when the log does not exist in the tenant
+  public list(logId: string, tenantId?: string): InteractionFeedback[] | null {
+    if (!this.dbService.getInteractionLogById(logId, tenantId)) return null;
+    return this.dbService.getFeedback(logId);
+  }
+
+  // The approved and corrected interactions as a JSONL fine-tuning dataset, oldest first
+  public *dataset(options: FineTuningOptions, tenantId?: string): Generator<string> {
+    let cursor: string | undefined;
+    do {
+      const page = this.dbService.getFineTuningExamples(options, tenantId, cursor, BATCH_SIZE);
+
+      if (page.examples.length > 0) {
+        yield page.examples.map(toTrainingLine).join('');
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  private validate(input: FeedbackInput): void {
+    const { thumbs, rating, comment, correction } = input;
+
+    if (thumbs === undefined && rating === undefined && !comment?.trim() && !correction?.trim()) {
+      throw new FeedbackError('Feedback needs thumbs, a rating, a comment or a correction');
+    }
+    if (thumbs !== undefined && !FEEDBACK_THUMBS.includes(thumbs)) {
+      throw new FeedbackError(`Thumbs must be one of: ${FEEDBACK_THUMBS.join(', ')}`);
+    }
+    if (rating !== undefined && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+      throw new FeedbackError('Rating must be a whole number from 1 to 5');
+    }
+    if (correction !== undefined && !correction.trim()) {
+      throw new FeedbackError('Correction must not be empty');
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import http from 'http';
+import https from 'https';
+
+// POSTs the body and resolves with the response status as soon as it arrives; the response body is
+// discarded. Rejects on network errors and when no response arrives within the timeout.
+export const post = (url: string, body: string, headers: Record<string, string>, timeoutMs: number): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      timeout: timeoutMs
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`No response within ${timeoutMs}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
@@ -0,0 +1,183 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { TaskJob, TaskRequest } from '../types';
+import { config } from '../config';
+import { RequestContext, TaskProcessor } from './taskProcessor';
+import { logger } from './logger';
+import { PiiRedactor } from './piiRedactor';
+import { currentContext, withContext } from './context';
+import { formatTraceparent, parseTraceparent, startSpan, withSpan } from './tracing';
+
+// SQLite-backed queue for async tasks. Jobs survive restarts, are claimed in
+// high > medium > low priority order (oldest first within a priority), and at
+// most `concurrency` of them run at once. Running jobs are leased: the worker renews the lease while
+// the job runs, and jobs whose lease expires are requeued, so a crashed process's jobs are picked up
+// again without taking jobs away from live workers sharing the database. Every claim has its own lease
+// token; a worker that finds its lease gone, such as after a stall or a cancellation from another
+// process, aborts the job and records nothing. A job keeps its request as submitted until it has run or
+// been cancelled; after that the stored request and result are redacted like interaction logs.
+export class JobQueue {
+  // Jobs this process is running, by ID
+  private running = new Map<string, { controller: AbortController; leaseToken: string }>();
+  private timer?: NodeJS.Timeout;
+  private leaseTimer?: NodeJS.Timeout;
+
+  constructor(
+    private processor: TaskProcessor,
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private concurrency: number = config.queue.concurrency,
+    private pollIntervalMs: number = config.queue.pollIntervalMs,
+    private redactor: PiiRedactor = new PiiRedactor(),
+    private leaseMs: number = config.queue.leaseMs
+  ) {}
+
+  public start(): void {
+    if (this.timer) return;
+
+    this.requeueExpired();
+
+    // Polling picks up jobs queued by other processes sharing the database
+    this.timer = setInterval(() => this.drain(), this.pollIntervalMs);
+    this.timer.unref();
+
+    // Leases are renewed three times per lease period, so one late renewal does not lose a job
+    this.leaseTimer = setInterval(() => {
+      this.renewLeases();
+      this.requeueExpired();
+    }, this.leaseMs / 3);
+    this.leaseTimer.unref();
+    this.drain();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = undefined;
+    }
+  }
+
+  public submit(request: TaskRequest, context: RequestContext = {}): TaskJob {
+    const currentSpan = currentContext().span;
+    const job: TaskJob = {
+      id: uuidv4(),
+      status: 'queued',
+      priority: request.priority || 'medium',
+      request,
+      createdAt: new Date().toISOString(),
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      tenantId: context.tenantId,
+      subject: context.subject,
+      requestId: context.requestId,
+      traceparent: currentSpan ? formatTraceparent(currentSpan) : undefined
+    };
+
+    this.dbService.createJob(job);
+    this.drain();
+    return job;
+  }
+
+  // Cancels a queued job, or aborts the provider call of a running one. The request of a job running in
+  // another process is left to that worker, which redacts it once the job has stopped.
+  public cancel(id: string): TaskJob | null {
+    const status = this.dbService.cancelJob(id);
+    if (!status) {
+      return null;
+    }
+
+    const running = this.running.get(id);
+    if (running) {
+      running.controller.abort();
+    } else if (status === 'queued') {
+      this.redactRequest(id);
+    }
+    return this.dbService.getJobById(id);
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency) {
+      const leaseToken = uuidv4();
+      const job = this.dbService.claimNextJob(leaseToken, this.leaseMs);
+      if (!job) return;
+
+      const controller = new AbortController();
+      this.running.set(job.id, { controller, leaseToken });
+
+      this.run(job, leaseToken, controller.signal).finally(() => {
+        // The job may have been claimed again by this process since its lease was lost
+        if (this.running.get(job.id)?.leaseToken === leaseToken) {
+          this.running.delete(job.id);
+        }
+        this.drain();
+      });
+    }
+  }
+
+  // Runs under the request ID of the request that queued the job, in a span that joins its trace
+  private run(job: TaskJob, leaseToken: string, signal: AbortSignal): Promise<void> {
+    const span = startSpan('task.job', {
+      parent: parseTraceparent(job.traceparent),
+      attributes: { 'job.id': job.id, 'job.priority': job.priority, 'request.id': job.requestId }
+    });
+
+    return withContext({ requestId: job.requestId }, () => withSpan(span, async () => {
+      let finished = false;
+      try {
+        const response = await this.processor.process(
+          job.request,
+          {
+            userAgent: job.userAgent,
+            ipAddress: job.ipAddress,
+            tenantId: job.tenantId,
+            subject: job.subject,
+            requestId: job.requestId
+          },
+          signal
+        );
+
+        span.setAttributes({ 'task.status': response.status });
+        const result = this.redactor.redactResponse(response);
+        finished = response.status === 'success'
+          ? this.dbService.finishJob(job.id, leaseToken, 'completed', result)
+          : this.dbService.finishJob(job.id, leaseToken, 'failed', result, response.metadata?.error || 'Task failed');
+      } catch (error) {
+        logger.error('Error running job', { jobId: job.id, error });
+        span.setError(error);
+        finished = this.dbService.finishJob(job.id, leaseToken, 'failed', undefined, error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        // A job whose lease was lost is queued or running again, and still needs its request
+        if (finished || this.dbService.getJobById(job.id)?.status === 'cancelled') {
+          this.redactRequest(job.id, job.request);
+        }
+        span.end();
+      }
+    }));
+  }
+
+  private renewLeases(): void {
+    const leases = [...this.running].map(([id, { leaseToken }]) => ({ id, leaseToken }));
+    if (leases.length === 0) return;
+
+    for (const id of this.dbService.renewJobLeases(leases, this.leaseMs)) {
+      logger.info('Stopping a job that was cancelled or claimed again', { jobId: id });
+      this.running.get(id)?.controller.abort();
+    }
+  }
+
+  private requeueExpired(): void {
+    const requeued = this.dbService.requeueExpiredJobs();
+    if (requeued > 0) {
+      logger.info('Requeued interrupted jobs', { requeued });
+    }
+  }
+
+  private redactRequest(id: string, request: TaskRequest | undefined = this.dbService.getJobById(id)?.request): void {
+    if (this.redactor.enabled && request) {
+      this.dbService.updateJobRequest(id, this.redactor.redactRequest(request));
+    }
+  }
+}
@@ -0,0 +1,349 @@
+import { StringDecoder } from 'string_decoder';
+import { DatabaseService } from '../database/schema';
+import { InteractionLog, LogQuery, TaskStatus } from '../types';
+import { PiiRedactor } from './piiRedactor';
+
+export type ArchiveFormat = 'jsonl' | 'csv';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['jsonl', 'csv'];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv'
+};
+
+export interface ImportResult {
+  imported: number;
+  // Logs whose id already existed
+  skipped: number;
+  failed: number;
+  // First few problems, with the line or row they came from
+  errors: string[];
+}
+
+// Column order of CSV archives; metadata is written as a JSON string
+const CSV_COLUMNS = [
+  'id', 'task', 'response', 'status', 'timestamp', 'processingTime', 'priority', 'model',
+  'promptTokens', 'completionTokens', 'totalTokens', 'cost', 'userAgent', 'ipAddress', 'tenantId', 'cached', 'requestId', 'subject',
+  'versionOf', 'version', 'preferred', 'batchId', 'metadata'
+] as const;
+
+const STATUSES: TaskStatus[] = ['success', 'error', 'aborted', 'invalid_output'];
+const PRIORITIES = ['low', 'medium', 'high'];
+const BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 20;
+
+export const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (log: InteractionLog): string => {
+  const values: Partial<Record<(typeof CSV_COLUMNS)[number], unknown>> = {
+    ...log,
+    promptTokens: log.usage?.promptTokens,
+    completionTokens: log.usage?.completionTokens,
+    totalTokens: log.usage?.totalTokens
+  };
+  return CSV_COLUMNS.map(column => csvField(values[column])).join(',') + '\r\n';
+};
+
+// Incremental RFC 4180 parser: quoted fields may contain commas, quotes ("") and line breaks,
+// and may be split across chunks.
+class CsvParser {
+  private field = '';
+  private row: string[] = [];
+  private quoted = false;
+  // Set after a closing quote, until we know whether it was an escaped quote
+  private pendingQuote = false;
+
+  public push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (const char of text) {
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.quoted = false;
+      }
+
+      if (this.quoted) {
+        if (char === '"') {
+          this.pendingQuote = true;
+        } else {
+          this.field += char;
+        }
+      } else if (char === '"' && this.field === '') {
+        this.quoted = true;
+      } else if (char === ',') {
+        this.endField();
+      } else if (char === '\n') {
+        rows.push(this.endRow());
+      } else if (char !== '\r') {
+        this.field += char;
+      }
+    }
+    return rows;
+  }
+
+  public end(): string[][] {
+    return this.field !== '' || this.row.length > 0 ? [this.endRow()] : [];
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+  }
+
+  private endRow(): string[] {
+    this.endField();
+    const row = this.row;
+    this.row = [];
+    return row;
+  }
+}
+
+const optionalNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : String(value);
+
+// Validates one archived record (a parsed JSONL object or a CSV row keyed by header)
+const toInteractionLog = (record: Record<string, any>): { log?: InteractionLog; error?: string } => {
+  for (const field of ['id', 'task', 'timestamp']) {
+    if (typeof record[field] !== 'string' || record[field] === '') {
+      return { error: `missing ${field}` };
+    }
+  }
+  // Tasks aborted before any output have an empty response
+  if (typeof record.response !== 'string') {
+    return { error: 'missing response' };
+  }
+  if (!STATUSES.includes(record.status)) {
+    return { error: `invalid status "${record.status}"` };
+  }
+  if (Number.isNaN(Date.parse(record.timestamp))) {
+    return { error: `invalid timestamp "${record.timestamp}"` };
+  }
+  if (record.priority !== undefined && record.priority !== '' && !PRIORITIES.includes(record.priority)) {
+    return { error: `invalid priority "${record.priority}"` };
+  }
+
+  // JSONL keeps usage nested; CSV flattens it into columns
+  const usage = record.usage ?? {};
+  const numbers = {
+    processingTime: optionalNumber(record.processingTime),
+    promptTokens: optionalNumber(usage.promptTokens ?? record.promptTokens),
+    completionTokens: optionalNumber(usage.completionTokens ?? record.completionTokens),
+    totalTokens: optionalNumber(usage.totalTokens ?? record.totalTokens),
+    cost: optionalNumber(record.cost),
+    version: optionalNumber(record.version)
+  };
+
+  const invalid = Object.entries(numbers).find(([, value]) => Number.isNaN(value));
+  if (invalid) {
+    return { error: `${invalid[0]} must be a number` };
+  }
+  if (numbers.processingTime === undefined) {
+    return { error: 'missing processingTime' };
+  }
+
+  let metadata = record.metadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = metadata === '' ? undefined : JSON.parse(metadata);
+    } catch {
+      return { error: 'metadata is not valid JSON' };
+    }
+  }
+
+  return {
+    log: {
+      id: record.id,
+      task: record.task,
+      response: record.response,
+      status: record.status,
+      timestamp: new Date(record.timestamp).toISOString(),
+      processingTime: numbers.processingTime,
+      userAgent: optionalString(record.userAgent),
+      ipAddress: optionalString(record.ipAddress),
+      metadata: metadata ?? undefined,
+      tenantId: optionalString(record.tenantId),
+      priority: optionalString(record.priority) as InteractionLog['priority'],
+      model: optionalString(record.model),
+      usage: numbers.totalTokens !== undefined
+        ? {
+            promptTokens: numbers.promptTokens ?? 0,
+            completionTokens: numbers.completionTokens ?? 0,
+            totalTokens: numbers.totalTokens
+          }
+        : undefined,
+      cost: numbers.cost,
+      // JSONL keeps the boolean; CSV writes it as text
+      cached: record.cached === true || record.cached === 'true',
+      requestId: optionalString(record.requestId),
+      subject: optionalString(record.subject),
+      versionOf: optionalString(record.versionOf),
+      version: numbers.version,
+      preferred: record.preferred === true || record.preferred === 'true',
+      batchId: optionalString(record.batchId)
+    }
+  };
+};
+
+// One JSONL line or CSV row (keyed by the header), or why it could not be read
+export interface ArchiveRecord {
+  value?: Record<string, any>;
+  // Line or row the record came from, for error messages
+  position: string;
+  error?: string;
+}
+
+export const readRecords = (source: AsyncIterable<Buffer | string>, format: ArchiveFormat): AsyncGenerator<ArchiveRecord> =>
+  format === 'csv' ? readCsv(source) : readJsonl(source);
+
+async function* readJsonl(source: AsyncIterable<Buffer | string>): AsyncGenerator<ArchiveRecord> {
+  const decoder = new StringDecoder('utf8');
+  let buffered = '';
+  let lineNumber = 0;
+
+  const parse = (line: string) => {
+    lineNumber++;
+    const position = `line ${lineNumber}`;
+    try {
+      const value = JSON.parse(line);
+      return value && typeof value === 'object' && !Array.isArray(value)
+        ? { value, position }
+        : { position, error: 'expected a JSON object' };
+    } catch {
+      return { position, error: 'invalid JSON' };
+    }
+  };
+
+  for await (const chunk of source) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        yield parse(line);
+      } else {
+        lineNumber++;
+      }
+    }
+  }
+
+  buffered += decoder.end();
+  if (buffered.trim()) {
+    yield parse(buffered);
+  }
+}
+
+async function* readCsv(source: AsyncIterable<Buffer | string>): AsyncGenerator<ArchiveRecord> {
+  const decoder = new StringDecoder('utf8');
+  const parser = new CsvParser();
+  let header: string[] | undefined;
+  let rowNumber = 0;
+
+  const toRecords = function* (rows: string[][]) {
+    for (const row of rows) {
+      if (!header) {
+        header = row.map(column => column.trim());
+        continue;
+      }
+
+      rowNumber++;
+      if (row.length === 1 && row[0] === '') continue;
+
+      const value: Record<string, string> = {};
+      header.forEach((column, index) => {
+        value[column] = row[index] ?? '';
+      });
+      yield { value, position: `row ${rowNumber}` };
+    }
+  };
+
+  for await (const chunk of source) {
+    yield* toRecords(parser.push(typeof chunk === 'string' ? chunk : decoder.write(chunk)));
+  }
+  yield* toRecords(parser.push(decoder.end()));
+  yield* toRecords(parser.end());
+}
+
+// Streams interaction logs out as JSONL or CSV archives and restores them again. Restored logs are
+// redacted with the current rules, since archives may predate them or come from elsewhere.
+export class LogArchiveService {
+  constructor(
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private redactor: PiiRedactor = new PiiRedactor()
+  ) {}
+
+  // Yields the archive in chunks, reading the database a page at a time so memory stays flat
+  // and the connection is free for other requests between pages.
+  public *export(query: LogQuery, format: ArchiveFormat, tenantId?: string): Generator<string> {
+    if (format === 'csv') {
+      yield CSV_COLUMNS.join(',') + '\r\n';
+    }
+
+    let cursor: string | undefined;
+    do {
+      const page = this.dbService.queryInteractionLogs({ ...query, limit: BATCH_SIZE, cursor, offset: undefined }, tenantId);
+
+      if (page.logs.length > 0) {
+        yield page.logs.map(log => (format === 'csv' ? toCsvRow(log) : JSON.stringify(log) + '\n')).join('');
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  // Restores an archive. Logs are inserted in batches and existing ids are skipped, so an
+  // archive can be imported more than once. A tenantId, when given, replaces the archived one.
+  public async import(
+    source: AsyncIterable<Buffer | string>,
+    format: ArchiveFormat,
+    options: { tenantId?: string } = {}
+  ): Promise<ImportResult> {
+    const result: ImportResult = { imported: 0, skipped: 0, failed: 0, errors: [] };
+    const batch: InteractionLog[] = [];
+
+    const flush = () => {
+      const inserted = this.dbService.importInteractionLogs(batch);
+      result.imported += inserted;
+      result.skipped += batch.length - inserted;
+      batch.length = 0;
+    };
+
+    const accept = (record: Record<string, any> | undefined, position: string, parseError?: string) => {
+      const { log, error } = record ? toInteractionLog(record) : { log: undefined, error: parseError };
+
+      if (!log) {
+        result.failed++;
+        if (result.errors.length < MAX_REPORTED_ERRORS) {
+          result.errors.push(`${position}: ${error}`);
+        }
+        return;
+      }
+
+      const redacted = this.redactor.redactLog(log);
+      batch.push(options.tenantId ? { ...redacted, tenantId: options.tenantId } : redacted);
+      if (batch.length >= BATCH_SIZE) flush();
+    };
+
+    for await (const record of readRecords(source, format)) {
+      accept(record.value, record.position, record.error);
+    }
+    flush();
+
+    return result;
+  }
+}
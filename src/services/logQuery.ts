@@ -0,0 +1,107 @@
+import { decodeLogCursor } from '../database/schema';
+import { LogQuery, LogSortField, TaskStatus } from '../types';
+
+const STATUSES: TaskStatus[] = ['success', 'error', 'aborted', 'invalid_output'];
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+const SORT_FIELDS: LogSortField[] = ['timestamp', 'processingTime', 'totalTokens', 'cost'];
+const METADATA_KEY = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+export const MAX_LOG_PAGE_SIZE = 100;
+
+// Comma-separated lists are accepted for status, priority and model
+const list = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+// Turns string parameters (an HTTP query string or CLI name=value pairs) into a LogQuery.
+// Metadata filters are passed as `metadata.<key>=<value>`.
+export const parseLogQuery = (params: Record<string, string | undefined>): { query?: LogQuery; error?: string } => {
+  const query: LogQuery = {};
+
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+
+    if (name.startsWith('metadata.')) {
+      const key = name.slice('metadata.'.length);
+      if (!METADATA_KEY.test(key)) {
+        return { error: `Invalid metadata key "${key}"` };
+      }
+      query.metadata = { ...query.metadata, [key]: value };
+      continue;
+    }
+
+    switch (name) {
+      case 'q':
+      case 'search':
+        query.search = value.trim() || undefined;
+        break;
+
+      case 'status': {
+        const statuses = list(value);
+        const invalid = statuses.find(status => !STATUSES.includes(status as TaskStatus));
+        if (invalid) return { error: `Status must be one of: ${STATUSES.join(', ')}` };
+        query.status = statuses as TaskStatus[];
+        break;
+      }
+
+      case 'priority': {
+        const priorities = list(value);
+        const invalid = priorities.find(priority => !(PRIORITIES as readonly string[]).includes(priority));
+        if (invalid) return { error: `Priority must be one of: ${PRIORITIES.join(', ')}` };
+        query.priority = priorities as LogQuery['priority'];
+        break;
+      }
+
+      case 'model':
+        query.model = list(value);
+        break;
+
+      case 'requestId':
+        query.requestId = value.trim() || undefined;
+        break;
+
+      case 'batchId':
+        query.batchId = value.trim() || undefined;
+        break;
+
+      case 'since':
+      case 'until': {
+        const time = Date.parse(value);
+        if (Number.isNaN(time)) return { error: `${name} must be an ISO 8601 date` };
+        query[name] = new Date(time).toISOString();
+        break;
+      }
+
+      case 'minProcessingTime':
+      case 'maxProcessingTime':
+      case 'limit':
+      case 'offset': {
+        const number = Number(value);
+        if (!Number.isInteger(number) || number < 0) return { error: `${name} must be a non-negative integer` };
+        query[name] = name === 'limit' ? Math.min(Math.max(number, 1), MAX_LOG_PAGE_SIZE) : number;
+        break;
+      }
+
+      case 'sort':
+        if (!SORT_FIELDS.includes(value as LogSortField)) {
+          return { error: `Sort must be one of: ${SORT_FIELDS.join(', ')}` };
+        }
+        query.sort = value as LogSortField;
+        break;
+
+      case 'order':
+        if (value !== 'asc' && value !== 'desc') return { error: 'Order must be asc or desc' };
+        query.order = value;
+        break;
+
+      case 'cursor':
+        if (!decodeLogCursor(value)) return { error: 'Invalid cursor' };
+        query.cursor = value;
+        break;
+
+      default:
+        return { error: `Unknown filter "${name}"` };
+    }
+  }
+
+  return { query };
+};
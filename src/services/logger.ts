@@ -0,0 +1,86 @@
+import { config, LOG_LEVELS } from '../config';
+import { LogLevel } from '../types';
+import { currentContext } from './context';
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Fields whose values are never written, compared case-insensitively and ignoring - and _
+const SENSITIVE_KEYS = new Set([
+  'authorization', 'cookie', 'setcookie', 'xapikey', 'apikey', 'password', 'secret', 'token', 'accesstoken',
+  'refreshtoken', 'clientsecret', 'keyhash'
+]);
+
+// Credentials that turn up inside free text such as error messages: bearer tokens, provider keys
+// (sk-...), our own API keys (aam_...) and webhook secrets (whsec_...)
+const SENSITIVE_TEXT: [RegExp, string][] = [
+  [/\bBearer\s+[^\s"',;]+/gi, `Bearer ${REDACTED}`],
+  [/\b(?:sk-|aam_|whsec_)[A-Za-z0-9_-]{8,}/g, REDACTED]
+];
+
+const isSensitiveKey = (key: string): boolean => SENSITIVE_KEYS.has(key.toLowerCase().replace(/[-_]/g, ''));
+
+const redactText = (text: string): string =>
+  SENSITIVE_TEXT.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+// A JSON-safe copy with sensitive fields and credentials masked. Errors keep their name, message,
+// stack and status code, which JSON.stringify would otherwise drop.
+export const redact = (value: unknown, depth: number = 0): unknown => {
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    const { status, code } = value as { status?: unknown; code?: unknown };
+    return redact({ name: value.name, message: value.message, status, code, stack: value.stack }, depth);
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [key, isSensitiveKey(key) ? REDACTED : redact(item, depth + 1)])
+  );
+};
+
+// Writes one JSON object per line: time, level, message, the request ID and trace of the work being
+// done, then the given fields. Warnings and errors go to stderr, everything else to stdout.
+export class Logger {
+  constructor(public level: LogLevel = config.logging.level) {}
+
+  public debug(message: string, fields?: Record<string, unknown>): void {
+    this.write('debug', message, fields);
+  }
+
+  public info(message: string, fields?: Record<string, unknown>): void {
+    this.write('info', message, fields);
+  }
+
+  public warn(message: string, fields?: Record<string, unknown>): void {
+    this.write('warn', message, fields);
+  }
+
+  public error(message: string, fields?: Record<string, unknown>): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) return;
+
+    const { requestId, span } = currentContext();
+    const line = {
+      time: new Date().toISOString(),
+      level,
+      msg: redactText(message),
+      ...(requestId && { requestId }),
+      ...(span && { traceId: span.traceId, spanId: span.spanId }),
+      ...(redact(fields) as Record<string, unknown>)
+    };
+
+    (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${JSON.stringify(line)}\n`);
+  }
+}
+
+export const logger = new Logger();
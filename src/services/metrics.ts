@@ -0,0 +1,88 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { config } from '../config';
+import { getModelFamily } from '../config/pricing';
+
+// Every metric the service exposes at /metrics. Label values are always drawn from small fixed sets
+// (route patterns rather than URLs, model families rather than whatever a request names), so the
+// number of series stays bounded however the API is used.
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by method, route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by method, route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry]
+});
+
+export const providerCallsTotal = new Counter({
+  name: 'llm_provider_calls_total',
+  help: 'Provider call attempts by provider, model and outcome (success, error, timeout, circuit_open)',
+  labelNames: ['provider', 'model', 'outcome'] as const,
+  registers: [metricsRegistry]
+});
+
+export const providerCallDuration = new Histogram({
+  name: 'llm_provider_call_duration_seconds',
+  help: 'Provider call attempt latency by provider, model and outcome',
+  labelNames: ['provider', 'model', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+  registers: [metricsRegistry]
+});
+
+export const tokensTotal = new Counter({
+  name: 'llm_tokens_total',
+  help: 'Tokens consumed by provider, model and type (prompt or completion)',
+  labelNames: ['provider', 'model', 'type'] as const,
+  registers: [metricsRegistry]
+});
+
+export const tasksTotal = new Counter({
+  name: 'tasks_total',
+  help: 'Processed tasks by status, whether the simulator answered, and whether the answer came from the response cache',
+  labelNames: ['status', 'simulated', 'cached'] as const,
+  registers: [metricsRegistry]
+});
+
+export const dbQueryDuration = new Histogram({
+  name: 'sqlite_query_duration_seconds',
+  help: 'SQLite statement execution time by operation and table',
+  labelNames: ['operation', 'table'] as const,
+  buckets: [0.0001, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.5, 1],
+  registers: [metricsRegistry]
+});
+
+// Sampled on every scrape
+export const queueJobs = new Gauge({
+  name: 'task_queue_jobs',
+  help: 'Async jobs waiting in or being worked by the task queue',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry]
+});
+
+// Requests may name any model, so only configured models and known families get their own series
+const configuredModels = new Set(
+  [...Object.values(config.llm.providers).map(provider => provider.model), config.llm.defaultModel, config.resilience.fallbackModel]
+    .filter((model): model is string => Boolean(model))
+);
+
+export const modelLabel = (model: string | undefined): string => {
+  if (!model) return 'unknown';
+  return configuredModels.has(model) ? model : getModelFamily(model) || 'other';
+};
+
+// Statement kind and first table named, e.g. select/interaction_logs; SQL only ever comes from our own code
+export const queryLabels = (sql: string): { operation: string; table: string } => {
+  const operation = /^\s*(\w+)/.exec(sql)?.[1]?.toLowerCase() || 'other';
+  const table = /\b(?:FROM|INTO|UPDATE|JOIN)\s+([a-z_]+)/i.exec(sql)?.[1]?.toLowerCase() || 'none';
+  return { operation, table };
+};
@@ -0,0 +1,189 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+
+// The requested output schema is unknown or is not a usable JSON Schema
+export class OutputSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputSchemaError';
+  }
+}
+
+export interface OutputSchema {
+  name: string;
+  description: string;
+  schema: Record<string, any>;
+}
+
+export interface ResolvedOutputSchema {
+  // Registered name, absent for schemas sent inline with the task
+  name?: string;
+  schema: Record<string, any>;
+  validate: ValidateFunction;
+}
+
+const SCHEMA_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// Inline schemas are compiled once per distinct schema, keeping only the most recent ones
+const MAX_CACHED_INLINE_SCHEMAS = 100;
+
+// Structured versions of the reports the assistant writes as markdown
+const BUILT_IN_OUTPUT_SCHEMAS: OutputSchema[] = [
+  {
+    name: 'lead_analysis',
+    description: 'Lead counts, best sources, recommendations and next steps',
+    schema: {
+      type: 'object',
+      properties: {
+        totalLeads: { type: 'integer', minimum: 0 },
+        qualifiedLeads: { type: 'integer', minimum: 0 },
+        hotProspects: { type: 'integer', minimum: 0 },
+        topSources: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              source: { type: 'string' },
+              conversionRate: { type: 'number', minimum: 0, maximum: 100 }
+            },
+            required: ['source', 'conversionRate']
+          }
+        },
+        recommendations: { type: 'array', items: { type: 'string' } },
+        nextSteps: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['totalLeads', 'qualifiedLeads', 'recommendations', 'nextSteps']
+    }
+  },
+  {
+    name: 'call_summary',
+    description: 'Call totals, outcomes, action items and issues',
+    schema: {
+      type: 'object',
+      properties: {
+        totalCalls: { type: 'integer', minimum: 0 },
+        averageDurationMinutes: { type: 'number', minimum: 0 },
+        outcomes: { type: 'array', items: { type: 'string' } },
+        actionItems: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string' },
+              due: { type: 'string' }
+            },
+            required: ['description']
+          }
+        },
+        issues: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['totalCalls', 'outcomes', 'actionItems']
+    }
+  },
+  {
+    name: 'client_report',
+    description: 'Client status with key metrics, milestones and next steps',
+    schema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['on_track', 'at_risk', 'off_track', 'completed'] },
+        metrics: {
+          type: 'object',
+          additionalProperties: { type: 'number' }
+        },
+        milestones: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              state: { type: 'string', enum: ['completed', 'in_progress', 'pending'] },
+              percentComplete: { type: 'number', minimum: 0, maximum: 100 }
+            },
+            required: ['name', 'state']
+          }
+        },
+        nextSteps: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['status', 'milestones', 'nextSteps']
+    }
+  }
+];
+
+export class OutputSchemaRegistry {
+  private ajv = new Ajv({ allErrors: true, strict: false });
+  private schemas = new Map<string, { schema: OutputSchema; validate: ValidateFunction }>();
+  private inline = new Map<string, ValidateFunction>();
+
+  constructor(schemas: OutputSchema[] = BUILT_IN_OUTPUT_SCHEMAS) {
+    schemas.forEach(schema => this.register(schema));
+  }
+
+  public register(schema: OutputSchema): void {
+    if (!SCHEMA_NAME.test(schema.name)) {
+      throw new Error(`Invalid output schema name "${schema.name}"`);
+    }
+    if (this.schemas.has(schema.name)) {
+      throw new Error(`Output schema "${schema.name}" is already registered`);
+    }
+    this.schemas.set(schema.name, { schema, validate: this.compile(schema.schema) });
+  }
+
+  public has(name: string): boolean {
+    return this.schemas.has(name);
+  }
+
+  public list(): OutputSchema[] {
+    return [...this.schemas.values()].map(entry => entry.schema);
+  }
+
+  // Accepts a registered schema name or an inline JSON Schema
+  public resolve(outputSchema: string | Record<string, any>): ResolvedOutputSchema {
+    if (typeof outputSchema === 'string') {
+      const entry = this.schemas.get(outputSchema);
+      if (!entry) {
+        throw new OutputSchemaError(`Unknown output schema "${outputSchema}"`);
+      }
+      return { name: outputSchema, schema: entry.schema.schema, validate: entry.validate };
+    }
+
+    const key = JSON.stringify(outputSchema);
+    let validate = this.inline.get(key);
+
+    if (validate) {
+      // Refresh its place so frequently used schemas stay cached
+      this.inline.delete(key);
+    } else {
+      validate = this.compile(outputSchema);
+      if (this.inline.size >= MAX_CACHED_INLINE_SCHEMAS) {
+        this.inline.delete(this.inline.keys().next().value as string);
+      }
+    }
+    this.inline.set(key, validate);
+
+    return { schema: outputSchema, validate };
+  }
+
+  // Compiles without keeping the schema in Ajv's own cache, which would otherwise grow with every inline schema
+  private compile(schema: Record<string, any>): ValidateFunction {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema) || schema.type !== 'object') {
+      throw new OutputSchemaError('Output schema must be a JSON Schema whose top-level type is "object"');
+    }
+
+    try {
+      const validate = this.ajv.compile(schema);
+      this.ajv.removeSchema(schema);
+      return validate;
+    } catch (error) {
+      throw new OutputSchemaError(`Invalid output schema: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// Models sometimes wrap JSON in a markdown code fence despite being asked not to
+export const parseJsonOutput = (content: string): unknown => {
+  const fenced = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : content);
+};
+
+export const describeValidationErrors = (errors: ErrorObject[] | null | undefined): string[] =>
+  (errors || []).map(error => `${error.instancePath || '(root)'} ${error.message}`);
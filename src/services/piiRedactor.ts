@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { isIPv4, isIPv6 } from 'net';
+import { config } from '../config';
+import { CustomPiiPattern, InteractionLog, PiiRule, TaskRequest, TaskResponse } from '../types';
+
+export const PII_RULES: PiiRule[] = ['email', 'phone', 'card', 'apiKey'];
+
+export interface PrivacySettings {
+  rules: PiiRule[];
+  customPatterns: CustomPiiPattern[];
+  redactProviderInput: boolean;
+}
+
+// Matches found per rule
+export type RedactionCounts = Record<string, number>;
+
+export class PiiConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PiiConfigurationError';
+  }
+}
+
+interface Rule {
+  name: string;
+  pattern: RegExp;
+  placeholder: string;
+  // Rejects matches that only look like the rule, such as digit runs that fail the card checksum
+  accept?: (match: string) => boolean;
+}
+
+// Card numbers pass the Luhn checksum, which rules out most order numbers and other long digit runs
+const passesLuhn = (match: string): boolean => {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Applied in this order: keys and cards before phone numbers, whose pattern would otherwise claim their digits
+const BUILT_IN_RULES: Record<PiiRule, Omit<Rule, 'name'>> = {
+  apiKey: {
+    // OpenAI and Anthropic (sk-), our own API keys (aam_), webhook secrets, AWS access keys, GitHub and Slack tokens
+    pattern: /\b(?:sk-[A-Za-z0-9_-]{16,}|aam_[a-f0-9]{16,}|whsec_[A-Za-z0-9_-]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{30,}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+    placeholder: '[API_KEY]'
+  },
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    placeholder: '[EMAIL]'
+  },
+  card: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    placeholder: '[CARD]',
+    accept: passesLuhn
+  },
+  phone: {
+    // International or national numbers of seven or more digits written in groups, e.g. +44 20 7946 0958,
+    // (555) 123-4567 or 555.123.4567; dates and plain digit runs do not match
+    pattern: /(?<![\w+-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?|\d{1,4}[\s.-])(?:\d{2,4}[\s.-])?\d{3,4}[\s.-]?\d{3,4}(?![\w-])/g,
+    placeholder: '[PHONE]',
+    accept: match => !isIPv4(match)
+  }
+};
+
+const placeholderFor = (name: string): string =>
+  `[${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/\W+/g, '_').toUpperCase()}]`;
+
+// Masks personal data and credentials in text before it is stored or, when configured, sent to a
+// provider. Matches are replaced with a placeholder naming the rule, such as [EMAIL].
+export class PiiRedactor {
+  private rules: Rule[];
+
+  constructor(private settings: PrivacySettings = config.privacy) {
+    const unknown = settings.rules.filter(rule => !PII_RULES.includes(rule));
+    if (unknown.length > 0) {
+      throw new PiiConfigurationError(`Unknown PII rule(s): ${unknown.join(', ')}. Rules are ${PII_RULES.join(', ')}`);
+    }
+
+    this.rules = [
+      ...(Object.keys(BUILT_IN_RULES) as PiiRule[])
+        .filter(name => settings.rules.includes(name))
+        .map(name => ({ name, ...BUILT_IN_RULES[name] })),
+      ...settings.customPatterns.map(compileCustomPattern)
+    ];
+  }
+
+  public get enabled(): boolean {
+    return this.rules.length > 0;
+  }
+
+  public get providerInputEnabled(): boolean {
+    return this.enabled && this.settings.redactProviderInput;
+  }
+
+  // Names of the rules in use, built-in and custom
+  public get ruleNames(): string[] {
+    return this.rules.map(rule => rule.name);
+  }
+
+  public redactText(text: string, counts: RedactionCounts = {}): string {
+    return this.rules.reduce((result, rule) =>
+      result.replace(rule.pattern, match => {
+        if (rule.accept && !rule.accept(match)) return match;
+        counts[rule.name] = (counts[rule.name] || 0) + 1;
+        return rule.placeholder;
+      }), text);
+  }
+
+  // Redacts every string inside arrays and objects, such as tool arguments in metadata
+  public redactValue<T>(value: T, counts: RedactionCounts = {}): T {
+    if (typeof value === 'string') return this.redactText(value, counts) as T;
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item, counts)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item, counts)])
+      ) as T;
+    }
+    return value;
+  }
+
+  // The task, context and variable values, as sent to the provider
+  public redactRequest(request: TaskRequest, counts: RedactionCounts = {}): TaskRequest {
+    if (!this.enabled) return request;
+
+    return {
+      ...request,
+      task: this.redactText(request.task, counts),
+      ...(request.context !== undefined && { context: this.redactText(request.context, counts) }),
+      ...(request.variables && { variables: this.redactValue(request.variables, counts) })
+    };
+  }
+
+  public redactResponse(response: TaskResponse): TaskResponse {
+    if (!this.enabled) return response;
+
+    return {
+      ...response,
+      task: this.redactText(response.task),
+      response: this.redactText(response.response),
+      ...(response.metadata && { metadata: this.redactValue(response.metadata) })
+    };
+  }
+
+  public redactLog(log: InteractionLog): InteractionLog {
+    if (!this.enabled) return log;
+
+    return {
+      ...log,
+      task: this.redactText(log.task),
+      response: this.redactText(log.response),
+      ...(log.metadata && { metadata: this.redactValue(log.metadata) })
+    };
+  }
+}
+
+const compileCustomPattern = (custom: CustomPiiPattern): Rule => {
+  if (!custom?.name || !custom.pattern) {
+    throw new PiiConfigurationError('Custom PII patterns need a name and a pattern');
+  }
+
+  try {
+    const flags = custom.flags || '';
+    return {
+      name: custom.name,
+      pattern: new RegExp(custom.pattern, flags.includes('g') ? flags : `${flags}g`),
+      placeholder: placeholderFor(custom.name)
+    };
+  } catch (error) {
+    throw new PiiConfigurationError(`Invalid custom PII pattern "${custom.name}": ${(error as Error).message}`);
+  }
+};
+
+const expandIPv6 = (ip: string): string[] => {
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = ip.includes('::') ? 8 - headGroups.length - tailGroups.length : 0;
+  return [...headGroups, ...Array(Math.max(0, missing)).fill('0'), ...tailGroups];
+};
+
+// Keeps the network part of an address: the first three octets of IPv4 (a /24) and the first three
+// groups of IPv6 (a /48). Anonymising an anonymised address leaves it unchanged.
+export const anonymizeIp = (ip: string): string => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  if (mapped) return `::ffff:${anonymizeIp(mapped[1])}`;
+
+  if (isIPv4(ip)) return ip.replace(/\.\d+$/, '.0');
+  if (isIPv6(ip)) return `${expandIPv6(ip.toLowerCase()).slice(0, 3).map(group => group.replace(/^0+(?=.)/, '')).join(':')}::`;
+  return ip;
+};
+
+// Usage subjects of unauthenticated clients (ip:<address>) contain their address too
+export const anonymizeSubject = (subject: string): string =>
+  subject.startsWith('ip:') ? `ip:${anonymizeIp(subject.slice('ip:'.length))}` : subject;
+
+// Stands for an erased subject in the audit trail, so the trail proves the erasure without keeping the
+// subject: the hex HMAC-SHA256 of the subject keyed with the salt, prefixed with sha256:
+export const hashSubject = (subject: string, salt: string = config.privacy.subjectSalt): string =>
+  `sha256:${crypto.createHmac('sha256', salt).update(subject).digest('hex')}`;
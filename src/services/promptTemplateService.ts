@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { PromptTemplate, PromptTemplateInput, TaskRequest, TemplateVariable } from '../types';
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export interface RenderedPrompt {
+  template: PromptTemplate;
+  system: string;
+  user: string;
+}
+
+// Used when no other template matches; it cannot be deleted
+export const DEFAULT_TEMPLATE_NAME = 'default';
+
+export const DEFAULT_USER_TEMPLATE =
+  'Task: {{task}}{{#context}}\n\nContext: {{context}}{{/context}}{{#priority}}\n\nPriority: {{priority}}{{/priority}}';
+
+// Filled in from the task request itself
+const BUILT_IN_VARIABLES = ['task', 'context', 'priority'];
+
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const VARIABLE_NAME = /^[A-Za-z_]\w*$/;
+const PLACEHOLDER = /{{\s*[#/]?\s*(\w+)\s*}}/g;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// {{#name}}...{{/name}} renders its body only when name has a value; {{name}} inserts the value.
+// Inserted values are not scanned again, so they cannot inject placeholders.
+export const renderTemplate = (text: string, values: Record<string, string | undefined>): string =>
+  text
+    .replace(/{{\s*#\s*(\w+)\s*}}([\s\S]*?){{\s*\/\s*\1\s*}}/g, (_, name, body) => (values[name] ? body : ''))
+    .replace(/{{\s*(\w+)\s*}}/g, (_, name) => values[name] ?? '');
+
+// Stores prompt templates as immutable versions and picks and renders one for each task
+export class PromptTemplateService {
+  constructor(private dbService: DatabaseService = DatabaseService.getInstance()) {}
+
+  public list(): PromptTemplate[] {
+    return this.dbService.getActivePromptTemplates();
+  }
+
+  public get(name: string, version?: number): PromptTemplate | null {
+    return this.dbService.getPromptTemplate(name, version);
+  }
+
+  public versions(name: string): PromptTemplate[] {
+    return this.dbService.getPromptTemplateVersions(name);
+  }
+
+  public create(input: PromptTemplateInput): PromptTemplate {
+    if (typeof input.name !== 'string' || !TEMPLATE_NAME.test(input.name)) {
+      throw new PromptTemplateError('Name must be 1-64 lowercase letters, digits, "-" or "_"');
+    }
+    if (this.dbService.getLatestPromptTemplateVersion(input.name) > 0) {
+      throw new PromptTemplateError(`Template "${input.name}" already exists; update it to create a new version`, 409);
+    }
+
+    return this.saveVersion(input.name, 1, {
+      userTemplate: DEFAULT_USER_TEMPLATE,
+      variables: [],
+      match: {},
+      priority: 0,
+      ...input
+    });
+  }
+
+  // Saves the changes as the next version and makes it active; unspecified fields carry over
+  public update(name: string, changes: PromptTemplateInput): PromptTemplate | null {
+    const latestVersion = this.dbService.getLatestPromptTemplateVersion(name);
+    if (latestVersion === 0) return null;
+
+    if (changes.name !== undefined && changes.name !== name) {
+      throw new PromptTemplateError('Templates cannot be renamed; create a new template instead');
+    }
+
+    const current = this.get(name) || this.get(name, latestVersion)!;
+    return this.saveVersion(name, latestVersion + 1, { ...current, ...changes });
+  }
+
+  // Makes an earlier (or later) version the one used for new tasks
+  public activate(name: string, version: number): PromptTemplate | null {
+    return this.dbService.activatePromptTemplate(name, version) ? this.get(name) : null;
+  }
+
+  public delete(name: string): boolean {
+    if (name === DEFAULT_TEMPLATE_NAME) {
+      throw new PromptTemplateError('The default template cannot be deleted', 409);
+    }
+    return this.dbService.deletePromptTemplate(name);
+  }
+
+  // The named template when the request asks for one, else the highest-priority match, else the default
+  public resolve(request: TaskRequest): PromptTemplate {
+    if (request.template) {
+      const template = this.get(request.template, request.templateVersion);
+      if (!template) {
+        const version = request.templateVersion !== undefined ? ` version ${request.templateVersion}` : '';
+        throw new PromptTemplateError(`Template "${request.template}"${version} not found`, 404);
+      }
+      return template;
+    }
+
+    const match = this.list().find(template => this.matches(template, request.task));
+    const template = match || this.get(DEFAULT_TEMPLATE_NAME);
+
+    if (!template) {
+      throw new PromptTemplateError('No prompt template matches this task and no default template exists', 500);
+    }
+    return template;
+  }
+
+  public render(request: TaskRequest): RenderedPrompt {
+    const template = this.resolve(request);
+    const values: Record<string, string | undefined> = {};
+
+    for (const variable of template.variables) {
+      const value = request.variables?.[variable.name] ?? variable.default;
+      if (variable.required && !value) {
+        throw new PromptTemplateError(`Template "${template.name}" requires the variable "${variable.name}"`);
+      }
+      values[variable.name] = value;
+    }
+
+    Object.assign(values, { task: request.task, context: request.context, priority: request.priority });
+
+    return {
+      template,
+      system: renderTemplate(template.systemTemplate, values).trim(),
+      user: renderTemplate(template.userTemplate, values).trim()
+    };
+  }
+
+  private matches(template: PromptTemplate, task: string): boolean {
+    const { keywords = [], pattern } = template.match;
+
+    if (keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(task))) {
+      return true;
+    }
+    return pattern ? new RegExp(pattern, 'i').test(task) : false;
+  }
+
+  private saveVersion(name: string, version: number, fields: PromptTemplateInput): PromptTemplate {
+    const template: PromptTemplate = {
+      id: uuidv4(),
+      name,
+      version,
+      description: fields.description,
+      systemTemplate: fields.systemTemplate as string,
+      userTemplate: fields.userTemplate as string,
+      variables: fields.variables as TemplateVariable[],
+      match: fields.match || {},
+      priority: fields.priority as number,
+      active: true,
+      createdAt: new Date().toISOString()
+    };
+
+    this.validate(template);
+    this.dbService.createPromptTemplate(template);
+    return template;
+  }
+
+  private validate(template: PromptTemplate): void {
+    if (typeof template.systemTemplate !== 'string' || template.systemTemplate.trim().length === 0) {
+      throw new PromptTemplateError('systemTemplate is required and must be a non-empty string');
+    }
+    if (typeof template.userTemplate !== 'string' || template.userTemplate.trim().length === 0) {
+      throw new PromptTemplateError('userTemplate must be a non-empty string');
+    }
+    if (template.description !== undefined && typeof template.description !== 'string') {
+      throw new PromptTemplateError('description must be a string');
+    }
+    if (!Number.isInteger(template.priority)) {
+      throw new PromptTemplateError('priority must be an integer');
+    }
+
+    if (!Array.isArray(template.variables)) {
+      throw new PromptTemplateError('variables must be an array');
+    }
+    for (const variable of template.variables) {
+      if (!variable || typeof variable.name !== 'string' || !VARIABLE_NAME.test(variable.name)) {
+        throw new PromptTemplateError('Each variable needs a name made of letters, digits and "_"');
+      }
+      if (BUILT_IN_VARIABLES.includes(variable.name)) {
+        throw new PromptTemplateError(`"${variable.name}" is provided by the task and cannot be declared`);
+      }
+      if (variable.default !== undefined && typeof variable.default !== 'string') {
+        throw new PromptTemplateError(`Default of variable "${variable.name}" must be a string`);
+      }
+    }
+
+    const declared = new Set([...BUILT_IN_VARIABLES, ...template.variables.map(variable => variable.name)]);
+    for (const text of [template.systemTemplate, template.userTemplate]) {
+      for (const [, name] of text.matchAll(PLACEHOLDER)) {
+        if (!declared.has(name)) {
+          throw new PromptTemplateError(`Placeholder "{{${name}}}" is not a declared variable`);
+        }
+      }
+    }
+
+    const { keywords, pattern } = template.match || {};
+    if (keywords !== undefined && (!Array.isArray(keywords) || keywords.some(keyword => typeof keyword !== 'string' || !keyword.trim()))) {
+      throw new PromptTemplateError('match.keywords must be an array of non-empty strings');
+    }
+    if (pattern !== undefined) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        throw new PromptTemplateError('match.pattern must be a valid regular expression');
+      }
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { ResilientCaller, ResilienceSettings, ProviderTimeoutError, CircuitOpenError, ProviderInvocation } from '../resilience';
+import { ProviderRegistry, ResolvedProvider } from '../index';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderAttempt, ProviderName } from '../../../types';
+
+const settings: ResilienceSettings = {
+  timeoutMs: 50,
+  maxRetries: 2,
+  retryBaseDelayMs: 1,
+  retryMaxDelayMs: 20,
+  circuitFailureThreshold: 3,
+  circuitResetMs: 40
+};
+
+const fakeProvider = (name: ProviderName, defaultModel: string): LLMProvider => ({
+  name,
+  defaultModel,
+  complete: jest.fn(),
+  stream: jest.fn()
+});
+
+const primary: ResolvedProvider = { provider: fakeProvider('openai', 'gpt-4o-mini'), model: 'gpt-4o-mini' };
+const backup = fakeProvider('anthropic', 'claude-3-5-haiku-latest');
+
+const registry = {
+  isConfigured: () => true,
+  get: (name: ProviderName) => (name === 'anthropic' ? backup : primary.provider)
+} as unknown as ProviderRegistry;
+
+const request = (signal?: AbortSignal): CompletionRequest => ({
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user', content: 'hello' }],
+  maxTokens: 100,
+  temperature: 0,
+  task: { task: 'hello' },
+  signal
+});
+
+const result = (content: string): CompletionResult => ({ content, model: 'gpt-4o-mini' });
+
+// Errors shaped like the provider SDKs' API errors
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, headers });
+
+// Answers each call with the next outcome: a value resolves, an Error rejects, 'hang' never settles
+const scripted = (...outcomes: (string | Error | 'hang')[]): jest.Mock & ProviderInvocation =>
+  jest.fn((provider: LLMProvider) => {
+    const outcome = outcomes.shift();
+    if (outcome === 'hang') return new Promise<CompletionResult>(() => undefined);
+    if (outcome instanceof Error) return Promise.reject(outcome);
+    return Promise.resolve(result(`${provider.name}: ${outcome}`));
+  });
+
+const outcomes = (attempts: ProviderAttempt[]) => attempts.map(attempt => `${attempt.provider}#${attempt.attempt} ${attempt.outcome}`);
+
+describe('ResilientCaller', () => {
+  it('retries transient failures with backoff until a call succeeds', async () => {
+    const caller = new ResilientCaller(registry, settings);
+    const attempts: ProviderAttempt[] = [];
+    const invoke = scripted(apiError(503), apiError(429), 'ok');
+
+    await expect(caller.call(primary, request(), attempts, invoke)).resolves.toMatchObject({ content: 'openai: ok' });
+
+    expect(outcomes(attempts)).toEqual(['openai#1 error', 'openai#2 error', 'openai#3 success']);
+    expect(attempts[0]).toMatchObject({ statusCode: 503, retryDelayMs: expect.any(Number) });
+    expect(attempts[0].retryDelayMs).toBeLessThanOrEqual(settings.retryBaseDelayMs);
+  });
+
+  it('does not retry errors that would fail the same way again', async () => {
+    const caller = new ResilientCaller(registry, settings);
+    const attempts: ProviderAttempt[] = [];
+    const invoke = scripted(apiError(400), 'ok');
+
+    await expect(caller.call(primary, request(), attempts, invoke)).rejects.toThrow('HTTP 400');
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const caller = new ResilientCaller(registry, settings);
+    const attempts: ProviderAttempt[] = [];
+
+    await expect(caller.call(primary, request(), attempts, scripted(apiError(500), apiError(500), apiError(500), 'ok')))
+      .rejects.toThrow('HTTP 500');
+    expect(attempts).toHaveLength(settings.maxRetries + 1);
+  });
+
+  it('waits as long as Retry-After asks, unless that is longer than the maximum delay', async () => {
+    const caller = new ResilientCaller(registry, settings);
+    const attempts: ProviderAttempt[] = [];
+
+    await caller.call(primary, request(), attempts, scripted(apiError(429, { 'retry-after-ms': '15' }), 'ok'));
+    expect(attempts[0].retryDelayMs).toBe(15);
+
+    const tooLong: ProviderAttempt[] = [];
+    await expect(caller.call(primary, request(), tooLong, scripted(apiError(429, { 'retry-after': '60' }), 'ok')))
+      .rejects.toThrow('HTTP 429');
+    expect(tooLong).toHaveLength(1);
+  });
+
+  it('abandons calls that exceed the timeout and retries them', async () => {
+    const caller = new ResilientCaller(registry, settings);
+    const attempts: ProviderAttempt[] = [];
+
+    await expect(caller.call(primary, request(), attempts, scripted('hang', 'ok'))).resolves.toMatchObject({ content: 'openai: ok' });
+    expect(outcomes(attempts)).toEqual(['openai#1 timeout', 'openai#2 success']);
+  });
+
+  it('does not retry a call that already produced output', async () => {
+    const caller = new ResilientCaller(registry, { ...settings, fallbackProvider: 'anthropic' });
+    const attempts: ProviderAttempt[] = [];
+    const invoke = jest.fn(async (provider: LLMProvider, completion: CompletionRequest, progress: () => void) => {
+      progress();
+      throw apiError(503);
+    });
+
+    await expect(caller.call(primary, request(), attempts, invoke)).rejects.toThrow('HTTP 503');
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying when the caller aborts', async () => {
+    const caller = new ResilientCaller(registry, { ...settings, retryBaseDelayMs: 1000, retryMaxDelayMs: 1000 });
+    const controller = new AbortController();
+    const invoke = scripted(apiError(503), 'ok');
+
+    const call = caller.call(primary, request(controller.signal), [], invoke);
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(call).rejects.toThrow('Aborted');
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  describe('circuit breaker', () => {
+    const once = { ...settings, maxRetries: 0 };
+
+    it('fails fast once a model has failed repeatedly, then lets one trial call through after the reset time', async () => {
+      const caller = new ResilientCaller(registry, once);
+      const invoke = scripted(apiError(503), apiError(503), apiError(503), 'recovered', 'ok');
+
+      for (let i = 0; i < once.circuitFailureThreshold; i++) {
+        await expect(caller.call(primary, request(), [], invoke)).rejects.toThrow('HTTP 503');
+      }
+
+      const attempts: ProviderAttempt[] = [];
+      await expect(caller.call(primary, request(), attempts, invoke)).rejects.toThrow(CircuitOpenError);
+      expect(outcomes(attempts)).toEqual(['openai#1 circuit_open']);
+      expect(invoke).toHaveBeenCalledTimes(once.circuitFailureThreshold);
+
+      await new Promise(resolve => setTimeout(resolve, once.circuitResetMs + 10));
+      await expect(caller.call(primary, request(), [], invoke)).resolves.toMatchObject({ content: 'openai: recovered' });
+      await expect(caller.call(primary, request(), [], invoke)).resolves.toMatchObject({ content: 'openai: ok' });
+    });
+
+    it('opens again straight away when the trial call fails', async () => {
+      const caller = new ResilientCaller(registry, once);
+      const invoke = scripted(apiError(503), apiError(503), apiError(503), apiError(503), 'ok');
+
+      for (let i = 0; i < once.circuitFailureThreshold; i++) {
+        await expect(caller.call(primary, request(), [], invoke)).rejects.toThrow('HTTP 503');
+      }
+      await new Promise(resolve => setTimeout(resolve, once.circuitResetMs + 10));
+
+      await expect(caller.call(primary, request(), [], invoke)).rejects.toThrow('HTTP 503');
+      await expect(caller.call(primary, request(), [], invoke)).rejects.toThrow(CircuitOpenError);
+    });
+
+    it('is not tripped by errors that say nothing about the provider', async () => {
+      const caller = new ResilientCaller(registry, once);
+      const invoke = scripted(apiError(400), apiError(400), apiError(400), 'ok');
+
+      for (let i = 0; i < once.circuitFailureThreshold; i++) {
+        await expect(caller.call(primary, request(), [], invoke)).rejects.toThrow('HTTP 400');
+      }
+      await expect(caller.call(primary, request(), [], invoke)).resolves.toMatchObject({ content: 'openai: ok' });
+    });
+  });
+
+  describe('fallback', () => {
+    it('answers from the fallback model once the primary has run out of retries', async () => {
+      const caller = new ResilientCaller(registry, { ...settings, maxRetries: 1, fallbackProvider: 'anthropic' });
+      const attempts: ProviderAttempt[] = [];
+
+      await expect(caller.call(primary, request(), attempts, scripted(apiError(503), apiError(503), 'ok')))
+        .resolves.toMatchObject({ content: 'anthropic: ok' });
+      expect(outcomes(attempts)).toEqual(['openai#1 error', 'openai#2 error', 'anthropic#1 success']);
+      expect(attempts[2]).toMatchObject({ fallback: true, model: 'claude-3-5-haiku-latest' });
+    });
+
+    it('uses another model of the same provider when only a model is configured', async () => {
+      const caller = new ResilientCaller(registry, { ...settings, maxRetries: 0, fallbackModel: 'gpt-4o' });
+      const attempts: ProviderAttempt[] = [];
+
+      await caller.call(primary, request(), attempts, scripted(apiError(400), 'ok'));
+      expect(attempts.map(attempt => attempt.model)).toEqual(['gpt-4o-mini', 'gpt-4o']);
+    });
+
+    it('is not used when the fallback is the model that failed', async () => {
+      const caller = new ResilientCaller(registry, { ...settings, maxRetries: 0, fallbackModel: 'gpt-4o-mini' });
+      const invoke = scripted(apiError(503), 'ok');
+
+      await expect(caller.call(primary, request(), [], invoke)).rejects.toThrow('HTTP 503');
+      expect(invoke).toHaveBeenCalledTimes(1);
+    });
+
+    it('is not used once output has been passed on', async () => {
+      const caller = new ResilientCaller(registry, { ...settings, fallbackProvider: 'anthropic' });
+      const invoke = jest.fn(async (provider: LLMProvider, completion: CompletionRequest, progress: () => void) => {
+        progress();
+        throw new ProviderTimeoutError(settings.timeoutMs);
+      });
+
+      await expect(caller.call(primary, request(), [], invoke)).rejects.toThrow(ProviderTimeoutError);
+      expect(invoke).toHaveBeenCalledTimes(1);
+    });
+  });
+});
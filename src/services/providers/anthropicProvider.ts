@@ -0,0 +1,88 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderName } from '../../types';
+import { ProviderSettings } from '../../config';
+
+export class AnthropicProvider implements LLMProvider {
+  public readonly name: ProviderName = 'anthropic';
+  public readonly defaultModel: string;
+  private client: Anthropic;
+
+  constructor(settings: ProviderSettings) {
+    this.defaultModel = settings.model;
+    this.client = new Anthropic({
+      apiKey: settings.apiKey,
+      // Retries are handled by ResilientCaller, which also records them
+      maxRetries: 0,
+    });
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const message = await this.client.messages.create(this.buildParams(request), {
+      signal: request.signal,
+      headers: request.headers
+    });
+
+    const content = message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      content: content || 'No response generated',
+      model: message.model || request.model,
+      usage: {
+        promptTokens: message.usage.input_tokens,
+        completionTokens: message.usage.output_tokens,
+        totalTokens: message.usage.input_tokens + message.usage.output_tokens
+      }
+    };
+  }
+
+  public async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult> {
+    const stream = await this.client.messages.create(
+      { ...this.buildParams(request), stream: true },
+      { signal: request.signal, headers: request.headers }
+    );
+
+    let content = '';
+    let model = request.model;
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        model = event.message.model || model;
+        promptTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        completionTokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        content += event.delta.text;
+        onDelta(event.delta.text);
+      }
+    }
+
+    return {
+      content: content || 'No response generated',
+      model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  // Anthropic takes the system prompt as a separate parameter rather than as a message.
+  // Tools are not offered to Anthropic models yet, so no tool messages ever reach this provider.
+  private buildParams(request: CompletionRequest): Anthropic.MessageCreateParamsNonStreaming {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: system || undefined,
+      messages: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role as 'user' | 'assistant', content: message.content }))
+    };
+  }
+}
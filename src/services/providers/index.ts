@@ -0,0 +1,72 @@
+import { LLMProvider, ProviderName, TaskRequest } from '../../types';
+import { config, ProviderSettings } from '../../config';
+import { OpenAIProvider } from './openaiProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { SimulatorProvider } from './simulatorProvider';
+
+export class ProviderConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigurationError';
+  }
+}
+
+export interface ResolvedProvider {
+  provider: LLMProvider;
+  model: string;
+}
+
+export class ProviderRegistry {
+  private providers = new Map<ProviderName, LLMProvider>();
+
+  constructor(private settings: Record<ProviderName, ProviderSettings> = config.llm.providers) {}
+
+  public isConfigured(name: ProviderName): boolean {
+    const settings = this.settings[name];
+
+    switch (name) {
+      case 'simulator':
+        return true;
+      case 'openai-compatible':
+        return Boolean(settings.baseURL);
+      default:
+        return Boolean(settings.apiKey);
+    }
+  }
+
+  public get(name: ProviderName): LLMProvider {
+    if (!this.isConfigured(name)) {
+      throw new ProviderConfigurationError(`Provider "${name}" is not configured`);
+    }
+
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.create(name);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  // Picks the provider and model for a request, falling back to the configured defaults
+  public resolve(request: TaskRequest): ResolvedProvider {
+    const provider = this.get(request.provider || config.llm.defaultProvider);
+    const configuredDefault = provider.name === config.llm.defaultProvider ? config.llm.defaultModel : undefined;
+
+    return {
+      provider,
+      model: request.model || configuredDefault || provider.defaultModel
+    };
+  }
+
+  private create(name: ProviderName): LLMProvider {
+    switch (name) {
+      case 'openai':
+      case 'openai-compatible':
+        return new OpenAIProvider(name, this.settings[name]);
+      case 'anthropic':
+        return new AnthropicProvider(this.settings.anthropic);
+      case 'simulator':
+        return new SimulatorProvider(this.settings.simulator);
+    }
+  }
+}
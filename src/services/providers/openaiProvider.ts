@@ -0,0 +1,125 @@
+import OpenAI from 'openai';
+import { ChatMessage, CompletionRequest, CompletionResult, LLMProvider, ProviderName, TokenUsage, ToolCall } from '../../types';
+import { ProviderSettings } from '../../config';
+
+// Serves both the hosted OpenAI API and OpenAI-compatible servers (vLLM, Ollama, LM Studio)
+// reached through a custom base URL.
+export class OpenAIProvider implements LLMProvider {
+  public readonly name: ProviderName;
+  public readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(name: ProviderName, settings: ProviderSettings) {
+    this.name = name;
+    this.defaultModel = settings.model;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: settings.apiKey || 'not-needed',
+      baseURL: settings.baseURL,
+      // Retries are handled by ResilientCaller, which also records them
+      maxRetries: 0,
+    });
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.client.chat.completions.create(this.buildParams(request), {
+      signal: request.signal,
+      headers: request.headers
+    });
+    const message = completion.choices[0]?.message;
+    const toolCalls = message?.tool_calls?.map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments
+    }));
+
+    return {
+      content: message?.content || (toolCalls?.length ? '' : 'No response generated'),
+      model: completion.model || request.model,
+      usage: toTokenUsage(completion.usage),
+      ...(toolCalls?.length && { toolCalls })
+    };
+  }
+
+  public async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      // Compatible servers may reject stream_options, so usage is only requested from OpenAI itself
+      ...(this.name === 'openai' && { stream_options: { include_usage: true } }),
+    }, { signal: request.signal, headers: request.headers });
+
+    let content = '';
+    let model = request.model;
+    let usage: TokenUsage | undefined;
+    // Tool calls arrive in fragments keyed by index: id and name first, then pieces of the arguments
+    const toolCalls: ToolCall[] = [];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      usage = toTokenUsage(chunk.usage) || usage;
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        onDelta(delta.content);
+      }
+      for (const fragment of delta?.tool_calls || []) {
+        const call = toolCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+        call.id = fragment.id || call.id;
+        call.name += fragment.function?.name || '';
+        call.arguments += fragment.function?.arguments || '';
+      }
+    }
+
+    return {
+      content: content || (toolCalls.length ? '' : 'No response generated'),
+      model,
+      usage,
+      ...(toolCalls.length && { toolCalls })
+    };
+  }
+
+  private buildParams(request: CompletionRequest): OpenAI.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      // JSON mode guarantees syntactically valid JSON; matching the schema is checked by AIService
+      ...(request.responseFormat && { response_format: { type: 'json_object' as const } }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        }))
+      })
+    };
+  }
+}
+
+const toOpenAIMessage = (message: ChatMessage): OpenAI.ChatCompletionMessageParam => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+const toTokenUsage = (usage?: OpenAI.CompletionUsage | null): TokenUsage | undefined =>
+  usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens
+      }
+    : undefined;
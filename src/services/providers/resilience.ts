@@ -0,0 +1,346 @@
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderAttempt, ProviderName } from '../../types';
+import { config } from '../../config';
+import { ProviderRegistry, ResolvedProvider } from './index';
+import { modelLabel, providerCallDuration, providerCallsTotal } from '../metrics';
+import { logger } from '../logger';
+import { formatTraceparent, startSpan, Span } from '../tracing';
+
+export class ProviderTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Provider did not respond within ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(key: string, retryInMs: number) {
+    super(`Circuit for ${key} is open after repeated failures; retrying in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export interface ResilienceSettings {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitResetMs: number;
+  fallbackProvider?: ProviderName;
+  fallbackModel?: string;
+}
+
+// Makes one provider call. `progress` is called whenever the provider produces output, which keeps a
+// stream from timing out and rules out retrying it, since the output has already been passed on.
+export type ProviderInvocation = (
+  provider: LLMProvider,
+  request: CompletionRequest,
+  progress: () => void
+) => Promise<CompletionResult>;
+
+interface Circuit {
+  failures: number;
+  // While open, calls fail fast until this time; then a single trial call is let through
+  openUntil?: number;
+  trialInFlight?: boolean;
+}
+
+const RETRYABLE_STATUS_CODES = [408, 409, 429];
+const CONNECTION_ERROR = /connection|network|socket|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN/i;
+
+// Wraps provider calls with timeouts, retries with jittered exponential backoff, a circuit breaker per
+// provider and model, and an optional fallback model. Every attempt is appended to `attempts` and traced
+// as a client span, whose trace context is sent to the provider in the traceparent header.
+export class ResilientCaller {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(
+    private providers: ProviderRegistry,
+    private settings: ResilienceSettings = config.resilience
+  ) {}
+
+  public async call(
+    target: ResolvedProvider,
+    request: CompletionRequest,
+    attempts: ProviderAttempt[],
+    invoke: ProviderInvocation
+  ): Promise<CompletionResult> {
+    let progressed = false;
+    const trackProgress: ProviderInvocation = (provider, attemptRequest, progress) =>
+      invoke(provider, attemptRequest, () => {
+        progress();
+        progressed = true;
+      });
+
+    try {
+      return await this.callWithRetries(target, request, attempts, trackProgress, false);
+    } catch (error) {
+      const fallback = this.fallbackFor(target);
+      if (!fallback || request.signal?.aborted || progressed) {
+        throw error;
+      }
+      return this.callWithRetries(fallback, request, attempts, trackProgress, true);
+    }
+  }
+
+  private async callWithRetries(
+    target: ResolvedProvider,
+    request: CompletionRequest,
+    attempts: ProviderAttempt[],
+    invoke: ProviderInvocation,
+    fallback: boolean
+  ): Promise<CompletionResult> {
+    const key = `${target.provider.name}:${target.model}`;
+
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+      const span = startSpan('llm.call', {
+        kind: 'client',
+        attributes: {
+          'llm.provider': target.provider.name,
+          'llm.model': target.model,
+          'llm.attempt': attempt,
+          'llm.fallback': fallback || undefined
+        }
+      });
+      const record = (outcome: ProviderAttempt['outcome'], extra: Partial<ProviderAttempt> = {}): ProviderAttempt => {
+        const entry: ProviderAttempt = {
+          provider: target.provider.name,
+          model: target.model,
+          attempt,
+          outcome,
+          ...(fallback && { fallback }),
+          ...extra,
+          durationMs: Date.now() - startTime
+        };
+        attempts.push(entry);
+
+        const labels = { provider: entry.provider, model: modelLabel(entry.model), outcome };
+        providerCallsTotal.inc(labels);
+        providerCallDuration.observe(labels, entry.durationMs / 1000);
+
+        span.setAttributes({ 'llm.outcome': outcome, 'http.response.status_code': entry.statusCode });
+        if (entry.error) {
+          span.setError(entry.error);
+        }
+        span.end();
+        return entry;
+      };
+
+      const retryInMs = this.checkCircuit(key);
+      if (retryInMs !== undefined) {
+        const error = new CircuitOpenError(key, retryInMs);
+        record('circuit_open', { error: error.message });
+        throw error;
+      }
+
+      let progressed = false;
+      try {
+        const result = await this.attempt(target, request, span, (provider, attemptRequest, progress) =>
+          invoke(provider, attemptRequest, () => {
+            progress();
+            progressed = true;
+          })
+        );
+        this.recordSuccess(key);
+        span.setAttributes({
+          'llm.response.model': result.model,
+          'llm.usage.prompt_tokens': result.usage?.promptTokens,
+          'llm.usage.completion_tokens': result.usage?.completionTokens
+        });
+        record('success');
+        return result;
+      } catch (error) {
+        if (request.signal?.aborted) {
+          this.releaseTrial(key);
+          throw error;
+        }
+
+        const transient = isTransient(error);
+        if (transient) {
+          this.recordFailure(key);
+        } else {
+          this.releaseTrial(key);
+        }
+
+        const entry = record(error instanceof ProviderTimeoutError ? 'timeout' : 'error', {
+          ...(statusOf(error) !== undefined && { statusCode: statusOf(error) }),
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        const delay = this.retryDelay(error, attempt);
+        if (!transient || progressed || attempt > this.settings.maxRetries || delay === undefined) {
+          throw error;
+        }
+
+        entry.retryDelayMs = delay;
+        await sleep(delay, request.signal);
+      }
+    }
+  }
+
+  // Runs one call against the target, abandoning it when it takes longer than the timeout. Progress
+  // reported after that throws, which stops an abandoned stream from passing on any more output.
+  private attempt(target: ResolvedProvider, request: CompletionRequest, span: Span, invoke: ProviderInvocation): Promise<CompletionResult> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+
+    let timer: NodeJS.Timeout | undefined;
+    let rejectTimeout: (error: Error) => void = () => undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      rejectTimeout = reject;
+    });
+    const arm = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        rejectTimeout(new ProviderTimeoutError(this.settings.timeoutMs));
+        controller.abort();
+      }, this.settings.timeoutMs);
+    };
+
+    let settled = false;
+    const progress = () => {
+      if (settled) {
+        throw new Error('Provider call was abandoned');
+      }
+      arm();
+    };
+
+    arm();
+    const call = invoke(target.provider, {
+      ...request,
+      model: target.model,
+      headers: { ...request.headers, traceparent: formatTraceparent(span.context) },
+      signal: controller.signal
+    }, progress);
+    // The losing call may still reject once it notices the abort
+    call.catch(() => undefined);
+
+    return Promise.race([call, timedOut]).finally(() => {
+      settled = true;
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abort);
+    });
+  }
+
+  // Milliseconds until the circuit lets calls through again, or undefined when this call may proceed
+  private checkCircuit(key: string): number | undefined {
+    const circuit = this.circuits.get(key);
+    if (!circuit?.openUntil) return undefined;
+
+    const remaining = circuit.openUntil - Date.now();
+    if (remaining > 0) return remaining;
+
+    // Half-open: one trial call decides whether the circuit closes or opens again
+    if (circuit.trialInFlight) return this.settings.circuitResetMs;
+    circuit.trialInFlight = true;
+    return undefined;
+  }
+
+  private recordSuccess(key: string): void {
+    this.circuits.delete(key);
+  }
+
+  private recordFailure(key: string): void {
+    const circuit = this.circuits.get(key) || { failures: 0 };
+    circuit.failures++;
+    circuit.trialInFlight = false;
+
+    if (circuit.openUntil || circuit.failures >= this.settings.circuitFailureThreshold) {
+      circuit.openUntil = Date.now() + this.settings.circuitResetMs;
+      logger.warn('Circuit opened', { circuit: key, failures: circuit.failures });
+    }
+    this.circuits.set(key, circuit);
+  }
+
+  // A trial that ended without telling us anything about the provider lets the next call try instead
+  private releaseTrial(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit) {
+      circuit.trialInFlight = false;
+    }
+  }
+
+  // Retry-After when the provider sent one, otherwise exponential backoff with full jitter.
+  // Undefined when the provider asks us to wait longer than we are willing to.
+  private retryDelay(error: unknown, attempt: number): number | undefined {
+    const retryAfter = retryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return retryAfter <= this.settings.retryMaxDelayMs ? retryAfter : undefined;
+    }
+
+    const ceiling = Math.min(this.settings.retryMaxDelayMs, this.settings.retryBaseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private fallbackFor(target: ResolvedProvider): ResolvedProvider | undefined {
+    const { fallbackProvider, fallbackModel } = this.settings;
+    if (!fallbackProvider && !fallbackModel) return undefined;
+
+    const name = fallbackProvider || target.provider.name;
+    if (!this.providers.isConfigured(name)) {
+      logger.warn('Fallback provider is not configured', { provider: name });
+      return undefined;
+    }
+
+    const provider = this.providers.get(name);
+    const model = fallbackModel || provider.defaultModel;
+
+    return provider.name === target.provider.name && model === target.model ? undefined : { provider, model };
+  }
+}
+
+// Both provider SDKs put the HTTP status and response headers on their API errors
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const headerOf = (error: unknown, name: string): string | undefined => {
+  const headers = (error as { headers?: Record<string, string | null | undefined> })?.headers;
+  return headers?.[name] ?? undefined;
+};
+
+const retryAfterMs = (error: unknown): number | undefined => {
+  const milliseconds = parseFloat(headerOf(error, 'retry-after-ms') || '');
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) return milliseconds;
+
+  const retryAfter = headerOf(error, 'retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = parseFloat(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Rate limits, server errors, timeouts and network failures are worth retrying; other errors
+// (bad requests, authentication) would fail the same way again
+const isTransient = (error: unknown): boolean => {
+  if (error instanceof ProviderTimeoutError) return true;
+
+  const status = statusOf(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS_CODES.includes(status) || status >= 500;
+  }
+
+  const { name = '', message = '', code = '' } = (error || {}) as { name?: string; message?: string; code?: string };
+  return CONNECTION_ERROR.test(`${name} ${code} ${message}`);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Aborted'));
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,41 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds at which the current window ends
+  resetAt: number;
+}
+
+// Fixed-window request counter kept in memory. Counts reset when the process restarts,
+// which is acceptable for a per-minute limit on a single instance.
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private windowMs: number = 60_000) {}
+
+  // Counts `cost` requests at once, such as the items of a batch. Requests that do not all fit in what is
+  // left of the window are refused without counting any of them.
+  public hit(subject: string, limit: number, cost: number = 1, now: number = Date.now()): RateLimitResult {
+    let window = this.windows.get(subject);
+
+    if (!window || window.resetAt <= now) {
+      this.prune(now);
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(subject, window);
+    }
+
+    if (window.count + cost > limit) {
+      return { allowed: false, limit, remaining: limit - window.count, resetAt: window.resetAt };
+    }
+
+    window.count += cost;
+    return { allowed: true, limit, remaining: limit - window.count, resetAt: window.resetAt };
+  }
+
+  // Drop expired windows so idle subjects do not accumulate
+  private prune(now: number): void {
+    for (const [subject, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(subject);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { CacheMode, TaskRequest, TaskResponse, TaskTarget } from '../types';
+
+export interface CacheSettings {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+// miss: answered by the request's own `compute`; hit: answered from the cache; coalesced: shared the answer of an
+// identical request that was already in flight
+export type CacheSource = 'miss' | 'hit' | 'coalesced';
+
+export interface CacheResult {
+  response: TaskResponse;
+  source: CacheSource;
+}
+
+interface CacheEntry {
+  response: TaskResponse;
+  expiresAt: number;
+}
+
+// Whitespace differences do not change what is being asked
+const normalise = (text: string | undefined): string => (text || '').trim().replace(/\s+/g, ' ');
+
+// Object keys in a stable order, so equal values hash the same however they were written
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+// Everything that shapes the prompt or the answer: the normalised task and context, the resolved provider,
+// model and template version, and the request options. Tenants never share answers.
+export const cacheKey = (request: TaskRequest, target: TaskTarget, tenantId?: string): string => {
+  const fields = {
+    task: normalise(request.task),
+    context: normalise(request.context),
+    priority: request.priority || 'medium',
+    provider: target.provider,
+    model: target.model,
+    templateId: target.templateId,
+    templateVersion: target.templateVersion,
+    variables: request.variables || {},
+    tools: request.tools ? [...request.tools].sort() : null,
+    outputSchema: request.outputSchema ?? null,
+    temperature: request.temperature ?? null,
+    attachments: request.attachments || [],
+    tenantId: tenantId || null
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(canonical(fields))).digest('hex');
+};
+
+// Answers that used tools depend on data that may have changed since, and fallback answers should not
+// outlive the outage that caused them
+const isStorable = (response: TaskResponse): boolean =>
+  response.status === 'success' && !response.metadata?.toolCalls && !response.metadata?.fallback;
+
+// In-memory LRU cache of task responses with a TTL, which also coalesces identical concurrent requests
+// into a single provider call
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<TaskResponse>>();
+
+  constructor(private settings: CacheSettings = config.cache) {}
+
+  // Answers from the cache or an identical in-flight request when the mode allows it, otherwise runs `compute`.
+  // Followers only share a successful answer; when the first request fails or is aborted they run their own.
+  // An aborted request, such as a follower aborted while it waited, does not lead a call others would wait
+  // on: `compute` is expected to answer an aborted signal straight away, without calling the provider.
+  public async run(key: string, mode: CacheMode, compute: () => Promise<TaskResponse>, signal?: AbortSignal): Promise<CacheResult> {
+    if (mode === 'use') {
+      const cached = this.get(key);
+      if (cached) {
+        return { response: cached, source: 'hit' };
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        const response = await waitFor(pending, signal);
+        if (response?.status === 'success') {
+          return { response, source: 'coalesced' };
+        }
+      }
+    }
+
+    if (signal?.aborted) {
+      return { response: await compute(), source: 'miss' };
+    }
+    return { response: await this.lead(key, compute), source: 'miss' };
+  }
+
+  private async lead(key: string, compute: () => Promise<TaskResponse>): Promise<TaskResponse> {
+    const call = compute();
+    this.inFlight.set(key, call);
+
+    try {
+      const response = await call;
+      if (isStorable(response)) {
+        this.set(key, response);
+      }
+      return response;
+    } finally {
+      if (this.inFlight.get(key) === call) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  private get(key: string): TaskResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    // Re-inserting moves the entry to the back of the eviction order
+    this.entries.set(key, entry);
+    return entry.response;
+  }
+
+  private set(key: string, response: TaskResponse): void {
+    const { ttlMs, maxEntries } = this.settings;
+    if (ttlMs <= 0 || maxEntries <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: Date.now() + ttlMs });
+
+    // Maps iterate in insertion order, so the first keys are the least recently used
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// The in-flight answer, or undefined when it fails or the waiting request is aborted first
+const waitFor = (pending: Promise<TaskResponse>, signal?: AbortSignal): Promise<TaskResponse | undefined> => {
+  if (signal?.aborted) return Promise.resolve(undefined);
+
+  return new Promise(resolve => {
+    const onAbort = () => resolve(undefined);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pending
+      .then(resolve, () => resolve(undefined))
+      .finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+};
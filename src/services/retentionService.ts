@@ -0,0 +1,78 @@
+import { DatabaseService } from '../database/schema';
+import { config } from '../config';
+import { logger } from './logger';
+import { AuditService, SYSTEM_ACTOR } from './auditService';
+import { RetentionSweep } from '../types';
+
+export interface RetentionSettings {
+  // 0 keeps data forever
+  deleteAfterDays: number;
+  // 0 keeps full IP addresses
+  anonymizeIpAfterDays: number;
+  // 0 keeps trashed logs until they are purged by hand
+  trashDays: number;
+  sweepIntervalMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const changedAnything = (sweep: RetentionSweep): boolean =>
+  [sweep.deleted, sweep.anonymized, sweep.purged].some(group => Object.values(group).some(count => count > 0));
+
+// Enforces the retention policy with a periodic sweep: data older than deleteAfterDays is deleted, the
+// IP addresses of data older than anonymizeIpAfterDays are truncated to their network, and logs trashed
+// more than trashDays ago are purged. Sweeps are idempotent, so several processes sharing the database
+// may run them; sweeps that changed anything are recorded in the audit trail.
+export class RetentionService {
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private settings: RetentionSettings = config.retention,
+    private audit: AuditService = new AuditService(dbService)
+  ) {}
+
+  public get enabled(): boolean {
+    return this.settings.deleteAfterDays > 0 || this.settings.anonymizeIpAfterDays > 0 || this.settings.trashDays > 0;
+  }
+
+  public start(): void {
+    if (this.timer || !this.enabled) return;
+
+    this.timer = setInterval(() => this.runSweep(), this.settings.sweepIntervalMs);
+    this.timer.unref();
+    this.runSweep();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public sweep(now: number = Date.now()): RetentionSweep {
+    const cutoff = (days: number) => (days > 0 ? new Date(now - days * DAY_MS).toISOString() : undefined);
+    const sweep = this.dbService.applyRetention(
+      cutoff(this.settings.deleteAfterDays),
+      cutoff(this.settings.anonymizeIpAfterDays),
+      cutoff(this.settings.trashDays)
+    );
+
+    if (changedAnything(sweep)) {
+      this.audit.record(SYSTEM_ACTOR, 'retention.sweep', undefined, sweep);
+    }
+    return sweep;
+  }
+
+  private runSweep(): void {
+    try {
+      const sweep = this.sweep();
+      if (changedAnything(sweep)) {
+        logger.info('Applied retention policy', { ...sweep });
+      }
+    } catch (error) {
+      logger.error('Error applying retention policy', { error });
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AIService } from './aiService';
+import { UsageService } from './usageService';
+import { ResponseCache, CacheSource, cacheKey } from './responseCache';
+import { WebhookService } from './webhookService';
+import { PiiRedactor } from './piiRedactor';
+import { PromptTemplateError } from './promptTemplateService';
+import { OutputSchemaError } from './outputSchemas';
+import { ToolError } from './tools';
+import { modelLabel, tasksTotal, tokensTotal } from './metrics';
+import { DatabaseService, DEFAULT_TENANT_ID } from '../database/schema';
+import { AttachmentUse, InteractionLog, RegenerateOptions, TaskRequest, TaskResponse, TaskStreamOptions } from '../types';
+
+// Details about the caller that are stored alongside the interaction
+export interface RequestContext {
+  userAgent?: string;
+  ipAddress?: string;
+  tenantId?: string;
+  // Usage subject that token and cost usage is billed to
+  subject?: string;
+  // X-Request-Id of the request the task belongs to
+  requestId?: string;
+  // Batch the task was submitted in
+  batchId?: string;
+}
+
+// A logged task cannot be answered again as it was, because something it used is gone
+export class RegenerateError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'RegenerateError';
+  }
+}
+
+// Runs tasks through the AI service and records every outcome as an interaction log, raising the
+// task webhooks, so the HTTP routes, the CLI and the job queue all log the same way. Logs are redacted
+// before they are stored or sent to webhooks; the caller still gets the response as the provider gave it.
+export class TaskProcessor {
+  constructor(
+    private aiService: AIService = new AIService(),
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private usageService: UsageService = new UsageService(dbService),
+    private cache: ResponseCache = new ResponseCache(),
+    private webhooks: WebhookService = new WebhookService(dbService),
+    private redactor: PiiRedactor = new PiiRedactor()
+  ) {}
+
+  public get ai(): AIService {
+    return this.aiService;
+  }
+
+  // Identical tasks are answered from the response cache, or share the provider call of one already in
+  // flight. Conversation turns depend on their history, so they always reach the provider.
+  public async process(request: TaskRequest, context: RequestContext = {}, signal?: AbortSignal): Promise<TaskResponse> {
+    const startTime = Date.now();
+    const compute = async () => {
+      const response = await this.aiService.processTask(request, signal, context.tenantId);
+      this.record(response, context);
+      return response;
+    };
+
+    if (request.cache === 'bypass' || request.conversationId) {
+      return compute();
+    }
+
+    const key = cacheKey(request, this.aiService.resolveTarget(request), context.tenantId);
+    const { response, source } = await this.cache.run(key, request.cache || 'use', compute, signal);
+    if (source === 'miss') {
+      return response;
+    }
+
+    const reused = this.reuse(request, response, source, startTime);
+    this.record(reused, context);
+    return reused;
+  }
+
+  // Streams are never cached: the answer is only known once it has already been sent
+  public async processStream(request: TaskRequest, context: RequestContext, options: TaskStreamOptions): Promise<TaskResponse> {
+    const response = await this.aiService.processTaskStream(request, options, context.tenantId);
+    this.record(response, context);
+    return response;
+  }
+
+  // Answers a logged task again and records the answer as the next version of its interaction. The task,
+  // context, attachments, priority, category, template version, variables, tools and output schema are
+  // replayed from the log, and so are the provider, model and temperature unless the options change them;
+  // a new provider without a model uses its default model. Regenerations always reach the provider.
+  // Throws ProviderConfigurationError when the provider cannot be used, AttachmentError when an attachment
+  // has been deleted since, and RegenerateError when the template version, a tool or the output schema is gone.
+  public async regenerate(log: InteractionLog, options: RegenerateOptions, context: RequestContext = {}, signal?: AbortSignal): Promise<TaskResponse> {
+    const metadata = log.metadata || {};
+    const request: TaskRequest = {
+      task: log.task,
+      context: metadata.context,
+      attachments: metadata.attachments?.map((attachment: AttachmentUse) => attachment.id),
+      priority: log.priority,
+      category: metadata.category,
+      template: metadata.templateName,
+      templateVersion: metadata.templateVersion,
+      variables: metadata.variables,
+      tools: metadata.tools,
+      // Logs from before inline schemas were stored only say 'inline', and are answered without one
+      outputSchema: metadata.inlineOutputSchema ?? (metadata.outputSchema === 'inline' ? undefined : metadata.outputSchema),
+      provider: options.provider || metadata.fallback?.provider || metadata.provider,
+      model: options.model || (options.provider ? undefined : log.model),
+      temperature: options.temperature ?? metadata.temperature,
+      cache: 'bypass'
+    };
+    this.aiService.assertProviderAvailable(request);
+    this.aiService.assertAttachmentsAvailable(request, log.tenantId);
+    this.assertReplayable(request);
+
+    // The version is taken when the answer is recorded, so concurrent regenerations get distinct numbers
+    const versionContext = { ...context, tenantId: log.tenantId };
+    const response = await this.aiService.processTask(request, signal, versionContext.tenantId);
+    const versionOf = log.versionOf || log.id;
+    const versioned = {
+      ...response,
+      metadata: { ...response.metadata, versionOf, version: this.dbService.getNextLogVersion(versionOf) }
+    };
+
+    this.record(versioned, versionContext);
+    return versioned;
+  }
+
+  // A deleted template version conflicts with the log; anything else it used that no longer works, such as an
+  // unregistered tool or output schema, leaves it unprocessable
+  private assertReplayable(request: TaskRequest): void {
+    try {
+      this.aiService.assertTemplateAvailable(request);
+      this.aiService.assertToolsAvailable(request);
+      this.aiService.assertOutputSchemaAvailable(request);
+    } catch (error) {
+      if (error instanceof PromptTemplateError && error.statusCode === 404) {
+        throw new RegenerateError(`Template "${request.template}" version ${request.templateVersion} has been deleted`, 409);
+      }
+      if (error instanceof PromptTemplateError || error instanceof ToolError || error instanceof OutputSchemaError) {
+        throw new RegenerateError(`${error.message}; the interaction cannot be answered again as it was`, 422);
+      }
+      throw error;
+    }
+  }
+
+  private record(response: TaskResponse, context: RequestContext): void {
+    const log = this.redactor.redactLog(this.toInteractionLog(response, context));
+    this.dbService.saveInteractionLog(log);
+    this.recordMetrics(response);
+    this.webhooks.emit(response.status === 'success' ? 'task.completed' : 'task.failed', log, context.tenantId || DEFAULT_TENANT_ID);
+    if (context.subject) {
+      this.usageService.record(context.subject, response, context.tenantId);
+    }
+  }
+
+  private recordMetrics(response: TaskResponse): void {
+    const metadata = response.metadata || {};
+
+    tasksTotal.inc({
+      status: response.status,
+      simulated: String(metadata.simulated === true),
+      cached: String(metadata.cached === true)
+    });
+
+    if (metadata.usage) {
+      // metadata.model is the model that answered; when it was the fallback, so was the provider
+      const provider = metadata.fallback?.provider || metadata.provider || 'unknown';
+      const labels = { provider, model: modelLabel(metadata.model) };
+      tokensTotal.inc({ ...labels, type: 'prompt' }, metadata.usage.promptTokens);
+      tokensTotal.inc({ ...labels, type: 'completion' }, metadata.usage.completionTokens);
+    }
+  }
+
+  // A new interaction answered with an earlier one's response. Only the original call is billed, so the
+  // copy carries no usage or cost.
+  private reuse(request: TaskRequest, original: TaskResponse, source: CacheSource, startTime: number): TaskResponse {
+    const { usage, estimatedCost, providerAttempts, ...metadata } = original.metadata || {};
+
+    return {
+      ...original,
+      id: uuidv4(),
+      task: request.task,
+      timestamp: new Date().toISOString(),
+      processingTime: Date.now() - startTime,
+      metadata: {
+        ...metadata,
+        context: request.context,
+        category: request.category,
+        cached: true,
+        cacheSource: source,
+        cachedFrom: original.id
+      }
+    };
+  }
+
+  private toInteractionLog(response: TaskResponse, context: RequestContext): InteractionLog {
+    return {
+      id: response.id,
+      task: response.task,
+      response: response.response,
+      status: response.status,
+      timestamp: response.timestamp,
+      processingTime: response.processingTime,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      metadata: response.metadata,
+      tenantId: context.tenantId,
+      priority: response.metadata?.priority,
+      model: response.metadata?.model,
+      usage: response.metadata?.usage,
+      cost: response.metadata?.estimatedCost,
+      cached: response.metadata?.cached === true,
+      requestId: context.requestId,
+      subject: context.subject,
+      versionOf: response.metadata?.versionOf,
+      version: response.metadata?.version,
+      batchId: context.batchId
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { DatabaseService } from '../../database/schema';
+import { TaskStatus, Tool } from '../../types';
+
+const MAX_SEARCH_RESULTS = 10;
+const RESPONSE_EXCERPT_LENGTH = 300;
+
+// Tools every deployment gets; more can be added with ToolRegistry.register
+export const createBuiltInTools = (dbService: DatabaseService = DatabaseService.getInstance()): Tool[] => [
+  {
+    name: 'get_current_time',
+    description: 'Get the current date and time, optionally in a given IANA time zone such as "Europe/Berlin".',
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'IANA time zone name; defaults to UTC' }
+      },
+      additionalProperties: false
+    },
+    handler: ({ timeZone = 'UTC' }: { timeZone?: string }) => {
+      const now = new Date();
+
+      return {
+        iso: now.toISOString(),
+        timeZone,
+        local: now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' })
+      };
+    }
+  },
+  {
+    name: 'search_interaction_logs',
+    description: 'Search earlier tasks and their responses for this account. Returns the most recent matches first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to search for in tasks and responses' },
+        status: { type: 'string', enum: ['success', 'error', 'aborted', 'invalid_output'], description: 'Only return tasks with this outcome' },
+        limit: { type: 'integer', description: `Maximum number of results (1-${MAX_SEARCH_RESULTS}, default 5)` }
+      },
+      required: ['query'],
+      additionalProperties: false
+    },
+    handler: ({ query, status, limit = 5 }: { query: string; status?: TaskStatus; limit?: number }, context) => {
+      const { logs } = dbService.queryInteractionLogs({
+        search: query,
+        status: status ? [status] : undefined,
+        limit: Math.min(Math.max(limit, 1), MAX_SEARCH_RESULTS)
+      }, context.tenantId);
+
+      return logs.map(log => ({
+        id: log.id,
+        task: log.task,
+        status: log.status,
+        timestamp: log.timestamp,
+        response: log.response.length > RESPONSE_EXCERPT_LENGTH
+          ? `${log.response.slice(0, RESPONSE_EXCERPT_LENGTH)}…`
+          : log.response
+      }));
+    }
+  }
+];
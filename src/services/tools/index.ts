@@ -0,0 +1,110 @@
+import { Tool, ToolCall, ToolContext, ToolDefinition } from '../../types';
+import { createBuiltInTools } from './builtInTools';
+
+// A tool call that could not be run; the message is sent back to the model so it can correct itself
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+// OpenAI only accepts function names made of these characters
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const JSON_TYPES: Record<string, (value: unknown) => boolean> = {
+  string: value => typeof value === 'string',
+  number: value => typeof value === 'number' && Number.isFinite(value),
+  integer: value => Number.isInteger(value),
+  boolean: value => typeof value === 'boolean',
+  array: value => Array.isArray(value),
+  object: value => typeof value === 'object' && value !== null && !Array.isArray(value)
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = createBuiltInTools()) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  public register(tool: Tool): void {
+    if (!TOOL_NAME.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}"`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  public has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  public list(): Tool[] {
+    return [...this.tools.values()];
+  }
+
+  // What the model is told about the named tools, or about every tool when no names are given
+  public definitions(names?: string[]): ToolDefinition[] {
+    return this.list()
+      .filter(tool => !names || names.includes(tool.name))
+      .map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  // Parses and checks the model's arguments, then runs the handler. Throws ToolError for calls
+  // the model got wrong; errors thrown by the handler itself are passed through.
+  public async execute(call: ToolCall, context: ToolContext): Promise<unknown> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      throw new ToolError(`Unknown tool "${call.name}"`);
+    }
+
+    const args = parseArguments(call.arguments);
+    checkArguments(tool, args);
+
+    return tool.handler(args, context);
+  }
+}
+
+export const parseArguments = (raw: string): Record<string, unknown> => {
+  let args: unknown;
+  try {
+    args = raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    throw new ToolError('Arguments are not valid JSON');
+  }
+
+  if (!JSON_TYPES.object(args)) {
+    throw new ToolError('Arguments must be a JSON object');
+  }
+  return args as Record<string, unknown>;
+};
+
+// Checks required properties and top-level types; handlers validate anything finer
+const checkArguments = (tool: Tool, args: Record<string, unknown>): void => {
+  const properties: Record<string, { type?: string; enum?: unknown[] }> = tool.parameters.properties || {};
+  const required: string[] = tool.parameters.required || [];
+
+  const missing = required.filter(name => args[name] === undefined);
+  if (missing.length > 0) {
+    throw new ToolError(`Missing required argument(s): ${missing.join(', ')}`);
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const schema = properties[name];
+    if (!schema) {
+      if (tool.parameters.additionalProperties === false) {
+        throw new ToolError(`Unexpected argument "${name}"`);
+      }
+      continue;
+    }
+    if (schema.type && JSON_TYPES[schema.type] && !JSON_TYPES[schema.type](value)) {
+      throw new ToolError(`Argument "${name}" must be of type ${schema.type}`);
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      throw new ToolError(`Argument "${name}" must be one of: ${schema.enum.join(', ')}`);
+    }
+  }
+};
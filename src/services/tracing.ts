@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { performance } from 'perf_hooks';
+import { config } from '../config';
+import { currentContext, SpanContext, withContext } from './context';
+import { post } from './httpClient';
+import { logger } from './logger';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface TracingSettings {
+  endpoint?: string;
+  serviceName: string;
+  exportIntervalMs: number;
+  maxBatchSize: number;
+  maxQueueSize: number;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  // Defaults to the span of the current context; without one the span starts a new trace
+  parent?: SpanContext;
+}
+
+// OTLP enum values
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_ERROR = 2;
+const EXPORT_TIMEOUT_MS = 10000;
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// The caller's trace context, or undefined when the header is missing or malformed (all-zero IDs are invalid)
+export const parseTraceparent = (header: string | undefined): SpanContext | undefined => {
+  const match = TRACEPARENT.exec((header || '').trim().toLowerCase());
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return undefined;
+
+  return { traceId: match[1], spanId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+};
+
+export const formatTraceparent = (span: SpanContext): string =>
+  `00-${span.traceId}-${span.spanId}-${span.sampled ? '01' : '00'}`;
+
+// Wall-clock time in nanoseconds, as OTLP expects, with sub-millisecond precision
+const nowNanos = (): bigint => BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000)) * 1000n;
+
+const randomId = (bytes: number): string => crypto.randomBytes(bytes).toString('hex');
+
+export class Span {
+  public readonly context: SpanContext;
+  private readonly startTime = nowNanos();
+  private endTime?: bigint;
+  private attributes: SpanAttributes = {};
+  private error?: string;
+
+  constructor(
+    public name: string,
+    private readonly kind: SpanKind,
+    private readonly parent: SpanContext | undefined,
+    private readonly exporter: SpanExporter
+  ) {
+    this.context = {
+      traceId: parent?.traceId || randomId(16),
+      spanId: randomId(8),
+      sampled: parent ? parent.sampled : true
+    };
+  }
+
+  public setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  public setError(error: unknown): this {
+    this.error = error instanceof Error ? error.message : String(error);
+    return this;
+  }
+
+  // Ending twice has no effect
+  public end(): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = nowNanos();
+
+    if (this.context.sampled) {
+      this.exporter.add(this);
+    }
+  }
+
+  public toOtlp(): Record<string, unknown> {
+    return {
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      ...(this.parent && { parentSpanId: this.parent.spanId }),
+      name: this.name,
+      kind: SPAN_KIND_CODES[this.kind],
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: (this.endTime ?? nowNanos()).toString(),
+      attributes: toOtlpAttributes(this.attributes),
+      status: this.error ? { code: STATUS_ERROR, message: this.error } : {}
+    };
+  }
+}
+
+const toOtlpAttributes = (attributes: SpanAttributes) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'string' ? { stringValue: value }
+        : typeof value === 'boolean' ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: value }
+        : { doubleValue: value }
+    }));
+
+// Batches finished spans and sends them to an OTLP/HTTP collector as JSON. Without an endpoint spans
+// are discarded, so trace context is still propagated but nothing is recorded. Export failures are
+// logged and the batch dropped rather than retried, so a missing collector never backs up the service.
+export class SpanExporter {
+  private queue: Span[] = [];
+  private timer?: NodeJS.Timeout;
+  private dropped = 0;
+
+  constructor(private settings: TracingSettings = config.tracing) {}
+
+  public get enabled(): boolean {
+    return Boolean(this.settings.endpoint);
+  }
+
+  public add(span: Span): void {
+    if (!this.enabled) return;
+
+    if (this.queue.length >= this.settings.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(span);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.flush(), this.settings.exportIntervalMs);
+      this.timer.unref();
+    }
+    if (this.queue.length >= this.settings.maxBatchSize) {
+      this.flush();
+    }
+  }
+
+  // Sends everything queued so far
+  public async flush(): Promise<void> {
+    if (this.dropped > 0) {
+      logger.warn('Dropped spans because the export queue was full', { dropped: this.dropped });
+      this.dropped = 0;
+    }
+
+    while (this.queue.length > 0) {
+      await this.export(this.queue.splice(0, this.settings.maxBatchSize));
+    }
+  }
+
+  private async export(spans: Span[]): Promise<void> {
+    const body = JSON.stringify({
+      resourceSpans: [{
+        resource: { attributes: toOtlpAttributes({ 'service.name': this.settings.serviceName }) },
+        scopeSpans: [{ scope: { name: this.settings.serviceName }, spans: spans.map(span => span.toOtlp()) }]
+      }]
+    });
+
+    try {
+      const statusCode = await post(this.settings.endpoint as string, body, { 'Content-Type': 'application/json' }, EXPORT_TIMEOUT_MS);
+      if (statusCode < 200 || statusCode >= 300) {
+        logger.warn('Span export was rejected by the collector', { statusCode, spans: spans.length });
+      }
+    } catch (error) {
+      logger.warn('Span export failed', { error, spans: spans.length });
+    }
+  }
+}
+
+const exporter = new SpanExporter();
+
+export const startSpan = (name: string, options: SpanOptions = {}): Span =>
+  new Span(name, options.kind || 'internal', options.parent || currentContext().span, exporter)
+    .setAttributes(options.attributes || {});
+
+// Runs `fn` with the span as the current one, so log lines and spans started inside it belong to it
+export const withSpan = <T>(span: Span, fn: () => T): T => withContext({ span: span.context }, fn);
+
+// Sends the spans still waiting, for use before the process exits
+export const flushSpans = (): Promise<void> => exporter.flush();
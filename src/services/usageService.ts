@@ -0,0 +1,102 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { TaskResponse, UsageLimits } from '../types';
+import { config } from '../config';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface PeriodUsage {
+  period: QuotaPeriod;
+  requests: number;
+  tokens: number;
+  cost: number;
+  tokenLimit: number;
+  costLimit: number;
+  // Start of the next period (UTC), when the totals reset
+  resetsAt: string;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  usage: PeriodUsage[];
+  // Set when a quota is exhausted
+  exceeded?: { period: QuotaPeriod; metric: 'tokens' | 'cost' };
+  retryAfterSeconds?: number;
+}
+
+// Daily quotas reset at UTC midnight and monthly quotas on the first of the month
+const periodBounds = (period: QuotaPeriod, now: Date): { start: Date; end: Date } => {
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+};
+
+// Tracks token and cost usage per subject (an API key or a client IP) and checks it against quotas
+export class UsageService {
+  constructor(private dbService: DatabaseService = DatabaseService.getInstance()) {}
+
+  // Per-key overrides win over the configured defaults
+  public resolveLimits(overrides?: Partial<UsageLimits>): UsageLimits {
+    return { ...config.limits, ...overrides };
+  }
+
+  public getUsage(subject: string, limits: UsageLimits, now: Date = new Date()): PeriodUsage[] {
+    return (['daily', 'monthly'] as QuotaPeriod[]).map(period => {
+      const { start, end } = periodBounds(period, now);
+      const totals = this.dbService.getUsageTotals(subject, start.toISOString());
+
+      return {
+        period,
+        ...totals,
+        tokenLimit: period === 'daily' ? limits.dailyTokens : limits.monthlyTokens,
+        costLimit: period === 'daily' ? limits.dailyCost : limits.monthlyCost,
+        resetsAt: end.toISOString()
+      };
+    });
+  }
+
+  // Quotas are checked before a task runs, so the task that crosses a limit still completes
+  public checkQuota(subject: string, limits: UsageLimits, now: Date = new Date()): QuotaCheck {
+    const usage = this.getUsage(subject, limits, now);
+
+    for (const period of usage) {
+      const metric = period.tokenLimit > 0 && period.tokens >= period.tokenLimit
+        ? 'tokens'
+        : period.costLimit > 0 && period.cost >= period.costLimit
+          ? 'cost'
+          : undefined;
+
+      if (metric) {
+        return {
+          allowed: false,
+          usage,
+          exceeded: { period: period.period, metric },
+          retryAfterSeconds: Math.ceil((new Date(period.resetsAt).getTime() - now.getTime()) / 1000)
+        };
+      }
+    }
+
+    return { allowed: true, usage };
+  }
+
+  public record(subject: string, response: TaskResponse, tenantId?: string): void {
+    const usage = response.metadata?.usage;
+    if (!usage) return;
+
+    this.dbService.recordUsage({
+      id: uuidv4(),
+      subject,
+      tenantId,
+      interactionId: response.id,
+      model: response.metadata?.model || 'unknown',
+      usage,
+      cost: response.metadata?.estimatedCost || 0,
+      timestamp: response.timestamp
+    });
+  }
+}
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/schema';
+import { config } from '../config';
+import { post } from './httpClient';
+import { logger } from './logger';
+import {
+  WebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription, WebhookSubscriptionInput
+} from '../types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['task.completed', 'task.failed', 'log.deleted', 'logs.cleared'];
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const LEASE_MARGIN_MS = 30000;
+
+export class WebhookError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export interface WebhookSettings {
+  timeoutMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  concurrency: number;
+  pollIntervalMs: number;
+}
+
+export interface CreatedWebhook {
+  subscription: WebhookSubscription;
+  // The signing secret, returned once at creation
+  secret: string;
+}
+
+// t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">. Signing the timestamp with the body lets
+// receivers reject old deliveries replayed at them.
+export const signPayload = (secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string =>
+  `t=${timestamp},v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+const isHttpUrl = (url: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Stores webhook subscriptions and delivers events to them. Deliveries are persisted, signed with the
+// subscription's secret and retried with exponential backoff until they succeed or run out of attempts.
+// Like the job queue, it polls for due deliveries, so retries survive restarts and events queued by
+// other processes sharing the database (such as the CLI) are delivered too.
+export class WebhookService {
+  private static instance: WebhookService;
+  // Deliveries this process is sending, whose leases it renews
+  private sending = new Set<string>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private dbService: DatabaseService = DatabaseService.getInstance(),
+    private settings: WebhookSettings = config.webhooks
+  ) {}
+
+  // The service shared by everything in the server process, so deliveries are polled for once
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  // Several processes can share the database, each sending the deliveries it claimed. A claimed
+  // delivery is leased while it is being sent and only sent again by another process when the lease
+  // expires, such as after a crash.
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.dbService.renewWebhookDeliveryLeases([...this.sending], this.leaseMs);
+      this.requeueExpired();
+      this.drain();
+    }, this.settings.pollIntervalMs);
+    this.timer.unref();
+    this.requeueExpired();
+    this.drain();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public list(tenantId?: string): WebhookSubscription[] {
+    return this.dbService.getWebhookSubscriptions(tenantId);
+  }
+
+  public get(id: string, tenantId?: string): WebhookSubscription | null {
+    return this.dbService.getWebhookSubscriptionById(id, tenantId);
+  }
+
+  // Subscribes to every event when none are listed
+  public create(tenantId: string, input: WebhookSubscriptionInput): CreatedWebhook {
+    if (input.url === undefined) {
+      throw new WebhookError('url is required');
+    }
+    this.validate(input);
+
+    const now = new Date().toISOString();
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      tenantId,
+      url: input.url,
+      events: input.events || WEBHOOK_EVENTS,
+      description: input.description,
+      active: input.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    const secret = `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+
+    this.dbService.createWebhookSubscription(subscription, secret);
+    return { subscription, secret };
+  }
+
+  public update(id: string, changes: WebhookSubscriptionInput, tenantId?: string): WebhookSubscription | null {
+    this.validate(changes);
+
+    if (!this.dbService.updateWebhookSubscription(id, changes, tenantId)) {
+      return null;
+    }
+
+    // Re-enabling a subscription sends the deliveries that were held while it was disabled
+    if (changes.active) {
+      this.drain();
+    }
+    return this.get(id, tenantId);
+  }
+
+  public delete(id: string, tenantId?: string): boolean {
+    return this.dbService.deleteWebhookSubscription(id, tenantId);
+  }
+
+  public deliveries(subscriptionId: string, status?: WebhookDeliveryStatus, limit?: number, offset?: number): WebhookDelivery[] {
+    return this.dbService.getWebhookDeliveries(subscriptionId, status, limit, offset);
+  }
+
+  public getDelivery(id: string, tenantId?: string): WebhookDelivery | null {
+    return this.dbService.getWebhookDeliveryById(id, tenantId);
+  }
+
+  // Sends a delivery's payload again as a new delivery with its own attempts. The payload keeps its id,
+  // so receivers that already processed it can tell.
+  public redeliver(id: string, tenantId?: string): WebhookDelivery | null {
+    const original = this.getDelivery(id, tenantId);
+    if (!original) return null;
+
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      subscriptionId: original.subscriptionId,
+      event: original.event,
+      payload: original.payload,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      redeliveryOf: original.id,
+      createdAt: now
+    };
+
+    this.dbService.createWebhookDeliveries([delivery]);
+    this.drain();
+    return delivery;
+  }
+
+  // Queues the event for the tenant's subscribers and starts delivering straight away; without a tenant,
+  // for the subscribers of every tenant. Failing to queue is logged rather than thrown, so it never
+  // fails the operation that raised the event.
+  public emit(event: WebhookEvent, data: Record<string, any>, tenantId?: string): void {
+    try {
+      const subscriptions = this.dbService.getWebhookSubscriptionsForEvent(event, tenantId);
+      if (subscriptions.length === 0) return;
+
+      const eventId = uuidv4();
+      const now = new Date().toISOString();
+
+      this.dbService.createWebhookDeliveries(subscriptions.map(subscription => ({
+        id: uuidv4(),
+        subscriptionId: subscription.id,
+        event,
+        payload: { id: eventId, event, createdAt: now, tenantId: subscription.tenantId, data },
+        status: 'pending',
+        attempts: [],
+        nextAttemptAt: now,
+        createdAt: now
+      })));
+      this.drain();
+    } catch (error) {
+      logger.error('Error queueing webhooks', { event, error });
+    }
+  }
+
+  private validate(input: WebhookSubscriptionInput): void {
+    if (input.url !== undefined && !isHttpUrl(input.url)) {
+      throw new WebhookError('url must be an http or https URL');
+    }
+    if (input.events !== undefined) {
+      const unknown = input.events.filter(event => !WEBHOOK_EVENTS.includes(event));
+      if (unknown.length > 0) {
+        throw new WebhookError(`Unknown event(s): ${unknown.join(', ')}. Events are ${WEBHOOK_EVENTS.join(', ')}`);
+      }
+      if (input.events.length === 0) {
+        throw new WebhookError('events must list at least one event');
+      }
+    }
+  }
+
+  // Long enough for one attempt to time out, with room for a renewal that runs late
+  private get leaseMs(): number {
+    return this.settings.timeoutMs + Math.max(LEASE_MARGIN_MS, this.settings.pollIntervalMs * 3);
+  }
+
+  private requeueExpired(): void {
+    const requeued = this.dbService.requeueExpiredWebhookDeliveries();
+    if (requeued > 0) {
+      logger.info('Requeued interrupted webhook deliveries', { requeued });
+    }
+  }
+
+  private drain(): void {
+    const available = this.settings.concurrency - this.sending.size;
+    if (available <= 0) return;
+
+    for (const delivery of this.dbService.claimDueWebhookDeliveries(available, this.leaseMs)) {
+      this.sending.add(delivery.id);
+
+      this.deliver(delivery)
+        .catch(error => logger.error('Error delivering webhook', { deliveryId: delivery.id, error }))
+        .finally(() => {
+          this.sending.delete(delivery.id);
+          this.drain();
+        });
+    }
+  }
+
+  // Makes one attempt; anything but a 2xx response is retried after a backoff until maxAttempts
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const subscription = this.dbService.getWebhookSubscriptionById(delivery.subscriptionId);
+    const secret = this.dbService.getWebhookSecret(delivery.subscriptionId);
+    // Deleted meanwhile, together with its deliveries
+    if (!subscription || !secret) return;
+
+    const attempt = delivery.attempts.length + 1;
+    const body = JSON.stringify(delivery.payload);
+    const attemptedAt = new Date().toISOString();
+    const startTime = Date.now();
+    let outcome: Pick<WebhookDeliveryAttempt, 'statusCode' | 'error'>;
+
+    try {
+      const statusCode = await post(subscription.url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AI-Assistant-Module-Webhooks/1.0',
+        'X-Webhook-Id': delivery.payload.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signPayload(secret, body)
+      }, this.settings.timeoutMs);
+
+      outcome = statusCode >= 200 && statusCode < 300
+        ? { statusCode }
+        : { statusCode, error: `Responded with status ${statusCode}` };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const attempts = [...delivery.attempts, { attempt, attemptedAt, ...outcome, durationMs: Date.now() - startTime }];
+
+    if (!outcome.error) {
+      this.dbService.updateWebhookDelivery(delivery.id, 'succeeded', attempts);
+    } else if (attempt >= this.settings.maxAttempts) {
+      logger.warn('Webhook delivery failed', {
+        deliveryId: delivery.id,
+        subscriptionId: subscription.id,
+        url: subscription.url,
+        attempts: attempt,
+        error: outcome.error
+      });
+      this.dbService.updateWebhookDelivery(delivery.id, 'failed', attempts);
+    } else {
+      const nextAttemptAt = new Date(Date.now() + this.retryDelay(attempt)).toISOString();
+      this.dbService.updateWebhookDelivery(delivery.id, 'pending', attempts, nextAttemptAt);
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(this.settings.retryMaxDelayMs, this.settings.retryBaseDelayMs * 2 ** (attempt - 1));
+  }
+}
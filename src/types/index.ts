@@ -1,31 +1,707 @@
 // Core data types for the AI Assistant Module
 
+// 'aborted' marks a streamed task whose client disconnected before completion;
+// 'invalid_output' a task whose answer never matched the requested output schema
+export type TaskStatus = 'success' | 'error' | 'aborted' | 'invalid_output';
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'simulator';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Built-in kinds of personal data and credentials masked before storage
+export type PiiRule = 'email' | 'phone' | 'card' | 'apiKey';
+
+export interface CustomPiiPattern {
+  // Used in the placeholder, e.g. employeeId becomes [EMPLOYEE_ID]
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
 export interface TaskRequest {
   task: string;
   context?: string;
   priority?: 'low' | 'medium' | 'high';
+  provider?: ProviderName;
+  model?: string;
+  // Replays earlier turns of this conversation to the model and records the new turn
+  conversationId?: string;
+  // 'async' queues the task and returns a job id immediately
+  mode?: 'sync' | 'async';
+  // Prompt template to use by name instead of matching on the task; defaults to its active version
+  template?: string;
+  templateVersion?: number;
+  // Values for the template's declared variables
+  variables?: Record<string, string>;
+  // Names of the tools the model may call; every registered tool when omitted, none when empty
+  tools?: string[];
+  // Ask for JSON matching this schema: the name of a registered output schema or an inline JSON Schema
+  outputSchema?: string | Record<string, any>;
+  // How the response cache is used; 'use' when omitted
+  cache?: CacheMode;
+  // Label grouping tasks in stats and feedback analytics, e.g. lead-analysis
+  category?: string;
+  // Sampling temperature; LLM_TEMPERATURE when omitted
+  temperature?: number;
+  // Uploaded documents added to the context, as much of them as fits the attachment token budget
+  attachments?: string[];
+}
+
+// What may change when a logged task is answered again; everything else is replayed from the log
+export type RegenerateOptions = Pick<TaskRequest, 'provider' | 'model' | 'temperature'>;
+
+// use: answer from the cache when possible; bypass: skip the cache entirely;
+// refresh: always call the provider and replace the cached answer
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+// What a task resolves to before any provider call
+export interface TaskTarget {
+  provider: ProviderName;
+  model: string;
+  templateId: string;
+  templateVersion: number;
 }
 
 export interface TaskResponse {
   id: string;
   task: string;
   response: string;
-  status: 'success' | 'error';
+  status: TaskStatus;
   timestamp: string;
   processingTime: number;
   metadata?: Record<string, any>;
+  // The parsed, validated JSON when the task requested an output schema
+  data?: unknown;
+}
+
+export interface TaskStreamOptions {
+  onDelta: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Calls requested by an assistant turn
+  toolCalls?: ToolCall[];
+  // The call a tool message answers
+  toolCallId?: string;
+}
+
+// A tool as described to the model; parameters is a JSON schema for the arguments object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments exactly as the model produced them
+  arguments: string;
+}
+
+export interface ToolContext {
+  tenantId?: string;
+  signal?: AbortSignal;
+}
+
+export interface Tool<TArgs = any> extends ToolDefinition {
+  handler(args: TArgs, context: ToolContext): unknown | Promise<unknown>;
+}
+
+// One executed tool call, as recorded in the interaction's metadata
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  arguments: unknown;
+  result?: unknown;
+  error?: string;
+  // 1-based round of the tool-call loop the call was made in
+  iteration: number;
+  durationMs: number;
+}
+
+// One call to a provider, as recorded in the interaction's metadata. Retries and fallbacks each
+// add an attempt, so a task that needed several tries shows every one of them.
+export interface ProviderAttempt {
+  provider: ProviderName;
+  model: string;
+  // 1 for the first try of a model, counting up through its retries
+  attempt: number;
+  outcome: 'success' | 'error' | 'timeout' | 'circuit_open';
+  // Set on attempts made against the fallback after the primary model failed
+  fallback?: boolean;
+  // HTTP status returned by the provider, when there was one
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  // How long we waited before the next attempt, from Retry-After or the backoff
+  retryDelayMs?: number;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  // The originating task, for providers (like the simulator) that answer from it directly
+  task: TaskRequest;
+  // Tools the model may call; providers without function calling ignore them
+  tools?: ToolDefinition[];
+  // Set when the answer must be a JSON object matching the schema; the prompt already asks for it,
+  // so providers without a JSON mode can ignore this
+  responseFormat?: { type: 'json'; schema: Record<string, any> };
+  // Extra HTTP headers sent to the provider, such as the trace context
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  // The model reported by the provider, which may be more specific than the one requested
+  model: string;
+  usage?: TokenUsage;
+  // Set when the model asked for tools to be run instead of (or before) answering
+  toolCalls?: ToolCall[];
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult>;
 }
 
 export interface InteractionLog {
   id: string;
   task: string;
   response: string;
-  status: 'success' | 'error';
+  status: TaskStatus;
   timestamp: string;
   processingTime: number;
   userAgent?: string;
   ipAddress?: string;
   metadata?: Record<string, any>;
+  tenantId?: string;
+  priority?: TaskRequest['priority'];
+  model?: string;
+  usage?: TokenUsage;
+  // Estimated cost in USD
+  cost?: number;
+  // Answered from the response cache; metadata.cachedFrom is the interaction that was reused
+  cached?: boolean;
+  // X-Request-Id of the request that ran the task, which its log lines also carry
+  requestId?: string;
+  // Usage subject the task was run for (see UsageRecord)
+  subject?: string;
+  // When the log was moved to the trash; only set on trashed logs
+  deletedAt?: string;
+  // The original interaction when this one is a regenerated version of it
+  versionOf?: string;
+  // 1 for the original, counting up with each regeneration
+  version?: number;
+  // Marked as the preferred version of its chain
+  preferred?: boolean;
+  // The batch the task was submitted in
+  batchId?: string;
+}
+
+// One version in a regeneration chain, as listed with a log
+export interface InteractionLogVersion {
+  id: string;
+  version: number;
+  response: string;
+  status: TaskStatus;
+  timestamp: string;
+  model?: string;
+  preferred: boolean;
+}
+
+export interface TemplateVariable {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+
+// How a template is picked automatically when a task does not name one
+export interface TemplateMatchRules {
+  // Case-insensitive whole words or phrases, any of which selects the template
+  keywords?: string[];
+  // Case-insensitive regular expression tested against the task
+  pattern?: string;
+}
+
+// One immutable version of a named prompt template. Templates use {{variable}} placeholders and
+// {{#variable}}...{{/variable}} sections that render only when the variable has a value.
+// task, context and priority are always available as variables.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  description?: string;
+  systemTemplate: string;
+  userTemplate: string;
+  variables: TemplateVariable[];
+  match: TemplateMatchRules;
+  // Higher priorities are tried first when several templates match
+  priority: number;
+  // The active version is the one used for new tasks
+  active: boolean;
+  createdAt: string;
+}
+
+export type PromptTemplateInput = Partial<Pick<
+  PromptTemplate,
+  'name' | 'description' | 'systemTemplate' | 'userTemplate' | 'variables' | 'match' | 'priority'
+>>;
+
+export type LogSortField = 'timestamp' | 'processingTime' | 'totalTokens' | 'cost';
+
+export interface LogQuery {
+  // Full-text search over task and response
+  search?: string;
+  status?: TaskStatus[];
+  priority?: NonNullable<TaskRequest['priority']>[];
+  model?: string[];
+  since?: string;
+  until?: string;
+  minProcessingTime?: number;
+  maxProcessingTime?: number;
+  // Exact matches on metadata keys; dotted keys reach into nested objects
+  metadata?: Record<string, string>;
+  requestId?: string;
+  batchId?: string;
+  sort?: LogSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // Opaque cursor from a previous page's nextCursor
+  cursor?: string;
+  // Older offset paging, kept for existing clients; ignored when a cursor is given
+  offset?: number;
+}
+
+export interface LogPage {
+  logs: InteractionLog[];
+  // Present when more logs match; pass it back as `cursor` for the next page
+  nextCursor?: string;
+}
+
+export type StatsBucketSize = 'hour' | 'day';
+
+export interface StatsOptions {
+  bucket?: StatsBucketSize;
+  // ISO timestamps bounding the interactions included
+  since?: string;
+  until?: string;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+// Aggregates for one group of interactions (a model, priority, status or time bucket)
+export interface StatsGroup {
+  key: string;
+  count: number;
+  successRate: number;
+  averageProcessingTime: number;
+  totalTokens: number;
+  cost: number;
+  cacheHits: number;
+  // Percentage of interactions answered from the response cache
+  cacheHitRate: number;
+}
+
+export interface TaskStats {
+  totalInteractions: number;
+  successRate: number;
+  averageProcessingTime: number;
+  latency: LatencyPercentiles;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  totalCost: number;
+  cacheHits: number;
+  cacheHitRate: number;
+  byModel: StatsGroup[];
+  byPriority: StatsGroup[];
+  byStatus: StatsGroup[];
+  bucket: StatsBucketSize;
+  // Keyed by the bucket's start time, oldest first
+  buckets: StatsGroup[];
+  feedback: FeedbackStats;
+}
+
+export type FeedbackThumbs = 'up' | 'down';
+
+// What a caller says about one interaction; at least one field is set
+export interface FeedbackInput {
+  thumbs?: FeedbackThumbs;
+  // 1 (poor) to 5 (excellent)
+  rating?: number;
+  comment?: string;
+  // The answer the interaction should have given
+  correction?: string;
+}
+
+export interface InteractionFeedback extends FeedbackInput {
+  id: string;
+  logId: string;
+  // Usage subject that gave the feedback; a subject has at most one entry per interaction
+  subject?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Feedback on one group of interactions (a template, model, category or time bucket)
+export interface FeedbackGroup {
+  key: string;
+  count: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  ratings: number;
+  averageRating: number;
+  // Percentage of feedback with thumbs or a rating that was positive: a thumbs up or, without
+  // thumbs, a rating of 4 or 5
+  satisfactionRate: number;
+  corrections: number;
+}
+
+export interface FeedbackStats extends Omit<FeedbackGroup, 'key'> {
+  byTemplate: FeedbackGroup[];
+  byModel: FeedbackGroup[];
+  byCategory: FeedbackGroup[];
+  // Keyed by the start of the bucket the rated interactions fall in, oldest first
+  buckets: FeedbackGroup[];
+}
+
+export interface FineTuningOptions {
+  // Any rating below this, or a thumbs down, rules an interaction out
+  minRating?: number;
+  // Also include corrected interactions, answered with their correction; off unless asked for
+  corrections?: boolean;
+  since?: string;
+  until?: string;
+}
+
+// A prompt and the answer to train on: the interaction's own, or its latest correction
+export interface FineTuningExample {
+  logId: string;
+  task: string;
+  context?: string;
+  answer: string;
+}
+
+export interface FineTuningPage {
+  examples: FineTuningExample[];
+  // Present when more examples match; pass it back as the cursor for the next page
+  nextCursor?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount?: number;
+  tenantId?: string;
+  // Usage subject that started the conversation
+  subject?: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  interactionId?: string;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface TaskJob {
+  id: string;
+  status: JobStatus;
+  priority: 'low' | 'medium' | 'high';
+  request: TaskRequest;
+  result?: TaskResponse;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  tenantId?: string;
+  // Usage subject billed for the job (see UsageRecord)
+  subject?: string;
+  // X-Request-Id of the request that queued the job
+  requestId?: string;
+  // W3C trace context of that request, which the job's spans continue
+  traceparent?: string;
+}
+
+// What one retention sweep removed: rows deleted per table, and rows whose IP address was anonymised
+export interface RetentionSweep {
+  deleted: {
+    interactionLogs: number;
+    jobs: number;
+    conversations: number;
+    webhookDeliveries: number;
+    batches: number;
+    attachments: number;
+  };
+  anonymized: {
+    interactionLogs: number;
+    jobs: number;
+    usageRecords: number;
+    feedback: number;
+    batches: number;
+    attachments: number;
+  };
+  // Trashed logs whose restore period ran out
+  purged: {
+    interactionLogs: number;
+  };
+}
+
+export type BatchFormat = 'json' | 'jsonl' | 'csv';
+
+// rejected: the input was invalid and never ran; cancelled: the batch was abandoned before it ran
+export type BatchItemStatus = TaskStatus | 'rejected' | 'cancelled';
+
+// What became of one input of a batch
+export interface TaskBatchItem {
+  // Position in the input, from 0
+  index: number;
+  status: BatchItemStatus;
+  // Interaction log of an item that ran
+  logId?: string;
+  // Why the item was rejected or did not succeed
+  error?: string;
+}
+
+// An item with the input it was given and, once answered, the (redacted) response
+export interface TaskBatchResult extends TaskBatchItem {
+  input: Record<string, any>;
+  response?: string;
+}
+
+export interface TaskBatch {
+  id: string;
+  // Format of the input, which results are downloaded in
+  format: BatchFormat;
+  total: number;
+  succeeded: number;
+  failed: number;
+  createdAt: string;
+  completedAt: string;
+  tenantId?: string;
+  // Usage subject that submitted the batch
+  subject?: string;
+  requestId?: string;
+  // Listed when a single batch is fetched
+  items?: TaskBatchItem[];
+}
+
+export type AttachmentFormat = 'text' | 'markdown' | 'csv' | 'json' | 'html';
+
+// An uploaded document. Only its extracted text is kept, in chunks.
+export interface Attachment {
+  id: string;
+  filename: string;
+  format: AttachmentFormat;
+  // Bytes uploaded
+  size: number;
+  // Estimated tokens of the extracted text
+  tokens: number;
+  chunkCount: number;
+  createdAt: string;
+  tenantId?: string;
+  // Usage subject that uploaded it
+  subject?: string;
+  requestId?: string;
+}
+
+export interface AttachmentChunk {
+  // Position in the document, from 0
+  index: number;
+  content: string;
+  tokens: number;
+}
+
+// The parts of an attachment a task was given, recorded in metadata.attachments
+export interface AttachmentUse {
+  id: string;
+  filename: string;
+  // Indexes of the chunks included, in document order
+  chunks: number[];
+  totalChunks: number;
+}
+
+// Rows deleted for one subject on a "forget me" request
+export interface SubjectErasure {
+  subject: string;
+  interactionLogs: number;
+  conversations: number;
+  jobs: number;
+  usageRecords: number;
+  webhookDeliveries: number;
+  feedback: number;
+  batches: number;
+  attachments: number;
+}
+
+// Destructive and configuration-changing operations recorded in the audit trail
+export type AuditAction =
+  | 'log.delete' | 'logs.clear' | 'logs.restore' | 'logs.purge'
+  | 'conversation.delete' | 'attachment.delete' | 'subject.erase' | 'retention.sweep'
+  | 'api_key.create' | 'api_key.revoke' | 'api_key.limits'
+  | 'template.create' | 'template.update' | 'template.activate' | 'template.delete'
+  | 'webhook.create' | 'webhook.update' | 'webhook.delete';
+
+// Who performed an audited operation: a usage subject (key:<id> or ip:<address>), cli:<os user>, or system
+export interface AuditActor {
+  actor: string;
+  ipAddress?: string;
+  // Unset for operations across every tenant, such as those run from the CLI
+  tenantId?: string;
+}
+
+export interface AuditEvent extends AuditActor {
+  id: string;
+  timestamp: string;
+  // X-Request-Id of the request that performed the operation
+  requestId?: string;
+  action: AuditAction;
+  // What was acted on, e.g. a log, template or webhook ID
+  target?: string;
+  details?: Record<string, any>;
+}
+
+export interface AuditQuery {
+  action?: AuditAction[];
+  actor?: string;
+  target?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// task.completed and task.failed fire when an interaction is logged (failed covers every status but
+// success); log.deleted and logs.cleared when logs are deleted one at a time or all at once
+export type WebhookEvent = 'task.completed' | 'task.failed' | 'log.deleted' | 'logs.cleared';
+
+export interface WebhookSubscription {
+  id: string;
+  tenantId: string;
+  url: string;
+  // Events delivered to this subscription
+  events: WebhookEvent[];
+  description?: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookSubscriptionInput {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string;
+  active?: boolean;
+}
+
+// The JSON body POSTed to subscribers
+export interface WebhookPayload {
+  // Stays the same across retries and redeliveries, so receivers can discard duplicates
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  tenantId: string;
+  data: Record<string, any>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  attemptedAt: string;
+  // Absent when no response was received
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  // When a pending delivery is next tried
+  nextAttemptAt?: string;
+  // The delivery this one manually resends
+  redeliveryOf?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export type ApiKeyRole = 'admin' | 'user';
+
+// Stored API key record; the secret itself is only ever kept as a hash
+export interface ApiKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  keyPrefix: string;
+  role: ApiKeyRole;
+  limits?: Partial<UsageLimits>;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+// Request-rate and spend limits; 0 means unlimited
+export interface UsageLimits {
+  requestsPerMinute: number;
+  dailyTokens: number;
+  monthlyTokens: number;
+  dailyCost: number;
+  monthlyCost: number;
+}
+
+// Identity attached to each authenticated request
+export interface AuthContext {
+  tenantId: string;
+  role: ApiKeyRole;
+  apiKeyId?: string;
+  // Per-key overrides of the configured default limits
+  limits?: Partial<UsageLimits>;
+}
+
+export interface UsageRecord {
+  id: string;
+  // Who is billed: `key:<api key id>`, or `ip:<address>` when no key is involved
+  subject: string;
+  tenantId?: string;
+  interactionId?: string;
+  model: string;
+  usage: TokenUsage;
+  cost: number;
+  timestamp: string;
 }
 
 export interface ApiResponse<T = any> {
@@ -42,3 +718,36 @@ export interface HealthCheck {
   version: string;
   database: 'connected' | 'disconnected';
 }
+
+// JSON Schema for request and response shapes, in the subset shared by Ajv and OpenAPI 3.1
+export type JsonSchema = Record<string, any>;
+
+export interface RouteResponse {
+  description: string;
+  schema?: JsonSchema;
+  // Defaults to application/json
+  contentTypes?: string[];
+}
+
+// A route's contract: requests are validated against it and its OpenAPI operation is generated from it
+export interface RouteSpec {
+  summary: string;
+  description?: string;
+  // Defaults to the router's tag
+  tags?: string[];
+  // Role the API key must have; checked before the request is validated
+  role?: ApiKeyRole;
+  params?: JsonSchema;
+  query?: JsonSchema;
+  body?: JsonSchema;
+  // Bodies the handler reads as a stream instead of parsed JSON; documented, not validated
+  rawBody?: { contentTypes: string[]; description?: string };
+  responses: Record<number, RouteResponse>;
+}
+
+export interface ValidationIssue {
+  location: 'params' | 'query' | 'body';
+  // Dotted path of the offending value, e.g. body.variables.company
+  path: string;
+  message: string;
+}